@@ -2,15 +2,43 @@ import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import path from 'path';
-import { initializeDatabase } from './database';
+import { createStorageAdapter, initializeDatabase } from './database';
+import { createPromptRoutes } from './routes/prompts';
+import { createVideoRoutes } from './routes/videos';
+import { createWebhookRoutes } from './routes/webhooks';
+import { createBatchRoutes } from './routes/batches';
+import { createSequenceRoutes } from './routes/sequences';
+import { VideoJobRunner } from './services/videoJobs';
+import { WebhookDispatcher } from './services/webhooks';
+import { BatchService } from './services/batches';
+import { SequenceService } from './services/sequences';
 
 // Load environment variables
 dotenv.config();
 
 const app = express();
 
-// Initialize database
-initializeDatabase().catch(err => {
+// Initialize storage (STORAGE_DRIVER=sqlite|json|memory)
+const storage = createStorageAdapter();
+const jobs = new VideoJobRunner(storage);
+const webhooks = new WebhookDispatcher(storage);
+const batches = new BatchService(storage, jobs);
+const sequences = new SequenceService(storage, jobs);
+
+// Notificar a los webhooks suscritos cuando un video termina o falla
+webhooks.watchJobs(jobs);
+
+// Retomar los trabajos que quedaron a medias antes del último reinicio
+initializeDatabase(storage).then(async () => {
+  const resumed = await jobs.resume();
+  if (resumed > 0) {
+    console.log(`🔁 ${resumed} trabajo(s) de video retomado(s)`);
+  }
+  const pendingDeliveries = await webhooks.resume();
+  if (pendingDeliveries > 0) {
+    console.log(`🔁 ${pendingDeliveries} entrega(s) de webhook reanudada(s)`);
+  }
+}).catch(err => {
   console.error('❌ Error al inicializar la base de datos:', err);
   process.exit(1);
 });
@@ -31,17 +59,22 @@ app.get('/', (req, res) => {
     endpoints: {
       prompts: '/api/prompts',
       videos: '/api/videos',
-      library: '/api/videos/library'
+      library: '/api/videos/library',
+      batches: '/api/videos/batch',
+      sequences: '/api/videos/sequences',
+      referenceImages: '/api/videos/reference-images',
+      webhooks: '/api/webhooks'
     }
   });
 });
 
-// Import and use API routes
-import promptRoutes from './routes/prompts';
-import videoRoutes from './routes/videos';
-
-app.use('/api/prompts', promptRoutes);
-app.use('/api/videos', videoRoutes);
+// API routes
+app.use('/api/prompts', createPromptRoutes(storage, webhooks));
+// Antes que /api/videos para que /:id no capture "batch" ni "sequences"
+app.use('/api/videos/batch', createBatchRoutes(batches));
+app.use('/api/videos/sequences', createSequenceRoutes(sequences));
+app.use('/api/videos', createVideoRoutes(storage, jobs));
+app.use('/api/webhooks', createWebhookRoutes(storage));
 
 // Error handling middleware
 app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -0,0 +1,115 @@
+import axios from "axios";
+
+/**
+ * Categorías de error de los proveedores. Solo "transient" se reintenta; el resto
+ * se guarda en el trabajo para que la interfaz muestre cómo resolverlo.
+ */
+export type ProviderErrorCategory =
+  | "auth"
+  | "quota"
+  | "content-policy"
+  | "transient"
+  | "invalid-request";
+
+export const PROVIDER_ERROR_CATEGORIES: ProviderErrorCategory[] = [
+  "auth",
+  "quota",
+  "content-policy",
+  "transient",
+  "invalid-request",
+];
+
+// Error ya clasificado; los proveedores lo lanzan cuando conocen la causa
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    readonly category: ProviderErrorCategory
+  ) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
+
+// Filtros de seguridad de Veo (RAI) y de Azure OpenAI (content filter, moderación)
+const CONTENT_POLICY_PATTERN =
+  /safety|content[ _-]?(policy|filter)|moderation|responsible ?ai|\brai\b|prohibited/i;
+
+// Errores de red de Node y de axios sin respuesta del servidor
+const TRANSIENT_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EPIPE",
+  "ERR_NETWORK",
+]);
+
+export function isContentPolicyMessage(message: string): boolean {
+  return CONTENT_POLICY_PATTERN.test(message);
+}
+
+// Función para clasificar una respuesta HTTP de error
+export function categoryFromStatus(
+  status: number,
+  message = ""
+): ProviderErrorCategory | undefined {
+  if (isContentPolicyMessage(message)) return "content-policy";
+  if (status === 401 || status === 403) return "auth";
+  if (status === 429) return "quota";
+  if (status === 408 || status >= 500) return "transient";
+  if (status >= 400) return "invalid-request";
+  return undefined;
+}
+
+/**
+ * Texto del cuerpo de una respuesta de error para buscar bloqueos de contenido.
+ * Con responseType "stream" (downloadFile) el cuerpo es un stream, que no se
+ * puede serializar: en ese caso se clasifica solo por el código HTTP.
+ */
+function responseText(data: unknown): string {
+  if (typeof data === "string") return data;
+  if (!data || typeof data !== "object") return "";
+
+  const prototype = Object.getPrototypeOf(data);
+  if (!Array.isArray(data) && prototype !== Object.prototype && prototype !== null) return "";
+
+  try {
+    return JSON.stringify(data);
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Clasifica cualquier error lanzado al llamar a un proveedor. Devuelve undefined
+ * si no se reconoce (errores propios del servidor, no de la API).
+ */
+export function classifyError(error: unknown): ProviderErrorCategory | undefined {
+  if (error instanceof ProviderError) return error.category;
+
+  if (axios.isAxiosError(error)) {
+    if (error.response) {
+      return categoryFromStatus(error.response.status, responseText(error.response.data));
+    }
+    return "transient";
+  }
+
+  const code = (error as { code?: unknown })?.code;
+  if (typeof code === "string" && TRANSIENT_ERROR_CODES.has(code)) {
+    return "transient";
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  // El SDK de Google Gen AI lanza "got status: 429 Too Many Requests. {...}"
+  const statusMatch = /got status: (\d{3})/.exec(message);
+  if (statusMatch) return categoryFromStatus(Number(statusMatch[1]), message);
+
+  // fetch (usado por el SDK) falla así cuando no hay conexión
+  if (message === "fetch failed") return "transient";
+  if (isContentPolicyMessage(message)) return "content-policy";
+
+  return undefined;
+}
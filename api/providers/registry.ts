@@ -0,0 +1,55 @@
+import type { VideoProvider } from "./types";
+import { veo3Provider } from "./veo3";
+import { soraProvider } from "./sora";
+import { simulationProvider } from "./simulation";
+import { sequenceProvider } from "./sequence";
+
+// Registro de proveedores de video, indexado por id
+const providers = new Map<string, VideoProvider>();
+
+// Función para registrar un proveedor (sustituye al existente con el mismo id)
+export function registerProvider(provider: VideoProvider): void {
+  providers.set(provider.id, provider);
+}
+
+// Función para obtener un proveedor por id
+export function getProvider(id: string): VideoProvider | null {
+  return providers.get(id) || null;
+}
+
+// Función para listar los proveedores registrados (sin los internos, salvo que se pidan)
+export function listProviders(includeInternal = false): VideoProvider[] {
+  return Array.from(providers.values()).filter(
+    (provider) => includeInternal || !provider.internal
+  );
+}
+
+/**
+ * Proveedores de respaldo para una petición, en orden. `requested` es la cadena
+ * enviada en la petición (lista de ids o "none"); si no se envía se usa la global
+ * PROVIDER_FALLBACK_CHAIN (p. ej. "veo3,sora"), de la que se toman los proveedores
+ * que van después del elegido.
+ */
+export function getFallbackChain(
+  providerId: string,
+  requested?: string[] | "none"
+): string[] {
+  if (requested === "none") return [];
+  if (requested) return requested.filter((id) => id !== providerId);
+
+  const chain = (process.env.PROVIDER_FALLBACK_CHAIN || "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+  const index = chain.indexOf(providerId);
+  if (index < 0) return [];
+
+  const rest = chain.slice(index + 1);
+  const none = rest.indexOf("none");
+  return none >= 0 ? rest.slice(0, none) : rest;
+}
+
+registerProvider(veo3Provider);
+registerProvider(soraProvider);
+registerProvider(simulationProvider);
+registerProvider(sequenceProvider);
@@ -0,0 +1,149 @@
+import fs from "fs";
+import path from "path";
+import { VIDEOS_DIR, ensureUploadDirs } from "../services/media";
+import { FFMPEG_TIMEOUT_MS } from "../services/mediaPipeline";
+import { renderSequence, type SequenceRenderPlan } from "../services/stitching";
+import type {
+  VideoProvider,
+  GenerationRequest,
+  ProviderOperation,
+  ProviderAsset,
+  PollResult,
+} from "./types";
+
+// Montaje en curso en este proceso
+interface SequenceRender {
+  progress: number;
+  done: boolean;
+  error: string | null;
+  controller: AbortController;
+}
+
+// Lo que se guarda en la operación; basta para relanzar el montaje tras un reinicio
+interface SequenceOperationData extends Record<string, unknown> {
+  plan: SequenceRenderPlan;
+  outputPath: string;
+}
+
+const POLL_INTERVAL_MS = 2000;
+
+// Montajes lanzados, por id de operación (solo viven en memoria)
+const renders = new Map<string, SequenceRender>();
+
+// Función para validar el plan de montaje que SequenceService envía en `metadata.sequence`
+function readPlan(request: GenerationRequest): SequenceRenderPlan {
+  const plan = request.metadata?.sequence as SequenceRenderPlan | undefined;
+  if (!plan || !Array.isArray(plan.clips) || plan.clips.length < 2) {
+    throw new Error("metadata.sequence debe incluir al menos dos clips");
+  }
+  return plan;
+}
+
+// Función para lanzar ffmpeg en segundo plano; poll() consulta su estado
+function launch(operationId: string, data: SequenceOperationData): void {
+  const render: SequenceRender = {
+    progress: 0,
+    done: false,
+    error: null,
+    controller: new AbortController(),
+  };
+  renders.set(operationId, render);
+
+  renderSequence(
+    data.plan,
+    data.outputPath,
+    (progress) => (render.progress = progress),
+    render.controller.signal
+  )
+    .then(() => {
+      render.done = true;
+    })
+    .catch((error) => {
+      render.error = error instanceof Error ? error.message : String(error);
+    });
+}
+
+/**
+ * Proveedor interno que monta secuencias de videos ya generados con ffmpeg en
+ * el propio servidor. Pasar por el runner da al montaje la misma cola, progreso,
+ * cancelación, thumbnails y HLS que cualquier otra generación.
+ */
+export const sequenceProvider: VideoProvider = {
+  id: "sequence",
+  name: "Montaje de secuencias",
+  capabilities: {
+    aspectRatios: ["16:9", "9:16", "1:1"],
+    resolutions: ["720"],
+    defaultDurationSeconds: 30,
+    maxDurationSeconds: 600,
+    maxVariants: 1,
+    imageToVideo: false,
+    advancedParameters: [],
+  },
+  pollIntervalMs: POLL_INTERVAL_MS,
+  // Un montaje largo puede llevar a ffmpeg hasta FFMPEG_TIMEOUT_MS: el margen de
+  // un minuto deja que sea ese límite (que borra la salida a medias) el que corte
+  maxPollAttempts: Math.ceil((FFMPEG_TIMEOUT_MS + 60000) / POLL_INTERVAL_MS),
+  // ffmpeg ocupa toda la CPU: los montajes se hacen de uno en uno
+  limits: { maxConcurrency: 1, requestsPerMinute: 0 },
+  internal: true,
+
+  isConfigured: () => true,
+
+  validateRequest(request: GenerationRequest): void {
+    readPlan(request);
+  },
+
+  async start(request: GenerationRequest): Promise<ProviderOperation> {
+    ensureUploadDirs();
+    // Sufijo aleatorio: dos montajes en el mismo milisegundo pisarían la misma salida
+    const id = `seq_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+    const data: SequenceOperationData = {
+      plan: readPlan(request),
+      outputPath: path.join(VIDEOS_DIR, `${id}.render.mp4`),
+    };
+
+    launch(id, data);
+    return { id, data };
+  },
+
+  async poll(operation: ProviderOperation): Promise<PollResult> {
+    let render = renders.get(operation.id);
+    // El proceso se reinició a mitad del montaje: se vuelve a empezar
+    if (!render) {
+      launch(operation.id, operation.data as SequenceOperationData);
+      render = renders.get(operation.id)!;
+    }
+
+    if (render.error) {
+      renders.delete(operation.id);
+      return { done: true, progress: render.progress, error: render.error };
+    }
+
+    if (!render.done) {
+      return { done: false, progress: render.progress };
+    }
+
+    return {
+      done: true,
+      progress: 100,
+      assets: [
+        {
+          uri: (operation.data as SequenceOperationData).outputPath,
+          name: operation.id,
+          mimeType: "video/mp4",
+        },
+      ],
+    };
+  },
+
+  async download(asset: ProviderAsset, destinationPath: string): Promise<void> {
+    await fs.promises.rename(asset.uri!, destinationPath);
+    renders.delete(asset.name!);
+  },
+
+  async cancel(operation: ProviderOperation): Promise<void> {
+    renders.get(operation.id)?.controller.abort();
+    renders.delete(operation.id);
+  },
+};
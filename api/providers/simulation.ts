@@ -0,0 +1,211 @@
+import fs from "fs";
+import {
+  buildSimulatedVideo,
+  SIMULATED_MIME_TYPES,
+  type SimulatedVideoFormat,
+} from "../services/simulatedMedia";
+import type {
+  VideoProvider,
+  GenerationRequest,
+  ProviderOperation,
+  ProviderAsset,
+  PollResult,
+  AspectRatio,
+} from "./types";
+import {
+  ProviderError,
+  PROVIDER_ERROR_CATEGORIES,
+  type ProviderErrorCategory,
+} from "./errors";
+
+/**
+ * Guion de la simulación, enviado en `metadata.simulation` de la petición:
+ * - delayMs: duración total de la "generación" (por defecto 5000)
+ * - failAtPercent: la operación falla al alcanzar ese porcentaje
+ * - failCategory: categoría del fallo anterior (auth, quota, content-policy...)
+ * - transientErrors: las primeras N consultas de estado lanzan un error transitorio
+ * - timeout: la operación nunca termina y el runner acaba dándola por perdida
+ * - format: "mp4" (por defecto) o "webm"
+ */
+export interface SimulationScript {
+  delayMs?: number;
+  failAtPercent?: number;
+  failCategory?: ProviderErrorCategory;
+  transientErrors?: number;
+  timeout?: boolean;
+  format?: SimulatedVideoFormat;
+}
+
+// Lo que se guarda en la operación; basta para retomarla tras un reinicio
+interface SimulationOperationData extends Record<string, unknown> {
+  startedAt: number;
+  delayMs: number;
+  failAtPercent: number | null;
+  failCategory: ProviderErrorCategory | null;
+  transientErrors: number;
+  timeout: boolean;
+  format: SimulatedVideoFormat;
+  aspectRatio: AspectRatio;
+  durationSeconds: number;
+  variants: number;
+}
+
+const DEFAULT_DELAY_MS = 5000;
+
+// Errores transitorios ya lanzados por operación (solo vive en memoria)
+const transientErrorsThrown = new Map<string, number>();
+
+// Función para validar el guion recibido en los metadatos de la petición
+export function parseSimulationScript(value: unknown): SimulationScript {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== "object") {
+    throw new Error("metadata.simulation debe ser un objeto");
+  }
+
+  const { delayMs, failAtPercent, failCategory, transientErrors, timeout, format } =
+    value as Record<string, unknown>;
+
+  if (delayMs !== undefined && (typeof delayMs !== "number" || delayMs < 0)) {
+    throw new Error("metadata.simulation.delayMs debe ser un número positivo");
+  }
+  if (
+    failAtPercent !== undefined &&
+    (typeof failAtPercent !== "number" || failAtPercent < 0 || failAtPercent > 100)
+  ) {
+    throw new Error("metadata.simulation.failAtPercent debe estar entre 0 y 100");
+  }
+  if (
+    failCategory !== undefined &&
+    !PROVIDER_ERROR_CATEGORIES.includes(failCategory as ProviderErrorCategory)
+  ) {
+    throw new Error(
+      `metadata.simulation.failCategory debe ser una de: ${PROVIDER_ERROR_CATEGORIES.join(", ")}`
+    );
+  }
+  if (
+    transientErrors !== undefined &&
+    (typeof transientErrors !== "number" || transientErrors < 0)
+  ) {
+    throw new Error("metadata.simulation.transientErrors debe ser un número positivo");
+  }
+  if (timeout !== undefined && typeof timeout !== "boolean") {
+    throw new Error("metadata.simulation.timeout debe ser booleano");
+  }
+  if (format !== undefined && format !== "mp4" && format !== "webm") {
+    throw new Error('metadata.simulation.format debe ser "mp4" o "webm"');
+  }
+
+  return {
+    delayMs,
+    failAtPercent,
+    failCategory,
+    transientErrors,
+    timeout,
+    format,
+  } as SimulationScript;
+}
+
+// Proveedor local y determinista: no llama a ninguna API ni necesita ffmpeg
+export const simulationProvider: VideoProvider = {
+  id: "simulation",
+  name: "Simulación local",
+  capabilities: {
+    aspectRatios: ["16:9", "9:16", "1:1"],
+    resolutions: ["720"],
+    defaultDurationSeconds: 5,
+    maxDurationSeconds: 60,
+    maxVariants: 4,
+    // Acepta la imagen para poder probar el flujo, aunque no la use
+    imageToVideo: true,
+    advancedParameters: ["negativePrompt", "seed", "enhancePrompt", "generateAudio"],
+  },
+  pollIntervalMs: 500,
+  limits: { maxConcurrency: 4, requestsPerMinute: 0 },
+  simulated: true,
+
+  isConfigured: () => true,
+
+  validateRequest(request: GenerationRequest): void {
+    parseSimulationScript(request.metadata?.simulation);
+  },
+
+  async start(request: GenerationRequest): Promise<ProviderOperation> {
+    const script = parseSimulationScript(request.metadata?.simulation);
+    const data: SimulationOperationData = {
+      startedAt: Date.now(),
+      delayMs: script.delayMs ?? DEFAULT_DELAY_MS,
+      failAtPercent: script.failAtPercent ?? null,
+      failCategory: script.failCategory ?? null,
+      transientErrors: script.transientErrors ?? 0,
+      timeout: script.timeout ?? false,
+      format: script.format ?? "mp4",
+      aspectRatio: request.aspectRatio,
+      durationSeconds: request.durationSeconds,
+      variants: request.variants || 1,
+    };
+
+    // Sufijo aleatorio: dos inicios en el mismo milisegundo no comparten operación
+    const suffix = Math.random().toString(36).substring(2, 11);
+    return { id: `sim_${data.startedAt}_${suffix}`, data };
+  },
+
+  async poll(operation: ProviderOperation): Promise<PollResult> {
+    const data = operation.data as SimulationOperationData;
+
+    const thrown = transientErrorsThrown.get(operation.id) || 0;
+    if (thrown < (data.transientErrors || 0)) {
+      transientErrorsThrown.set(operation.id, thrown + 1);
+      throw new ProviderError(
+        `Error transitorio simulado (${thrown + 1}/${data.transientErrors})`,
+        "transient"
+      );
+    }
+
+    const elapsed = Date.now() - data.startedAt;
+    const progress =
+      data.delayMs > 0 ? Math.min(100, Math.floor((elapsed / data.delayMs) * 100)) : 100;
+
+    // La operación termina en esta consulta: ya no hace falta el contador
+    const failed = data.failAtPercent !== null && progress >= data.failAtPercent;
+    if (failed || (progress >= 100 && !data.timeout)) {
+      transientErrorsThrown.delete(operation.id);
+    }
+
+    if (failed) {
+      return {
+        done: true,
+        progress: data.failAtPercent,
+        error: `Fallo simulado al ${data.failAtPercent}%`,
+        errorCategory: data.failCategory ?? undefined,
+      };
+    }
+
+    if (data.timeout) {
+      return { done: false, progress: Math.min(progress, 99) };
+    }
+
+    if (progress < 100) {
+      return { done: false, progress };
+    }
+
+    return {
+      done: true,
+      progress: 100,
+      // Todas las variantes son el mismo video; el nombre basta para construirlo en download()
+      assets: Array.from({ length: data.variants || 1 }, () => ({
+        name: `${data.format}/${data.aspectRatio}/${data.durationSeconds}`,
+        mimeType: SIMULATED_MIME_TYPES[data.format],
+      })),
+    };
+  },
+
+  async download(asset: ProviderAsset, destinationPath: string): Promise<void> {
+    const [format, aspectRatio, durationSeconds] = (asset.name || "").split("/");
+    const video = buildSimulatedVideo(
+      format as SimulatedVideoFormat,
+      aspectRatio as AspectRatio,
+      Number(durationSeconds)
+    );
+    await fs.promises.writeFile(destinationPath, video);
+  },
+};
@@ -0,0 +1,186 @@
+import axios from "axios";
+import { downloadFile } from "../services/media";
+import { ProviderError, isContentPolicyMessage, type ProviderErrorCategory } from "./errors";
+import type {
+  VideoProvider,
+  GenerationRequest,
+  ProviderOperation,
+  ProviderAsset,
+  PollResult,
+} from "./types";
+
+// Interfaces para Sora
+interface SoraVideoRequest {
+  prompt: string;
+  height?: string;
+  width?: string;
+  n_seconds?: string;
+  n_variants?: string;
+}
+
+interface SoraApiResponse {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  data?: {
+    url: string;
+    revised_prompt?: string;
+  }[];
+  error?: {
+    message: string;
+    type: string;
+    code: string;
+  };
+}
+
+// Configuración de Azure OpenAI
+const AZURE_API_KEY = process.env.AZURE_API_KEY;
+const SORA_TARGET_URI = process.env.SORA_TARGET_URI;
+
+if (!AZURE_API_KEY) {
+  console.warn("AZURE_API_KEY no está configurada");
+}
+
+if (!SORA_TARGET_URI) {
+  console.warn("SORA_TARGET_URI no está configurada");
+}
+
+// Códigos de error de Azure OpenAI en los trabajos terminados
+function categoryFromSoraError(
+  error: NonNullable<SoraApiResponse["error"]>
+): ProviderErrorCategory | undefined {
+  const code = (error.code || "").toLowerCase();
+  if (isContentPolicyMessage(`${code} ${error.message}`)) return "content-policy";
+  if (code.includes("quota") || code.includes("rate_limit")) return "quota";
+  if (code.includes("auth") || code.includes("permission")) return "auth";
+  if (code.includes("server_error") || code.includes("internal")) return "transient";
+  if (code.includes("invalid")) return "invalid-request";
+  return undefined;
+}
+
+// Función para mapear resolución y aspect ratio a dimensiones
+function mapDimensions(
+  resolution: string,
+  aspectRatio: string
+): { width: string; height: string } {
+  const resolutionMap: { [key: string]: [number, number] } = {
+    "480": [854, 480],
+    "720": [1280, 720],
+    "1080": [1920, 1080],
+  };
+  const [long, short] = resolutionMap[resolution] || resolutionMap["720"];
+
+  if (aspectRatio === "9:16") {
+    return { width: String(short), height: String(long) };
+  }
+  if (aspectRatio === "1:1") {
+    return { width: String(short), height: String(short) };
+  }
+  return { width: String(long), height: String(short) };
+}
+
+function requireConfig(): { apiKey: string; targetUri: string } {
+  if (!AZURE_API_KEY || !SORA_TARGET_URI) {
+    throw new ProviderError("Azure API Key o Sora Target URI no configurados", "auth");
+  }
+  return { apiKey: AZURE_API_KEY, targetUri: SORA_TARGET_URI };
+}
+
+// Adaptador de OpenAI Sora sobre Azure OpenAI
+export const soraProvider: VideoProvider = {
+  id: "sora",
+  name: "OpenAI Sora",
+  capabilities: {
+    aspectRatios: ["16:9", "9:16", "1:1"],
+    resolutions: ["480", "720", "1080"],
+    defaultDurationSeconds: 5,
+    maxDurationSeconds: 20,
+    maxVariants: 2,
+    imageToVideo: false,
+    advancedParameters: [],
+  },
+  pollIntervalMs: 5000,
+  limits: { maxConcurrency: 2, requestsPerMinute: 30 },
+  // Precios de referencia; ajústalos a la tarifa del recurso de Azure con SORA_COST_PER_SECOND
+  pricing: { perSecondByResolution: { "480": 0.1, "720": 0.2, "1080": 0.4 } },
+
+  isConfigured: () => !!AZURE_API_KEY && !!SORA_TARGET_URI,
+
+  // Función para llamar a la API de Sora
+  async start(request: GenerationRequest): Promise<ProviderOperation> {
+    const { apiKey, targetUri } = requireConfig();
+    const { width, height } = mapDimensions(
+      request.resolution || "720",
+      request.aspectRatio
+    );
+
+    const soraRequest: SoraVideoRequest = {
+      prompt: request.prompt,
+      height,
+      width,
+      n_seconds: request.durationSeconds.toString(),
+      n_variants: String(request.variants || 1),
+    };
+
+    const response = await axios.post<SoraApiResponse>(
+      targetUri,
+      { model: "sora", ...soraRequest },
+      {
+        headers: {
+          "Content-Type": "application/json",
+          "Api-key": apiKey,
+        },
+        timeout: 30000, // 30 segundos timeout
+      }
+    );
+
+    return { id: response.data.id };
+  },
+
+  // Función para consultar el estado de la operación
+  async poll(operation: ProviderOperation): Promise<PollResult> {
+    const { apiKey, targetUri } = requireConfig();
+
+    // Construir URL de estado (asumiendo que sigue el patrón estándar)
+    const response = await axios.get<SoraApiResponse>(
+      `${targetUri}/${operation.id}`,
+      { headers: { "Api-key": apiKey } }
+    );
+    const result = response.data;
+
+    if (result.error) {
+      return {
+        done: true,
+        error: result.error.message,
+        errorCategory: categoryFromSoraError(result.error),
+      };
+    }
+
+    if (result.data) {
+      return {
+        done: true,
+        assets: result.data.map((item) => ({ uri: item.url })),
+      };
+    }
+
+    return { done: false };
+  },
+
+  // Función para descargar y guardar el video
+  async download(asset: ProviderAsset, destinationPath: string): Promise<void> {
+    if (!asset.uri) {
+      throw new Error("No se pudo obtener la URL del video generado");
+    }
+    await downloadFile(asset.uri, destinationPath);
+  },
+
+  // Función para cancelar el trabajo en Azure (borrarlo detiene la generación)
+  async cancel(operation: ProviderOperation): Promise<void> {
+    const { apiKey, targetUri } = requireConfig();
+
+    await axios.delete(`${targetUri}/${operation.id}`, {
+      headers: { "Api-key": apiKey },
+    });
+  },
+};
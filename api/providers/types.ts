@@ -0,0 +1,118 @@
+import type { ProviderErrorCategory } from "./errors";
+
+export type AspectRatio = "16:9" | "9:16" | "1:1";
+
+// Imagen de referencia subida con POST /api/videos/reference-images
+export interface ReferenceImage {
+  // URL pública bajo /uploads/images
+  url: string;
+  mimeType: string;
+}
+
+// Parámetros avanzados opcionales; cada proveedor declara cuáles admite
+export const ADVANCED_PARAMETERS = [
+  "negativePrompt",
+  "seed",
+  "enhancePrompt",
+  "generateAudio",
+] as const;
+export type AdvancedParameter = (typeof ADVANCED_PARAMETERS)[number];
+
+// Solicitud de generación normalizada, común a todos los proveedores
+export interface GenerationRequest {
+  prompt: string;
+  durationSeconds: number;
+  aspectRatio: AspectRatio;
+  resolution?: string;
+  style?: string;
+  // Número de variantes a generar (1 por defecto, hasta capabilities.maxVariants)
+  variants?: number;
+  // Imagen de partida (image-to-video); solo si capabilities.imageToVideo
+  image?: ReferenceImage;
+  // Lo que no debe aparecer en el video
+  negativePrompt?: string;
+  // Semilla para repetir un resultado con el mismo proveedor y parámetros
+  seed?: number;
+  // Dejar que el proveedor reescriba el prompt
+  enhancePrompt?: boolean;
+  generateAudio?: boolean;
+  // Metadatos libres de la petición (p. ej. el guion del proveedor de simulación)
+  metadata?: Record<string, unknown>;
+}
+
+// Qué admite cada proveedor; las rutas lo usan para validar y el Editor para pintar opciones
+export interface ProviderCapabilities {
+  aspectRatios: AspectRatio[];
+  resolutions: string[];
+  defaultDurationSeconds: number;
+  maxDurationSeconds: number;
+  maxVariants: number;
+  // Admite una imagen de referencia como primer fotograma
+  imageToVideo: boolean;
+  // Parámetros avanzados que se envían a la API; el resto se rechaza
+  advancedParameters: AdvancedParameter[];
+}
+
+// Límites de uso de la API del proveedor (0 = sin límite); se pueden sobrescribir
+// con <ID>_MAX_CONCURRENCY y <ID>_REQUESTS_PER_MINUTE (ver services/scheduler.ts)
+export interface ProviderLimits {
+  // Trabajos procesándose a la vez; el resto espera en cola
+  maxConcurrency: number;
+  // Peticiones a la API (inicio, consultas de estado y descarga) por minuto
+  requestsPerMinute: number;
+}
+
+// Precio en USD por segundo de video generado, según la resolución; se puede
+// sobrescribir con <ID>_COST_PER_SECOND (ver services/costs.ts)
+export interface ProviderPricing {
+  perSecondByResolution: Record<string, number>;
+}
+
+// Identificador de la operación remota; se guarda en el job para poder consultarla
+export interface ProviderOperation {
+  id: string;
+  data?: Record<string, unknown>;
+}
+
+// Referencia a un video generado, opaca para el runner: solo se pasa a download()
+export interface ProviderAsset {
+  uri?: string;
+  name?: string;
+  bytesBase64?: string;
+  mimeType?: string;
+}
+
+export interface PollResult {
+  done: boolean;
+  progress?: number;
+  assets?: ProviderAsset[];
+  error?: string;
+  // Categoría del error de la operación, si el proveedor la conoce (ver errors.ts)
+  errorCategory?: ProviderErrorCategory;
+}
+
+export interface VideoProvider {
+  readonly id: string;
+  readonly name: string;
+  readonly capabilities: ProviderCapabilities;
+  // Intervalo entre consultas de estado, en milisegundos
+  readonly pollIntervalMs: number;
+  // Consultas antes de dar la operación por perdida (por defecto 120)
+  readonly maxPollAttempts?: number;
+  readonly limits?: ProviderLimits;
+  // Sin precio se considera gratuito
+  readonly pricing?: ProviderPricing;
+  // Los videos de este proveedor no son reales (se marcan como simulados)
+  readonly simulated?: boolean;
+  // Solo lo usa el propio servidor (p. ej. el montaje de secuencias): no se ofrece
+  // en /providers ni se admite en las peticiones de generación
+  readonly internal?: boolean;
+  isConfigured(): boolean;
+  // Opcional: valida la petición antes de crear el trabajo; lanza un Error con el motivo
+  validateRequest?(request: GenerationRequest): void;
+  start(request: GenerationRequest): Promise<ProviderOperation>;
+  poll(operation: ProviderOperation): Promise<PollResult>;
+  download(asset: ProviderAsset, destinationPath: string): Promise<void>;
+  // Opcional: solo los proveedores cuya API permite cancelar una operación en curso
+  cancel?(operation: ProviderOperation): Promise<void>;
+}
@@ -0,0 +1,212 @@
+import fs from "fs";
+import { GoogleGenAI } from "@google/genai";
+import { downloadFile, fromPublicUrl } from "../services/media";
+import { ProviderError, isContentPolicyMessage, type ProviderErrorCategory } from "./errors";
+import type {
+  VideoProvider,
+  GenerationRequest,
+  ProviderOperation,
+  ProviderAsset,
+  PollResult,
+  ReferenceImage,
+} from "./types";
+
+// Usar dotenv para cargar los environment variables
+import dotenv from "dotenv";
+dotenv.config();
+const GOOGLE_API_KEY = process.env.GOOGLE_API_KEY;
+
+// Configuración de la API de Google Gemini para Veo 3
+const VEO_MODEL = "veo-3.0-generate-preview"; // Modelo Veo 3 según ejemplo proporcionado
+
+// Códigos gRPC con los que terminan las operaciones de larga duración
+const OPERATION_ERROR_CATEGORIES: Record<number, ProviderErrorCategory> = {
+  3: "invalid-request", // INVALID_ARGUMENT
+  4: "transient", // DEADLINE_EXCEEDED
+  7: "auth", // PERMISSION_DENIED
+  8: "quota", // RESOURCE_EXHAUSTED
+  9: "invalid-request", // FAILED_PRECONDITION
+  13: "transient", // INTERNAL
+  14: "transient", // UNAVAILABLE
+  16: "auth", // UNAUTHENTICATED
+};
+
+let genAI: GoogleGenAI | null = null;
+
+function getGenAI(): GoogleGenAI | null {
+  if (!GOOGLE_API_KEY) return null;
+  if (!genAI) {
+    try {
+      genAI = new GoogleGenAI({
+        apiKey: GOOGLE_API_KEY,
+      });
+    } catch (e) {
+      console.error("Error inicializando Google Gen AI:", e);
+      return null;
+    }
+  }
+  return genAI;
+}
+
+function requireGenAI(): GoogleGenAI {
+  const client = getGenAI();
+  if (!client) {
+    throw new ProviderError("Google Gen AI no configurada", "auth");
+  }
+  return client;
+}
+
+// Función para enviar la imagen de referencia como bytes en base64
+function readImage(image: ReferenceImage): { imageBytes: string; mimeType: string } {
+  const imagePath = fromPublicUrl(image.url);
+  if (!imagePath || !fs.existsSync(imagePath)) {
+    throw new ProviderError("La imagen de referencia ya no existe", "invalid-request");
+  }
+  return {
+    imageBytes: fs.readFileSync(imagePath).toString("base64"),
+    mimeType: image.mimeType,
+  };
+}
+
+// Adaptador de Google Veo 3 sobre el SDK de Google Gen AI
+export const veo3Provider: VideoProvider = {
+  id: "veo3",
+  name: "Google Veo 3",
+  capabilities: {
+    aspectRatios: ["16:9", "9:16"],
+    // La API de Gemini no acepta resolution, seed ni enhancePrompt (el SDK los rechaza)
+    resolutions: ["720"],
+    defaultDurationSeconds: 8,
+    maxDurationSeconds: 8,
+    maxVariants: 4,
+    imageToVideo: true,
+    advancedParameters: ["negativePrompt"],
+  },
+  pollIntervalMs: 10000,
+  limits: { maxConcurrency: 2, requestsPerMinute: 10 },
+  pricing: { perSecondByResolution: { "720": 0.75 } },
+
+  isConfigured: () => !!process.env.GOOGLE_API_KEY,
+
+  // Función para iniciar la generación de video con Google Gen AI SDK
+  async start(request: GenerationRequest): Promise<ProviderOperation> {
+    const operation = await requireGenAI().models.generateVideos({
+      model: VEO_MODEL,
+      prompt: request.prompt,
+      ...(request.image && { image: readImage(request.image) }),
+      config: {
+        numberOfVideos: request.variants || 1,
+        aspectRatio: request.aspectRatio,
+        ...(request.negativePrompt && { negativePrompt: request.negativePrompt }),
+        // durationSeconds no está soportado por el modelo en preview
+        // Nota: generateAudio no está disponible en la configuración actual
+      },
+    });
+
+    if (!operation.name) {
+      throw new Error("Google Gen AI no devolvió el nombre de la operación");
+    }
+
+    return { id: operation.name };
+  },
+
+  // Función para consultar el estado de la operación
+  async poll(operation: ProviderOperation): Promise<PollResult> {
+    const result = await requireGenAI().operations.get({
+      operation: { name: operation.id },
+    });
+
+    if (!result.done) {
+      return { done: false };
+    }
+
+    if (result.error) {
+      const message = String((result.error as any).message || "Error de Veo 3");
+      return {
+        done: true,
+        error: message,
+        errorCategory: isContentPolicyMessage(message)
+          ? "content-policy"
+          : OPERATION_ERROR_CATEGORIES[Number((result.error as any).code)],
+      };
+    }
+
+    const response: any = result.response || result.result;
+    const generatedVideos: any[] = response?.generatedVideos || [];
+
+    // Los videos bloqueados por los filtros de seguridad no se devuelven
+    if (generatedVideos.length === 0 && response?.raiMediaFilteredCount) {
+      return {
+        done: true,
+        error: `Video bloqueado por los filtros de seguridad: ${(
+          response.raiMediaFilteredReasons || []
+        ).join("; ")}`,
+        errorCategory: "content-policy",
+      };
+    }
+
+    return {
+      done: true,
+      assets: generatedVideos
+        .map((generated) => generated?.video)
+        .filter(Boolean)
+        .map((video) => ({
+          uri: video.uri,
+          name: video.name,
+          bytesBase64: video.videoBytes,
+          mimeType: video.mimeType,
+        })),
+    };
+  },
+
+  // Función para descargar y guardar el video
+  async download(asset: ProviderAsset, destinationPath: string): Promise<void> {
+    if (asset.bytesBase64) {
+      fs.writeFileSync(destinationPath, Buffer.from(asset.bytesBase64, "base64"));
+      return;
+    }
+
+    let uri = asset.uri;
+    if (!uri && asset.name) {
+      // Si tenemos el nombre del archivo, intentar obtener la URI
+      const file = await requireGenAI().files.get({ name: asset.name });
+      uri = file?.uri;
+    }
+
+    if (!uri) {
+      throw new Error("Información de video insuficiente para descargar");
+    }
+
+    await downloadFile(uri, destinationPath, {
+      "x-goog-api-key": GOOGLE_API_KEY || "",
+    });
+  },
+};
+
+// Función para verificar si Google AI está configurado
+export function isGoogleAIConfigured(): boolean {
+  return !!process.env.GOOGLE_API_KEY && !!process.env.GOOGLE_CLOUD_PROJECT_ID;
+}
+
+// Función para verificar la configuración de Google AI
+export async function testGoogleAIConnection(): Promise<boolean> {
+  try {
+    const genAI = getGenAI();
+    if (!genAI) {
+      return false;
+    }
+
+    // Intentar verificar si el modelo Veo está disponible
+    try {
+      const model = await genAI.models.get({
+        model: VEO_MODEL,
+      });
+      return !!model;
+    } catch (error) {
+      return false;
+    }
+  } catch (error) {
+    console.error("Error testing Google AI connection:", error);
+    return false;
+  }
+}
@@ -0,0 +1,117 @@
+import express from "express";
+import { MAX_BATCH_ROWS, parseBatchCsv, type BatchService } from "../services/batches";
+import { getUserId } from "./videos";
+
+export function createBatchRoutes(batches: BatchService): express.Router {
+  const router = express.Router();
+
+  // El CSV se envía tal cual en el cuerpo con Content-Type: text/csv
+  router.use(express.text({ type: "text/csv", limit: "1mb" }));
+
+  // GET /api/videos/batch - Listar lotes con su resumen de progreso
+  router.get("/", async (req, res) => {
+    try {
+      const list = await batches.list();
+      res.json({ batches: list, total: list.length });
+    } catch (error) {
+      console.error("Error obteniendo lotes:", error);
+      res.status(500).json({ error: "Error interno del servidor" });
+    }
+  });
+
+  /**
+   * POST /api/videos/batch - Crear un lote a partir de:
+   * - JSON: una lista de filas o { name, rows } (cada fila admite los campos de /generate)
+   * - CSV (text/csv): cabecera con prompt, style, duration, aspectRatio, provider, resolution, variants
+   *   y los parámetros avanzados (negativePrompt, seed, enhancePrompt, generateAudio);
+   *   el nombre del lote va en ?name=
+   */
+  router.post("/", async (req, res) => {
+    try {
+      let rows: unknown;
+      let name: unknown = req.query.name;
+
+      if (req.is("text/csv")) {
+        try {
+          rows = parseBatchCsv(typeof req.body === "string" ? req.body : "");
+        } catch (csvError) {
+          return res.status(400).json({
+            error: csvError instanceof Error ? csvError.message : "CSV no válido",
+          });
+        }
+      } else if (Array.isArray(req.body)) {
+        rows = req.body;
+      } else {
+        rows = req.body?.rows;
+        name = req.body?.name ?? name;
+      }
+
+      if (!Array.isArray(rows) || rows.length === 0) {
+        return res.status(400).json({ error: "El lote debe tener al menos una fila" });
+      }
+
+      if (rows.length > MAX_BATCH_ROWS) {
+        return res.status(400).json({
+          error: `El lote no puede tener más de ${MAX_BATCH_ROWS} filas`,
+        });
+      }
+
+      if (!rows.every((row) => row && typeof row === "object" && !Array.isArray(row))) {
+        return res.status(400).json({ error: "Cada fila debe ser un objeto" });
+      }
+
+      const batchName =
+        typeof name === "string" && name.trim()
+          ? name.trim()
+          : `Lote del ${new Date().toLocaleString("es-ES")}`;
+
+      const batchId = await batches.create(batchName, rows, getUserId(req));
+      res.status(201).json(await batches.getStatus(batchId));
+    } catch (error) {
+      console.error("Error creando lote de videos:", error);
+      res.status(500).json({ error: "Error interno del servidor" });
+    }
+  });
+
+  // GET /api/videos/batch/:id - Progreso del lote y estado de cada fila
+  router.get("/:id", async (req, res) => {
+    try {
+      const batchId = parseInt(req.params.id);
+      if (isNaN(batchId)) {
+        return res.status(400).json({ error: "ID de lote inválido" });
+      }
+
+      const status = await batches.getStatus(batchId);
+      if (!status) {
+        return res.status(404).json({ error: "Lote no encontrado" });
+      }
+
+      res.json(status);
+    } catch (error) {
+      console.error("Error obteniendo lote:", error);
+      res.status(500).json({ error: "Error interno del servidor" });
+    }
+  });
+
+  // POST /api/videos/batch/:id/retry - Relanzar las filas fallidas o canceladas
+  router.post("/:id/retry", async (req, res) => {
+    try {
+      const batchId = parseInt(req.params.id);
+      if (isNaN(batchId)) {
+        return res.status(400).json({ error: "ID de lote inválido" });
+      }
+
+      const retried = await batches.retryFailed(batchId, getUserId(req));
+      if (retried === null) {
+        return res.status(404).json({ error: "Lote no encontrado" });
+      }
+
+      res.json({ retried, batch: await batches.getStatus(batchId) });
+    } catch (error) {
+      console.error("Error reintentando lote:", error);
+      res.status(500).json({ error: "Error interno del servidor" });
+    }
+  });
+
+  return router;
+}
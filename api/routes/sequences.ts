@@ -0,0 +1,116 @@
+import express from "express";
+import {
+  parseSequenceInput,
+  SequenceInputError,
+  type SequenceInput,
+  type SequenceService,
+} from "../services/sequences";
+import { getUserId } from "./videos";
+
+export function createSequenceRoutes(sequences: SequenceService): express.Router {
+  const router = express.Router();
+
+  // GET /api/videos/sequences - Listar secuencias con el estado de su último montaje
+  router.get("/", async (req, res) => {
+    try {
+      const list = await sequences.list();
+      res.json({ sequences: list, total: list.length });
+    } catch (error) {
+      console.error("Error obteniendo secuencias:", error);
+      res.status(500).json({ error: "Error interno del servidor" });
+    }
+  });
+
+  /**
+   * POST /api/videos/sequences - Crear una secuencia:
+   * { name, aspectRatio, items: [{ videoId, crossfadeSeconds }] }, con los clips en
+   * orden; crossfadeSeconds es el fundido con el clip anterior (0 = corte directo)
+   */
+  router.post("/", async (req, res) => {
+    try {
+      const input = parseSequenceInput(req.body || {}) as SequenceInput;
+      const sequenceId = await sequences.create(input);
+      res.status(201).json(await sequences.get(sequenceId));
+    } catch (error) {
+      if (error instanceof SequenceInputError) {
+        return res.status(400).json({ error: error.message, ...error.details });
+      }
+      console.error("Error creando secuencia:", error);
+      res.status(500).json({ error: "Error interno del servidor" });
+    }
+  });
+
+  // GET /api/videos/sequences/:id - Secuencia y estado de su último montaje
+  router.get("/:id", async (req, res) => {
+    try {
+      const sequenceId = parseInt(req.params.id);
+      if (isNaN(sequenceId)) {
+        return res.status(400).json({ error: "ID de secuencia inválido" });
+      }
+
+      const sequence = await sequences.get(sequenceId);
+      if (!sequence) {
+        return res.status(404).json({ error: "Secuencia no encontrada" });
+      }
+
+      res.json(sequence);
+    } catch (error) {
+      console.error("Error obteniendo secuencia:", error);
+      res.status(500).json({ error: "Error interno del servidor" });
+    }
+  });
+
+  // PUT /api/videos/sequences/:id - Cambiar nombre, formato u orden de los clips
+  router.put("/:id", async (req, res) => {
+    try {
+      const sequenceId = parseInt(req.params.id);
+      if (isNaN(sequenceId)) {
+        return res.status(400).json({ error: "ID de secuencia inválido" });
+      }
+
+      const sequence = await sequences.update(
+        sequenceId,
+        parseSequenceInput(req.body || {}, true)
+      );
+      if (!sequence) {
+        return res.status(404).json({ error: "Secuencia no encontrada" });
+      }
+
+      res.json(sequence);
+    } catch (error) {
+      if (error instanceof SequenceInputError) {
+        return res.status(400).json({ error: error.message, ...error.details });
+      }
+      console.error("Error actualizando secuencia:", error);
+      res.status(500).json({ error: "Error interno del servidor" });
+    }
+  });
+
+  /**
+   * POST /api/videos/sequences/:id/render - Montar la secuencia en un video nuevo.
+   * El progreso se sigue como el de cualquier trabajo (/api/videos/status/:jobId)
+   */
+  router.post("/:id/render", async (req, res) => {
+    try {
+      const sequenceId = parseInt(req.params.id);
+      if (isNaN(sequenceId)) {
+        return res.status(400).json({ error: "ID de secuencia inválido" });
+      }
+
+      const sequence = await sequences.render(sequenceId, getUserId(req));
+      if (!sequence) {
+        return res.status(404).json({ error: "Secuencia no encontrada" });
+      }
+
+      res.status(201).json(sequence);
+    } catch (error) {
+      if (error instanceof SequenceInputError) {
+        return res.status(400).json({ error: error.message, ...error.details });
+      }
+      console.error("Error montando secuencia:", error);
+      res.status(500).json({ error: "Error interno del servidor" });
+    }
+  });
+
+  return router;
+}
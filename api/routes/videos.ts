@@ -1,307 +1,988 @@
+import fs from "fs";
 import express from "express";
+import multer from "multer";
+import { getProvider, listProviders } from "../providers/registry";
+import { isGoogleAIConfigured } from "../providers/veo3";
 import {
-  generateVideo,
-  getVideoJobStatus,
-  getAllVideoJobs,
-  isGoogleAIConfigured,
-} from "../services/veo3";
+  BudgetExceededError,
+  checkBudget,
+  getBudgetStatus,
+  getPricePerSecond,
+} from "../services/costs";
+import { remainingTime } from "../services/eta";
+import { GenerationInputError, prepareGeneration } from "../services/generationInput";
+import { findCachedVideo, isForced } from "../services/resultCache";
 import {
-  generateVideoWithSora,
-  getVideoJobStatus as getSoraJobStatus,
-  getAllVideoJobs as getAllSoraJobs,
-} from "../services/sora.js";
-import { DatabaseService } from "../database.js";
+  MAX_REFERENCE_IMAGE_MB,
+  REFERENCE_IMAGE_TYPES,
+  ReferenceImageError,
+  hasImageSignature,
+  referenceImageUpload,
+  toReferenceImage,
+} from "../services/referenceImages";
+import {
+  AudioMixError,
+  MAX_NARRATION_MB,
+  NARRATION_TYPES,
+  createAudioMix,
+  getAudioMixes,
+  listMusicTracks,
+  narrationUpload,
+  parseAudioMixSettings,
+  probeAudio,
+} from "../services/audioMixing";
+import {
+  CaptionInputError,
+  deleteCaptions,
+  generateCaptions,
+  getCaptionDuration,
+  getCaptionTracks,
+  normalizeCues,
+  parseLanguage,
+  readCaptionText,
+  saveCaptions,
+  timeCaptionText,
+} from "../services/captions";
+import { toPublicUrl } from "../services/media";
+import type { VideoMedia } from "../services/mediaPipeline";
+import type { VideoRendition } from "../services/transcoding";
+import {
+  isFinished,
+  type VideoJob,
+  type VideoJobRunner,
+  type VideoJobUpdate,
+} from "../services/videoJobs";
+import type { StorageAdapter, Video as StoredVideo, VideoVariant } from "../database.js";
+
+export function createVideoRoutes(
+  storage: StorageAdapter,
+  jobs: VideoJobRunner
+): express.Router {
+  const router = express.Router();
+
+  // GET /api/videos/providers - Listar proveedores disponibles y sus capacidades
+  router.get("/providers", (req, res) => {
+    res.json({
+      providers: listProviders().map((provider) => ({
+        id: provider.id,
+        name: provider.name,
+        configured: provider.isConfigured(),
+        capabilities: provider.capabilities,
+        limits: jobs.getLimits(provider),
+        // USD por segundo de video según la resolución
+        pricing: Object.fromEntries(
+          provider.capabilities.resolutions.map((resolution) => [
+            resolution,
+            getPricePerSecond(provider, resolution),
+          ])
+        ),
+      })),
+    });
+  });
+
+  /**
+   * POST /api/videos/reference-images - Subir una imagen de referencia (multipart,
+   * campo "image"). La URL devuelta se envía como referenceImage a /generate.
+   */
+  router.post("/reference-images", (req, res) => {
+    referenceImageUpload(req, res, (uploadError: unknown) => {
+      if (uploadError instanceof multer.MulterError && uploadError.code === "LIMIT_FILE_SIZE") {
+        return res.status(413).json({
+          error: `La imagen no puede superar ${MAX_REFERENCE_IMAGE_MB} MB`,
+        });
+      }
+      if (uploadError instanceof ReferenceImageError || uploadError instanceof multer.MulterError) {
+        return res.status(400).json({
+          error: uploadError.message,
+          supportedTypes: REFERENCE_IMAGE_TYPES,
+        });
+      }
+      if (uploadError) {
+        console.error("Error subiendo imagen de referencia:", uploadError);
+        return res.status(500).json({ error: "Error interno del servidor" });
+      }
 
-const router = express.Router();
+      if (!req.file) {
+        return res.status(400).json({ error: 'Falta la imagen en el campo "image"' });
+      }
 
-// POST /api/videos/generate - Iniciar generación de video
-router.post("/generate", async (req, res) => {
-  try {
-    const { prompt, promptId, duration, aspectRatio, style } = req.body;
+      if (!hasImageSignature(req.file)) {
+        fs.unlinkSync(req.file.path);
+        return res.status(400).json({
+          error: "El contenido del archivo no corresponde a una imagen válida",
+          supportedTypes: REFERENCE_IMAGE_TYPES,
+        });
+      }
 
-    if (!prompt) {
-      return res.status(400).json({ error: "El prompt es requerido" });
+      console.log(`🖼️ Imagen de referencia guardada: ${req.file.filename}`);
+      res.status(201).json({ ...toReferenceImage(req.file), size: req.file.size });
+    });
+  });
+
+  // GET /api/videos/audio-tracks - Biblioteca de música libre de derechos (uploads/audio/music)
+  router.get("/audio-tracks", async (req, res) => {
+    try {
+      const tracks = await listMusicTracks();
+      res.json({ tracks, total: tracks.length });
+    } catch (error) {
+      console.error("Error obteniendo la biblioteca de música:", error);
+      res.status(500).json({ error: "Error interno del servidor" });
+    }
+  });
+
+  // GET /api/videos/budget - Gasto del mes frente a los presupuestos configurados
+  router.get("/budget", async (req, res) => {
+    try {
+      res.json(await getBudgetStatus(storage, getUserId(req)));
+    } catch (error) {
+      console.error("Error obteniendo presupuesto:", error);
+      res.status(500).json({ error: "Error interno del servidor" });
     }
+  });
+
+  // POST /api/videos/generate - Iniciar generación de video con el proveedor indicado
+  router.post("/generate", async (req, res) => {
+    try {
+      const generation = prepareGeneration(req.body);
+      const { provider, request } = generation;
+
+      // Si ya hay un video idéntico se devuelve sin generar (force=true lo evita)
+      const force = isForced(req.body?.force) || isForced(req.query.force);
+      const cached = force ? null : await findCachedVideo(storage, generation.contentHash);
+      if (cached) {
+        console.log(`♻️ Petición idéntica al video ${cached.id}; se reutiliza su resultado`);
+        return res.json({
+          id: cached.id,
+          jobId: cached.veo_job_id,
+          status: cached.status,
+          estimatedTime: 0,
+          estimatedTimeRange: { min: 0, max: 0 },
+          prompt: request.prompt,
+          duration: getDuration(cached),
+          videoUrl: cached.video_url,
+          thumbnailUrl: cached.thumbnail_url,
+          previewTrackUrl: cached.preview_track_url || null,
+          hlsUrl: cached.hls_url || null,
+          // Quien generó el archivo (coincide con el pedido: ver findCachedVideo)
+          provider: (cached.metadata && JSON.parse(cached.metadata).provider) || provider.id,
+          cacheHit: true,
+          cachedAt: cached.completed_at,
+        });
+      }
 
-    // Generar video con Veo 3
-    const videoResult = await generateVideo({
-      prompt,
-      duration: duration || 10,
-      aspectRatio: aspectRatio || "16:9",
-      style: style || "cinematic",
-    });
+      const userId = getUserId(req);
+      await checkBudget(storage, generation.estimate, userId);
+
+      const videoResult = await jobs.start(provider, request, {
+        promptId: generation.promptId,
+        fallback: generation.fallback,
+        metadata: generation.metadata,
+        userId,
+        contentHash: generation.contentHash,
+      });
+
+      res.json({
+        id: videoResult.id,
+        jobId: videoResult.jobId,
+        status: videoResult.status,
+        estimatedTime: videoResult.estimatedTime,
+        estimatedTimeRange: videoResult.estimatedTimeRange,
+        prompt: request.prompt,
+        duration: request.durationSeconds,
+        resolution: request.resolution,
+        aspectRatio: request.aspectRatio,
+        style: request.style,
+        referenceImageUrl: request.image?.url,
+        negativePrompt: request.negativePrompt,
+        seed: request.seed,
+        enhancePrompt: request.enhancePrompt,
+        generateAudio: request.generateAudio,
+        provider: provider.id,
+        providerConfigured: provider.isConfigured(),
+        fallback: generation.fallback,
+        estimatedCost: generation.estimate,
+        cacheHit: false,
+      });
+    } catch (error) {
+      if (error instanceof GenerationInputError) {
+        return res.status(400).json({ error: error.message, ...error.details });
+      }
+      if (error instanceof BudgetExceededError) {
+        return res.status(402).json({ error: error.message, ...error.details });
+      }
+      console.error("Error iniciando generación de video:", error);
+      res.status(500).json({ error: "Error interno del servidor" });
+    }
+  });
+
+  /**
+   * POST /api/videos/:id/regenerate - Volver a generar un video con la misma petición
+   * (prompt, parámetros avanzados y seed) y el proveedor que lo generó realmente
+   */
+  router.post("/:id/regenerate", async (req, res) => {
+    try {
+      const video = await resolveVideo(storage, req.params.id);
+      const job = video ? await jobs.get(video.veo_job_id) : null;
+      if (!video || !job) {
+        return res.status(404).json({ error: "Video no encontrado" });
+      }
 
-    // Guardar en base de datos
-    const dbResult = await DatabaseService.createVideo({
-      prompt_id: promptId || null,
-      veo_job_id: videoResult.jobId,
-      status: "queued",
-      duration_seconds: duration || 10,
-      metadata: JSON.stringify({
-        aspectRatio: aspectRatio || "16:9",
-        style: style || "cinematic",
-        originalPrompt: prompt,
-      }),
-    });
+      const { request } = job;
+      const generation = prepareGeneration({
+        prompt: request.prompt,
+        promptId: video.prompt_id,
+        provider: job.provider,
+        // Con otro proveedor la misma seed no daría el mismo resultado
+        fallback: "none",
+        duration: request.durationSeconds,
+        aspectRatio: request.aspectRatio,
+        style: request.style,
+        resolution: request.resolution,
+        variants: request.variants,
+        referenceImage: request.image?.url,
+        negativePrompt: request.negativePrompt,
+        seed: request.seed,
+        enhancePrompt: request.enhancePrompt,
+        generateAudio: request.generateAudio,
+        metadata: request.metadata,
+      });
+
+      const userId = getUserId(req);
+      await checkBudget(storage, generation.estimate, userId);
+
+      const videoResult = await jobs.start(generation.provider, generation.request, {
+        promptId: generation.promptId,
+        fallback: generation.fallback,
+        metadata: { ...generation.metadata, regeneratedFrom: video.id },
+        userId,
+        // Regenerar no consulta la caché, pero su resultado queda disponible en ella
+        contentHash: generation.contentHash,
+      });
+
+      console.log(`🔁 Video ${video.id} regenerado como ${videoResult.jobId}`);
+      res.status(201).json({
+        id: videoResult.id,
+        jobId: videoResult.jobId,
+        status: videoResult.status,
+        estimatedTime: videoResult.estimatedTime,
+        estimatedTimeRange: videoResult.estimatedTimeRange,
+        provider: generation.provider.id,
+        seed: generation.request.seed,
+        regeneratedFrom: video.id,
+        estimatedCost: generation.estimate,
+      });
+    } catch (error) {
+      if (error instanceof GenerationInputError) {
+        return res.status(400).json({ error: error.message, ...error.details });
+      }
+      if (error instanceof BudgetExceededError) {
+        return res.status(402).json({ error: error.message, ...error.details });
+      }
+      console.error("Error regenerando video:", error);
+      res.status(500).json({ error: "Error interno del servidor" });
+    }
+  });
 
-    res.json({
-      id: dbResult.lastInsertRowid,
-      jobId: videoResult.jobId,
-      status: videoResult.status,
-      estimatedTime: videoResult.estimatedTime,
-      prompt,
-      duration: duration || 10,
-      aspectRatio: aspectRatio || "16:9",
-      style: style || "cinematic",
-      googleAIConfigured: isGoogleAIConfigured(),
-    });
-  } catch (error) {
-    console.error("Error iniciando generación de video:", error);
-    res.status(500).json({ error: "Error interno del servidor" });
-  }
-});
+  // GET /api/videos/status/:jobId - Verificar estado de un trabajo
+  router.get("/status/:jobId", async (req, res) => {
+    try {
+      const { jobId } = req.params;
+
+      if (!jobId) {
+        return res.status(400).json({ error: "Job ID es requerido" });
+      }
 
-// POST /api/videos/generate-sora - Iniciar generación de video con Sora
-router.post("/generate-sora", async (req, res) => {
-  try {
-    const { prompt, promptId, duration, resolution, aspectRatio } = req.body;
+      const jobStatus = await jobs.get(jobId);
 
-    if (!prompt) {
-      return res.status(400).json({ error: "El prompt es requerido" });
+      if (!jobStatus) {
+        return res.status(404).json({ error: "Trabajo no encontrado" });
+      }
+
+      res.json(toStatusResponse(jobStatus));
+    } catch (error) {
+      console.error("Error verificando estado del video:", error);
+      res.status(500).json({ error: "Error interno del servidor" });
     }
+  });
+
+  // POST /api/videos/:id/cancel - Cancelar un trabajo (acepta el ID del video o el jobId)
+  router.post("/:id/cancel", async (req, res) => {
+    try {
+      const jobId = await resolveJobId(storage, req.params.id);
+      if (!jobId) {
+        return res.status(404).json({ error: "Video no encontrado" });
+      }
 
-    // Generar video con Sora
-    const videoResult = await generateVideoWithSora({
-      prompt,
-      duration: duration || 5,
-      resolution: resolution || "720",
-      aspectRatio: aspectRatio || "16:9",
-    });
+      const job = await jobs.cancel(jobId);
 
-    // Guardar en base de datos
-    const dbResult = await DatabaseService.createVideo({
-      prompt_id: promptId || null,
-      veo_job_id: videoResult.jobId,
-      status: "queued",
-      duration_seconds: duration || 5,
-      metadata: JSON.stringify({
-        provider: "sora",
-        resolution: resolution || "720",
-        aspectRatio: aspectRatio || "16:9",
-        originalPrompt: prompt,
-      }),
-    });
+      if (!job) {
+        return res.status(404).json({ error: "Trabajo no encontrado" });
+      }
 
-    res.json({
-      id: dbResult.lastInsertRowid,
-      jobId: videoResult.jobId,
-      status: "queued",
-      estimatedTime: "2-5 minutos",
-      prompt,
-      duration: duration || 5,
-      resolution: resolution || "720",
-      aspectRatio: aspectRatio || "16:9",
-      provider: "sora",
-    });
-  } catch (error) {
-    console.error("Error iniciando generación de video con Sora:", error);
-    res.status(500).json({ error: "Error interno del servidor" });
-  }
-});
+      if (job.status !== "cancelled") {
+        return res.status(409).json({
+          error: "El trabajo ya ha finalizado y no se puede cancelar",
+          status: job.status,
+        });
+      }
+
+      res.json({
+        jobId: job.id,
+        provider: job.provider,
+        status: job.status,
+      });
+    } catch (error) {
+      console.error("Error cancelando el trabajo:", error);
+      res.status(500).json({ error: "Error interno del servidor" });
+    }
+  });
+
+  // GET /api/videos/:id/events - Stream SSE con los cambios de estado, progreso y errores
+  router.get("/:id/events", async (req, res) => {
+    try {
+      const jobId = await resolveJobId(storage, req.params.id);
+      const job = jobId ? await jobs.get(jobId) : null;
+
+      if (!job) {
+        return res.status(404).json({ error: "Trabajo no encontrado" });
+      }
+
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+      });
+
+      const send = (event: string, data: unknown) => {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      // Estado inicial; si ya terminó no hay nada más que esperar
+      send("status", toStatusResponse(job));
+      if (isFinished(job)) {
+        return res.end();
+      }
+
+      let lastProgress = job.progress || 0;
+
+      const onUpdate = ({ job: updated, changes, statusChanged }: VideoJobUpdate) => {
+        if (updated.id !== job.id) return;
+
+        if (statusChanged) {
+          send("status", toStatusResponse(updated));
+        } else if (changes.progress !== undefined && changes.progress !== lastProgress) {
+          send("progress", { jobId: updated.id, progress: changes.progress });
+        } else if (changes.queuePosition !== undefined) {
+          send("queue", { jobId: updated.id, queuePosition: changes.queuePosition });
+        }
+        lastProgress = updated.progress || 0;
+
+        if (changes.error) {
+          send("job-error", {
+            jobId: updated.id,
+            error: changes.error,
+            errorCategory: updated.errorCategory,
+          });
+        }
+
+        if (isFinished(updated)) {
+          cleanup();
+          res.end();
+        }
+      };
+
+      // Comentario periódico para que proxies y navegadores no cierren la conexión
+      const heartbeat = setInterval(() => res.write(": ping\n\n"), 15000);
+
+      const cleanup = () => {
+        clearInterval(heartbeat);
+        jobs.off("update", onUpdate);
+      };
+
+      jobs.on("update", onUpdate);
+      req.on("close", cleanup);
+    } catch (error) {
+      console.error("Error abriendo el stream de eventos:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Error interno del servidor" });
+      } else {
+        res.end();
+      }
+    }
+  });
+
+  /**
+   * POST /api/videos/:id/narration - Adjuntar una narración al video (multipart,
+   * campo "narration"). Sustituye a la anterior; se usa en la siguiente mezcla.
+   */
+  router.post("/:id/narration", (req, res) => {
+    narrationUpload(req, res, async (uploadError: unknown) => {
+      if (uploadError instanceof multer.MulterError && uploadError.code === "LIMIT_FILE_SIZE") {
+        return res.status(413).json({
+          error: `La narración no puede superar ${MAX_NARRATION_MB} MB`,
+        });
+      }
+      if (uploadError instanceof AudioMixError || uploadError instanceof multer.MulterError) {
+        return res.status(400).json({
+          error: uploadError.message,
+          supportedTypes: NARRATION_TYPES,
+        });
+      }
+      if (uploadError) {
+        console.error("Error subiendo narración:", uploadError);
+        return res.status(500).json({ error: "Error interno del servidor" });
+      }
+
+      if (!req.file) {
+        return res.status(400).json({ error: 'Falta el audio en el campo "narration"' });
+      }
+
+      try {
+        const video = await resolveVideo(storage, req.params.id);
+        if (!video) {
+          fs.unlinkSync(req.file.path);
+          return res.status(404).json({ error: "Video no encontrado" });
+        }
+
+        const durationSeconds = await probeAudio(req.file.path);
+        if (durationSeconds === null) {
+          fs.unlinkSync(req.file.path);
+          return res.status(400).json({
+            error: "El archivo no contiene una pista de audio válida",
+            supportedTypes: NARRATION_TYPES,
+          });
+        }
+
+        const narrationUrl = toPublicUrl(req.file.path);
+        const metadata = video.metadata ? JSON.parse(video.metadata) : {};
+        await storage.updateVideoMetadata(
+          video.veo_job_id,
+          JSON.stringify({ ...metadata, narrationUrl, narrationDurationSeconds: durationSeconds })
+        );
 
-// GET /api/videos/status/:jobId - Verificar estado de un trabajo
-router.get("/status/:jobId", async (req, res) => {
-  try {
-    const { jobId } = req.params;
+        console.log(`🎙️ Narración adjuntada al video ${video.id}: ${req.file.filename}`);
+        res.status(201).json({ videoId: video.id, narrationUrl, durationSeconds });
+      } catch (error) {
+        console.error("Error adjuntando narración:", error);
+        res.status(500).json({ error: "Error interno del servidor" });
+      }
+    });
+  });
+
+  // DELETE /api/videos/:id/narration - Quitar la narración adjunta (las mezclas hechas se conservan)
+  router.delete("/:id/narration", async (req, res) => {
+    try {
+      const video = await resolveVideo(storage, req.params.id);
+      if (!video) {
+        return res.status(404).json({ error: "Video no encontrado" });
+      }
 
-    if (!jobId) {
-      return res.status(400).json({ error: "Job ID es requerido" });
+      const metadata = video.metadata ? JSON.parse(video.metadata) : {};
+      delete metadata.narrationUrl;
+      delete metadata.narrationDurationSeconds;
+      await storage.updateVideoMetadata(video.veo_job_id, JSON.stringify(metadata));
+      res.json({ videoId: video.id, narrationUrl: null });
+    } catch (error) {
+      console.error("Error quitando narración:", error);
+      res.status(500).json({ error: "Error interno del servidor" });
     }
+  });
+
+  /**
+   * POST /api/videos/:id/audio-mix - Mezclar música de la biblioteca y/o la
+   * narración adjunta con el video: { musicTrack, narration, musicVolume,
+   * narrationVolume, originalVolume, narrationDelaySeconds, fadeSeconds, ducking }.
+   * El resultado es una variante nueva que pasa a ser la principal.
+   */
+  router.post("/:id/audio-mix", async (req, res) => {
+    try {
+      const video = await resolveVideo(storage, req.params.id);
+      if (!video) {
+        return res.status(404).json({ error: "Video no encontrado" });
+      }
 
-    // Intentar obtener estado del servicio Veo 3 primero
-    let jobStatus = getVideoJobStatus(jobId);
-    let provider = "veo3";
+      if (video.status !== "completed") {
+        return res.status(409).json({
+          error: "Solo se puede mezclar el audio de un video completado",
+          status: video.status,
+        });
+      }
+
+      const settings = parseAudioMixSettings(req.body || {});
+      const { variant, mix } = await createAudioMix(storage, video, settings);
+      const updated = (await storage.getVideoById(video.id))!;
+
+      res.status(201).json({
+        videoId: video.id,
+        audioMix: mix,
+        variant: toVariantResponse(variant, updated),
+      });
+    } catch (error) {
+      if (error instanceof AudioMixError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error mezclando audio:", error);
+      res.status(500).json({ error: "Error interno del servidor" });
+    }
+  });
+
+  // GET /api/videos/:id/captions - Pistas de subtítulos WebVTT del video
+  router.get("/:id/captions", async (req, res) => {
+    try {
+      const video = await resolveVideo(storage, req.params.id);
+      if (!video) {
+        return res.status(404).json({ error: "Video no encontrado" });
+      }
 
-    // Si no se encuentra en Veo3, intentar con Sora
-    if (!jobStatus) {
-      jobStatus = getSoraJobStatus(jobId);
-      provider = "sora";
+      const captions = getCaptionTracks(video);
+      res.json({ videoId: video.id, captions, total: captions.length });
+    } catch (error) {
+      console.error("Error obteniendo subtítulos:", error);
+      res.status(500).json({ error: "Error interno del servidor" });
     }
+  });
+
+  /**
+   * PUT /api/videos/:id/captions/:language - Subtítulos escritos a mano: { text }
+   * (se reparte a lo largo del video, una línea por subtítulo) o { cues: [{ start,
+   * end, text }] } con los tiempos ya puestos. label opcional ("Español"...)
+   */
+  router.put("/:id/captions/:language", async (req, res) => {
+    try {
+      const language = parseLanguage(req.params.language);
+      const video = await resolveVideo(storage, req.params.id);
+      if (!video) {
+        return res.status(404).json({ error: "Video no encontrado" });
+      }
 
-    if (!jobStatus) {
-      return res.status(404).json({ error: "Trabajo no encontrado" });
+      if (video.status !== "completed") {
+        return res.status(409).json({
+          error: "Solo se pueden subtitular videos completados",
+          status: video.status,
+        });
+      }
+
+      const { cues, text, label } = req.body || {};
+      const durationSeconds = getCaptionDuration(video);
+      const manualText = readCaptionText(text, "text");
+      if (!cues && !manualText) {
+        return res.status(400).json({ error: "Envía el texto (text) o los subtítulos (cues)" });
+      }
+
+      const captions = cues
+        ? normalizeCues(cues, durationSeconds)
+        : timeCaptionText(manualText!, durationSeconds);
+      const track = await saveCaptions(
+        storage,
+        video,
+        language,
+        captions,
+        "manual",
+        readCaptionText(label, "label")
+      );
+
+      res.json({ videoId: video.id, caption: track, cues: captions });
+    } catch (error) {
+      if (error instanceof CaptionInputError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error guardando subtítulos:", error);
+      res.status(500).json({ error: "Error interno del servidor" });
     }
+  });
+
+  /**
+   * POST /api/videos/:id/captions/:language/generate - Subtítulos escritos por el
+   * LLM a partir del prompt optimizado y del guion de la narración ({ script },
+   * que se guarda para la próxima vez). Sin LLM se reparte el guion o el prompt.
+   */
+  router.post("/:id/captions/:language/generate", async (req, res) => {
+    try {
+      const language = parseLanguage(req.params.language);
+      const video = await resolveVideo(storage, req.params.id);
+      if (!video) {
+        return res.status(404).json({ error: "Video no encontrado" });
+      }
+
+      if (video.status !== "completed") {
+        return res.status(409).json({
+          error: "Solo se pueden subtitular videos completados",
+          status: video.status,
+        });
+      }
 
-    // Actualizar base de datos si el estado cambió
-    const dbVideo = await DatabaseService.getVideoByJobId(jobId);
-    if (dbVideo && dbVideo.status !== jobStatus.status) {
-      await DatabaseService.updateVideoStatus(
-        jobId,
-        jobStatus.status as any,
-        jobStatus.videoUrl,
-        jobStatus.completedAt?.toISOString()
+      const metadata = video.metadata ? JSON.parse(video.metadata) : {};
+      const script = readCaptionText(req.body?.script, "script");
+      if (script) {
+        await storage.updateVideoMetadata(
+          video.veo_job_id,
+          JSON.stringify({ ...metadata, narrationScript: script })
+        );
+      }
+
+      const { cues, source } = await generateCaptions(
+        video,
+        language,
+        script || metadata.narrationScript
       );
+      const track = await saveCaptions(
+        storage,
+        video,
+        language,
+        cues,
+        source,
+        readCaptionText(req.body?.label, "label")
+      );
+
+      res.status(201).json({ videoId: video.id, caption: track, cues });
+    } catch (error) {
+      if (error instanceof CaptionInputError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error generando subtítulos:", error);
+      res.status(500).json({ error: "Error interno del servidor" });
     }
+  });
+
+  // DELETE /api/videos/:id/captions/:language - Borrar la pista de un idioma
+  router.delete("/:id/captions/:language", async (req, res) => {
+    try {
+      const language = parseLanguage(req.params.language);
+      const video = await resolveVideo(storage, req.params.id);
+      if (!video) {
+        return res.status(404).json({ error: "Video no encontrado" });
+      }
 
-    res.json({
-      jobId: jobStatus.id,
-      status: jobStatus.status,
-      progress: jobStatus.progress || 0,
-      videoUrl: jobStatus.videoUrl,
-      thumbnailUrl: jobStatus.thumbnailUrl,
-      error: jobStatus.error,
-      createdAt: jobStatus.createdAt,
-      completedAt: jobStatus.completedAt,
-      estimatedTimeRemaining:
-        jobStatus.status === "processing"
-          ? Math.max(
-              0,
-              jobStatus.duration * 30 -
-                (Date.now() - jobStatus.createdAt.getTime()) / 1000
-            )
-          : 0,
-    });
-  } catch (error) {
-    console.error("Error verificando estado del video:", error);
-    res.status(500).json({ error: "Error interno del servidor" });
-  }
-});
-
-// GET /api/videos/library - Obtener biblioteca de videos
-router.get("/library", async (req, res) => {
-  try {
-    const { status, limit = 20, offset = 0 } = req.query;
-
-    let videos;
-    if (status && typeof status === "string") {
-      videos = await DatabaseService.getVideosByStatus(status as any);
-    } else {
-      videos = await DatabaseService.getAllVideos();
+      if (!(await deleteCaptions(storage, video, language))) {
+        return res.status(404).json({ error: "El video no tiene subtítulos en ese idioma" });
+      }
+
+      res.json({ videoId: video.id, language, deleted: true });
+    } catch (error) {
+      if (error instanceof CaptionInputError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error borrando subtítulos:", error);
+      res.status(500).json({ error: "Error interno del servidor" });
+    }
+  });
+
+  // GET /api/videos/:id/variants - Variantes de una generación (id numérico o jobId)
+  router.get("/:id/variants", async (req, res) => {
+    try {
+      const video = await resolveVideo(storage, req.params.id);
+      if (!video) {
+        return res.status(404).json({ error: "Video no encontrado" });
+      }
+
+      const variants = await storage.getVideoVariants(video.id);
+      res.json({
+        videoId: video.id,
+        primaryVariantId: video.primary_variant_id ?? null,
+        variants: variants.map((variant) => toVariantResponse(variant, video)),
+      });
+    } catch (error) {
+      console.error("Error obteniendo variantes:", error);
+      res.status(500).json({ error: "Error interno del servidor" });
+    }
+  });
+
+  // POST /api/videos/:id/variants/:variantId/primary - Elegir la variante que se muestra en la galería
+  router.post("/:id/variants/:variantId/primary", async (req, res) => {
+    try {
+      const video = await resolveVideo(storage, req.params.id);
+      if (!video) {
+        return res.status(404).json({ error: "Video no encontrado" });
+      }
+
+      const variantId = parseInt(req.params.variantId);
+      const variants = await storage.getVideoVariants(video.id);
+      const variant = variants.find((v) => v.id === variantId);
+      if (!variant) {
+        return res.status(404).json({ error: "Variante no encontrada" });
+      }
+
+      await storage.setPrimaryVariant(video.id, variant);
+      console.log(`✅ Variante ${variant.variant_index + 1} elegida como principal del video ${video.id}`);
+
+      const updated = { ...video, primary_variant_id: variant.id };
+      res.json({
+        videoId: video.id,
+        primaryVariantId: variant.id,
+        variants: variants.map((v) => toVariantResponse(v, updated)),
+      });
+    } catch (error) {
+      console.error("Error eligiendo variante principal:", error);
+      res.status(500).json({ error: "Error interno del servidor" });
+    }
+  });
+
+  // GET /api/videos/library - Obtener biblioteca de videos
+  router.get("/library", async (req, res) => {
+    try {
+      const { status, limit = 20, offset = 0 } = req.query;
+
+      let videos;
+      if (status && typeof status === "string") {
+        videos = await storage.getVideosByStatus(status as any);
+      } else {
+        videos = await storage.getAllVideos();
+      }
+
+      // Aplicar paginación
+      const limitNum = parseInt(limit as string);
+      const offsetNum = parseInt(offset as string);
+      const paginatedVideos = videos.slice(offsetNum, offsetNum + limitNum);
+
+      // Enriquecer con información de estado en tiempo real
+      const enrichedVideos = paginatedVideos.map((video) => {
+        const jobStatus = jobs.getActive(video.veo_job_id);
+        const metadata = video.metadata ? JSON.parse(video.metadata) : {};
+
+        return {
+          id: video.id,
+          jobId: video.veo_job_id,
+          status: jobStatus?.status || video.status,
+          prompt: metadata.originalPrompt || "Prompt no disponible",
+          videoUrl: jobStatus?.videoUrl || video.video_url,
+          thumbnailUrl: jobStatus?.thumbnailUrl || video.thumbnail_url,
+          previewTrackUrl: video.preview_track_url || null,
+          hlsUrl: video.hls_url || null,
+          duration: getDuration(video),
+          requestedDuration: video.duration_seconds,
+          media: parseMedia(video.media),
+          aspectRatio: metadata.aspectRatio,
+          style: metadata.style,
+          provider: jobStatus?.provider || metadata.provider,
+          simulated: !!metadata.simulated,
+          variants: metadata.variants || 1,
+          cost: video.cost ?? null,
+          progress:
+            jobStatus?.progress || (video.status === "completed" ? 100 : 0),
+          createdAt: video.created_at,
+          completedAt: video.completed_at || jobStatus?.completedAt,
+          error: jobStatus?.error,
+          errorCategory: jobStatus?.errorCategory,
+        };
+      });
+
+      res.json({
+        videos: enrichedVideos,
+        total: videos.length,
+        limit: limitNum,
+        offset: offsetNum,
+        hasMore: offsetNum + limitNum < videos.length,
+      });
+    } catch (error) {
+      console.error("Error obteniendo biblioteca de videos:", error);
+      res.status(500).json({ error: "Error interno del servidor" });
     }
+  });
+
+  // GET /api/videos/:id - Obtener video específico
+  router.get("/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const videoId = parseInt(id);
 
-    // Aplicar paginación
-    const limitNum = parseInt(limit as string);
-    const offsetNum = parseInt(offset as string);
-    const paginatedVideos = videos.slice(offsetNum, offsetNum + limitNum);
+      if (isNaN(videoId)) {
+        return res.status(400).json({ error: "ID de video inválido" });
+      }
 
-    // Enriquecer con información de estado en tiempo real
-    const enrichedVideos = paginatedVideos.map((video) => {
-      const jobStatus = getVideoJobStatus(video.veo_job_id);
+      const video = await storage.getVideoById(videoId);
+
+      if (!video) {
+        return res.status(404).json({ error: "Video no encontrado" });
+      }
+
+      // Obtener estado en tiempo real del trabajo
+      const jobStatus = jobs.getActive(video.veo_job_id);
       const metadata = video.metadata ? JSON.parse(video.metadata) : {};
 
-      return {
+      const enrichedVideo = {
         id: video.id,
         jobId: video.veo_job_id,
         status: jobStatus?.status || video.status,
         prompt: metadata.originalPrompt || "Prompt no disponible",
+        optimizedPrompt: metadata.optimizedPrompt,
         videoUrl: jobStatus?.videoUrl || video.video_url,
         thumbnailUrl: jobStatus?.thumbnailUrl || video.thumbnail_url,
-        duration: video.duration_seconds,
+        // Pista WebVTT de miniaturas para previsualizar al pasar por la barra de progreso
+        previewTrackUrl: video.preview_track_url || null,
+        // Master playlist HLS y sus calidades; sin él el Player usa videoUrl (MP4)
+        hlsUrl: video.hls_url || null,
+        renditions: parseRenditions(video.renditions),
+        // Duración real del archivo si se pudo analizar; si no, la pedida
+        duration: getDuration(video),
+        requestedDuration: video.duration_seconds,
+        media: parseMedia(video.media),
         aspectRatio: metadata.aspectRatio,
         style: metadata.style,
-        progress:
-          jobStatus?.progress || (video.status === "completed" ? 100 : 0),
+        referenceImageUrl: metadata.referenceImageUrl,
+        negativePrompt: metadata.negativePrompt,
+        seed: metadata.seed,
+        enhancePrompt: metadata.enhancePrompt,
+        generateAudio: metadata.generateAudio,
+        regeneratedFrom: metadata.regeneratedFrom,
+        // Narración adjunta y mezclas de audio hechas (ver services/audioMixing.ts)
+        narrationUrl: metadata.narrationUrl || null,
+        audioMixes: getAudioMixes(video),
+        // Subtítulos WebVTT por idioma (ver services/captions.ts)
+        captions: getCaptionTracks(video),
+        narrationScript: metadata.narrationScript || null,
+        provider: jobStatus?.provider || metadata.provider,
+        simulated: !!metadata.simulated,
+        variants: metadata.variants || 1,
+        cost: video.cost ?? null,
+        userId: video.user_id || undefined,
+        progress: jobStatus?.progress || (video.status === "completed" ? 100 : 0),
         createdAt: video.created_at,
         completedAt: video.completed_at || jobStatus?.completedAt,
         error: jobStatus?.error,
+        metadata: metadata,
       };
-    });
 
-    res.json({
-      videos: enrichedVideos,
-      total: videos.length,
-      limit: limitNum,
-      offset: offsetNum,
-      hasMore: offsetNum + limitNum < videos.length,
-    });
-  } catch (error) {
-    console.error("Error obteniendo biblioteca de videos:", error);
-    res.status(500).json({ error: "Error interno del servidor" });
-  }
-});
+      res.json(enrichedVideo);
+    } catch (error) {
+      console.error("Error obteniendo video:", error);
+      res.status(500).json({ error: "Error interno del servidor" });
+    }
+  });
+
+  // GET /api/videos/test-config - Verificar configuración de Google AI
+  router.get("/test-config", async (req, res) => {
+    try {
+      const isConfigured = isGoogleAIConfigured();
+      const config: any = {
+        googleAIConfigured: isConfigured,
+        projectId: process.env.GOOGLE_CLOUD_PROJECT_ID,
+        location: process.env.GOOGLE_CLOUD_LOCATION,
+        apiKeySet: !!process.env.GOOGLE_API_KEY,
+        timestamp: new Date().toISOString(),
+      };
 
-// GET /api/videos/:id - Obtener video específico
-router.get("/:id", async (req, res) => {
-  try {
-    const { id } = req.params;
-    const videoId = parseInt(id);
+      if (isConfigured) {
+        try {
+          const testResult = await import("../providers/veo3.js").then((module) =>
+            module.testGoogleAIConnection()
+          );
+          config.connectionTest = testResult;
+        } catch (error: any) {
+          config.connectionTest = false;
+          config.error = error.message;
+        }
+      }
 
-    if (isNaN(videoId)) {
-      return res.status(400).json({ error: "ID de video inválido" });
+      res.json(config);
+    } catch (error) {
+      console.error("Error verificando configuración:", error);
+      res.status(500).json({ error: "Error interno del servidor" });
     }
+  });
 
-    const video = await DatabaseService.getVideoById(videoId);
+  return router;
+}
 
-    if (!video) {
-      return res.status(404).json({ error: "Video no encontrado" });
-    }
+// Función para construir la respuesta de estado de un trabajo (status y eventos SSE)
+function toStatusResponse(job: VideoJob) {
+  const remaining =
+    !isFinished(job) && job.estimatedTime !== undefined && job.estimatedTimeRange
+      ? remainingTime(
+          { expected: job.estimatedTime, range: job.estimatedTimeRange },
+          (Date.now() - job.createdAt.getTime()) / 1000
+        )
+      : null;
+
+  return {
+    jobId: job.id,
+    provider: job.provider,
+    simulated: !!getProvider(job.provider)?.simulated,
+    providerAttempts: job.providerAttempts || [],
+    status: job.status,
+    progress: job.progress || 0,
+    // Posición en la cola del proveedor (1 = el siguiente); null si no está esperando
+    queuePosition: job.status === "queued" ? job.queuePosition ?? null : null,
+    videoUrl: job.videoUrl,
+    thumbnailUrl: job.thumbnailUrl,
+    error: job.error,
+    errorCategory: job.errorCategory,
+    createdAt: job.createdAt,
+    completedAt: job.completedAt,
+    estimatedTime: job.estimatedTime,
+    estimatedTimeRange: job.estimatedTimeRange,
+    // Lo que falta según la estimación total y el tiempo transcurrido desde el envío
+    estimatedTimeRemaining: remaining?.expected ?? 0,
+    estimatedTimeRemainingRange: remaining?.range ?? { min: 0, max: 0 },
+  };
+}
 
-    // Obtener estado en tiempo real del trabajo
-    const jobStatus = getVideoJobStatus(video.veo_job_id);
-    const metadata = video.metadata ? JSON.parse(video.metadata) : {};
-
-    const enrichedVideo = {
-      id: video.id,
-      jobId: video.veo_job_id,
-      status: jobStatus?.status || video.status,
-      prompt: metadata.originalPrompt || "Prompt no disponible",
-      optimizedPrompt: metadata.optimizedPrompt,
-      videoUrl: jobStatus?.videoUrl || video.video_url,
-      thumbnailUrl: jobStatus?.thumbnailUrl || video.thumbnail_url,
-      duration: video.duration_seconds,
-      aspectRatio: metadata.aspectRatio,
-      style: metadata.style,
-      progress: jobStatus?.progress || (video.status === "completed" ? 100 : 0),
-      createdAt: video.created_at,
-      completedAt: video.completed_at || jobStatus?.completedAt,
-      error: jobStatus?.error,
-      metadata: metadata,
-    };
-
-    res.json(enrichedVideo);
-  } catch (error) {
-    console.error("Error obteniendo video:", error);
-    res.status(500).json({ error: "Error interno del servidor" });
-  }
-});
-
-// GET /api/videos/test-config - Verificar configuración de Google AI
-router.get("/test-config", async (req, res) => {
-  try {
-    const isConfigured = isGoogleAIConfigured();
-    const config: any = {
-      googleAIConfigured: isConfigured,
-      projectId: process.env.GOOGLE_CLOUD_PROJECT_ID,
-      location: process.env.GOOGLE_CLOUD_LOCATION,
-      apiKeySet: !!process.env.GOOGLE_API_KEY,
-      timestamp: new Date().toISOString(),
-    };
-
-    if (isConfigured) {
-      try {
-        const testResult = await import("../services/veo3.js").then((module) =>
-          module.testGoogleAIConnection()
-        );
-        config.connectionTest = testResult;
-      } catch (error: any) {
-        config.connectionTest = false;
-        config.error = error.message;
-      }
-    }
+// Función para obtener el jobId a partir del ID numérico del video o del propio jobId
+async function resolveJobId(
+  storage: StorageAdapter,
+  id: string
+): Promise<string | null> {
+  if (!/^\d+$/.test(id)) return id;
 
-    res.json(config);
-  } catch (error) {
-    console.error("Error verificando configuración:", error);
-    res.status(500).json({ error: "Error interno del servidor" });
-  }
-});
+  const video = await storage.getVideoById(parseInt(id));
+  return video ? video.veo_job_id : null;
+}
+
+// Usuario al que se imputa el coste; sin cabecera solo se aplica el presupuesto mensual
+export function getUserId(req: express.Request): string | undefined {
+  const userId = req.header("x-user-id")?.trim();
+  return userId || undefined;
+}
+
+// Función para obtener el video a partir de su ID numérico o de su jobId
+async function resolveVideo(
+  storage: StorageAdapter,
+  id: string
+): Promise<StoredVideo | null> {
+  const video = /^\d+$/.test(id)
+    ? await storage.getVideoById(parseInt(id))
+    : await storage.getVideoByJobId(id);
+  return video || null;
+}
+
+// Función para leer las calidades HLS guardadas en JSON
+function parseRenditions(renditions: string | null | undefined): VideoRendition[] {
+  return renditions ? JSON.parse(renditions) : [];
+}
+
+// Función para leer los datos del archivo guardados en JSON (null si no se analizó)
+function parseMedia(media: string | null | undefined): VideoMedia | null {
+  return media ? JSON.parse(media) : null;
+}
+
+function getDuration(video: StoredVideo): number {
+  const media = parseMedia(video.media);
+  return media ? Math.round(media.durationSeconds) : video.duration_seconds;
+}
+
+function toVariantResponse(variant: VideoVariant, video: StoredVideo) {
+  return {
+    id: variant.id,
+    index: variant.variant_index,
+    videoUrl: variant.video_url,
+    thumbnailUrl: variant.thumbnail_url,
+    previewTrackUrl: variant.preview_track_url,
+    hlsUrl: variant.hls_url,
+    renditions: parseRenditions(variant.renditions),
+    media: parseMedia(variant.media),
+    // Ajustes de la mezcla si la variante salió de /:id/audio-mix
+    audioMix: getAudioMixes(video).find((mix) => mix.variantId === variant.id) || null,
+    primary: video.primary_variant_id === variant.id,
+    createdAt: variant.created_at,
+  };
+}
 
 // Definición del tipo Video para la base de datos
 interface Video {
   id: number;
   prompt_id: number | null;
   veo_job_id: string;
-  status: "queued" | "processing" | "completed" | "failed";
+  status: "queued" | "processing" | "completed" | "failed" | "cancelled";
   duration_seconds: number;
   video_url: string | null;
   thumbnail_url: string | null;
@@ -325,5 +1006,3 @@ function getProgressFromStatus(status: string): number {
       return 0;
   }
 }
-
-export default router;
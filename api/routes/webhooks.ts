@@ -0,0 +1,156 @@
+import express from 'express';
+import { WEBHOOK_EVENTS, generateWebhookSecret, parseWebhookEvents } from '../services/webhooks.js';
+import type { StorageAdapter, Webhook, WebhookDelivery, WebhookEvent } from '../database.js';
+
+// El secreto solo se devuelve al crear el webhook
+function formatWebhook(webhook: Webhook) {
+    return {
+        id: webhook.id,
+        url: webhook.url,
+        events: parseWebhookEvents(webhook),
+        createdAt: webhook.created_at
+    };
+}
+
+function formatDelivery(delivery: WebhookDelivery) {
+    return {
+        id: delivery.id,
+        event: delivery.event,
+        status: delivery.status,
+        attempts: delivery.attempts,
+        responseStatus: delivery.response_status,
+        error: delivery.error,
+        payload: JSON.parse(delivery.payload),
+        createdAt: delivery.created_at,
+        updatedAt: delivery.updated_at,
+        deliveredAt: delivery.delivered_at
+    };
+}
+
+function isValidUrl(value: unknown): value is string {
+    if (typeof value !== 'string') return false;
+    try {
+        const url = new URL(value);
+        return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+        return false;
+    }
+}
+
+export function createWebhookRoutes(storage: StorageAdapter): express.Router {
+    const router = express.Router();
+
+    /**
+     * GET /api/webhooks
+     * Lista los webhooks registrados
+     */
+    router.get('/', async (req, res) => {
+        try {
+            const webhooks = await storage.getAllWebhooks();
+            res.json({
+                webhooks: webhooks.map(formatWebhook),
+                total: webhooks.length
+            });
+        } catch (error) {
+            console.error('Error obteniendo webhooks:', error);
+            res.status(500).json({ error: 'Error interno del servidor' });
+        }
+    });
+
+    /**
+     * POST /api/webhooks
+     * Registra un webhook. Si no se envía `secret` se genera uno.
+     */
+    router.post('/', async (req, res) => {
+        try {
+            const { url, secret, events } = req.body;
+
+            if (!isValidUrl(url)) {
+                return res.status(400).json({ error: 'La URL del webhook debe ser http(s) válida' });
+            }
+
+            if (!Array.isArray(events) || events.length === 0 ||
+                !events.every((event: WebhookEvent) => WEBHOOK_EVENTS.includes(event))) {
+                return res.status(400).json({
+                    error: 'Debes indicar al menos un evento válido',
+                    availableEvents: WEBHOOK_EVENTS
+                });
+            }
+
+            if (secret !== undefined && (typeof secret !== 'string' || secret.length < 16)) {
+                return res.status(400).json({ error: 'El secreto debe tener al menos 16 caracteres' });
+            }
+
+            const webhookSecret = secret || generateWebhookSecret();
+            const result = await storage.createWebhook({
+                url,
+                secret: webhookSecret,
+                events: JSON.stringify(Array.from(new Set(events)))
+            });
+
+            const webhook = await storage.getWebhookById(result.lastInsertRowid);
+            res.status(201).json({
+                ...formatWebhook(webhook!),
+                secret: webhookSecret
+            });
+        } catch (error) {
+            console.error('Error registrando webhook:', error);
+            res.status(500).json({ error: 'Error interno del servidor' });
+        }
+    });
+
+    /**
+     * GET /api/webhooks/:id/deliveries
+     * Registro de entregas de un webhook (más recientes primero)
+     */
+    router.get('/:id/deliveries', async (req, res) => {
+        try {
+            const webhookId = parseInt(req.params.id);
+            const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+            if (isNaN(webhookId)) {
+                return res.status(400).json({ error: 'ID de webhook inválido' });
+            }
+
+            const webhook = await storage.getWebhookById(webhookId);
+            if (!webhook) {
+                return res.status(404).json({ error: 'Webhook no encontrado' });
+            }
+
+            const deliveries = await storage.getWebhookDeliveries(webhookId, limit);
+            res.json({
+                deliveries: deliveries.map(formatDelivery),
+                total: deliveries.length
+            });
+        } catch (error) {
+            console.error('Error obteniendo entregas del webhook:', error);
+            res.status(500).json({ error: 'Error interno del servidor' });
+        }
+    });
+
+    /**
+     * DELETE /api/webhooks/:id
+     * Elimina un webhook (su registro de entregas se conserva)
+     */
+    router.delete('/:id', async (req, res) => {
+        try {
+            const webhookId = parseInt(req.params.id);
+
+            if (isNaN(webhookId)) {
+                return res.status(400).json({ error: 'ID de webhook inválido' });
+            }
+
+            const deleted = await storage.deleteWebhook(webhookId);
+            if (!deleted) {
+                return res.status(404).json({ error: 'Webhook no encontrado' });
+            }
+
+            res.json({ id: webhookId, deleted: true });
+        } catch (error) {
+            console.error('Error eliminando webhook:', error);
+            res.status(500).json({ error: 'Error interno del servidor' });
+        }
+    });
+
+    return router;
+}
@@ -150,6 +150,81 @@ function createFallbackOptimization(
   };
 }
 
+export interface WriteCaptionsRequest {
+  originalPrompt: string;
+  optimizedPrompt?: string;
+  // Guion de la narración, si lo hay: los subtítulos deben seguirlo
+  script?: string;
+  language: string;
+  durationSeconds: number;
+}
+
+export interface CaptionDraft {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Escribe subtítulos con tiempos para un video a partir de su prompt y del guion
+ * de la narración. A diferencia de optimizePromptWithAnthropic no tiene fallback
+ * propio: si falla lanza el error y quien llama decide (ver services/captions.ts)
+ */
+export async function writeCaptionsWithAnthropic(
+  request: WriteCaptionsRequest
+): Promise<CaptionDraft[]> {
+  if (!isAnthropicConfigured()) {
+    throw new Error("Anthropic no está configurado");
+  }
+
+  const { originalPrompt, optimizedPrompt, script, language, durationSeconds } = request;
+
+  const systemPrompt = `Eres un subtitulador de videos educativos para niños que están aprendiendo a leer.
+
+Escribe los subtítulos de un video de ${durationSeconds} segundos en el idioma "${language}":
+
+1. **Guion**: si hay guion de narración, los subtítulos lo siguen palabra por palabra
+2. **Sin guion**: describe en frases muy cortas lo que ocurre, según el prompt del video
+3. **Lectura**: frases sencillas, como mucho 2 líneas de 42 caracteres por subtítulo
+4. **Tiempos**: al menos 1 segundo por subtítulo, sin solaparse y sin pasar de ${durationSeconds} segundos
+
+Devuelve solo JSON con:
+- cues: Array de { start, end, text }, con start y end en segundos`;
+
+  const userPrompt = `Prompt del video: "${originalPrompt}"
+${optimizedPrompt ? `Prompt optimizado: "${optimizedPrompt}"\n` : ""}${
+    script ? `Guion de la narración:\n${script}\n` : "Sin guion de narración\n"
+  }Duración: ${durationSeconds} segundos
+
+Escribe los subtítulos.`;
+
+  const message = await anthropic.messages.create({
+    model: "claude-3-haiku-20240307",
+    max_tokens: 2000,
+    temperature: 0.3,
+    system: systemPrompt,
+    messages: [{ role: "user", content: userPrompt }],
+  });
+
+  const response = message.content[0]?.type === "text" ? message.content[0].text : null;
+  if (!response) {
+    throw new Error("No se recibió respuesta de Anthropic");
+  }
+
+  let parsedResponse;
+  try {
+    parsedResponse = JSON.parse(response);
+  } catch (error) {
+    throw new Error("Respuesta inválida de Anthropic");
+  }
+
+  if (!Array.isArray(parsedResponse.cues)) {
+    throw new Error("Formato de respuesta inválido de Anthropic");
+  }
+
+  return parsedResponse.cues;
+}
+
 /**
  * Verifica si Anthropic está configurado correctamente
  */
@@ -0,0 +1,486 @@
+import fs from "fs";
+import path from "path";
+import multer from "multer";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import type { StorageAdapter, Video, VideoVariant } from "../database";
+import {
+  MUSIC_DIR,
+  NARRATION_DIR,
+  VIDEOS_DIR,
+  ensureUploadDirs,
+  fromPublicUrl,
+  toPublicUrl,
+} from "./media";
+import {
+  FFMPEG_TIMEOUT_MS,
+  FFPROBE_TIMEOUT_MS,
+  probeMedia,
+  type VideoMedia,
+} from "./mediaPipeline";
+import { packageHls } from "./transcoding";
+
+const execFileAsync = promisify(execFile);
+
+// Tamaño máximo de una narración (MB)
+export const MAX_NARRATION_MB = parseInt(process.env.MAX_NARRATION_MB || "25");
+
+// Tipos de audio admitidos al subir una narración y la extensión con la que se guardan
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  "audio/mpeg": ".mp3",
+  "audio/mp4": ".m4a",
+  "audio/x-m4a": ".m4a",
+  "audio/aac": ".aac",
+  "audio/wav": ".wav",
+  "audio/x-wav": ".wav",
+  "audio/wave": ".wav",
+  "audio/ogg": ".ogg",
+  "audio/webm": ".webm",
+};
+
+export const NARRATION_TYPES = Object.keys(AUDIO_EXTENSIONS);
+
+// Archivos que se muestran en la biblioteca de música
+const MUSIC_EXTENSIONS = [".mp3", ".m4a", ".aac", ".wav", ".ogg", ".flac"];
+
+// Frecuencia y canales comunes de todas las pistas antes de mezclarlas
+const MIX_FORMAT = "aformat=sample_rates=44100:channel_layouts=stereo";
+
+// Mezcla no válida (ajustes fuera de rango, pista inexistente...); las rutas la devuelven como 400
+export class AudioMixError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AudioMixError";
+  }
+}
+
+export interface MusicTrack {
+  // Nombre del archivo dentro de uploads/audio/music
+  id: string;
+  title: string;
+  url: string;
+  durationSeconds: number | null;
+}
+
+// Compresor con la narración como señal de control: cuánto y cómo de rápido baja la música
+export interface DuckingSettings {
+  // Nivel de la narración (0-1) a partir del cual se atenúa la música
+  threshold: number;
+  ratio: number;
+  attackMs: number;
+  releaseMs: number;
+}
+
+export interface AudioMixSettings {
+  // Pista de la biblioteca (id) o null para mezclar solo la narración
+  musicTrack: string | null;
+  // Usar la narración adjunta al video, si la tiene
+  narration: boolean;
+  // Volúmenes lineales (1 = sin cambios)
+  musicVolume: number;
+  narrationVolume: number;
+  originalVolume: number;
+  // Retraso de la narración respecto al inicio del video
+  narrationDelaySeconds: number;
+  // Fundido de entrada y salida de la música
+  fadeSeconds: number;
+  ducking: DuckingSettings;
+}
+
+/**
+ * Mezcla guardada en metadata.audioMixes del video: la variante que generó, la
+ * variante de la que partió y los ajustes con los que se hizo
+ */
+export interface AudioMixRecord extends AudioMixSettings {
+  variantId: number;
+  sourceVariantId: number;
+  musicUrl: string | null;
+  narrationUrl: string | null;
+  createdAt: string;
+}
+
+const DEFAULT_SETTINGS: AudioMixSettings = {
+  musicTrack: null,
+  narration: true,
+  musicVolume: 0.35,
+  narrationVolume: 1,
+  originalVolume: 1,
+  narrationDelaySeconds: 0,
+  fadeSeconds: 1.5,
+  ducking: { threshold: 0.05, ratio: 8, attackMs: 20, releaseMs: 400 },
+};
+
+/**
+ * Middleware multer para el campo "narration": guarda el audio en
+ * uploads/audio/narration y rechaza los tipos y tamaños no admitidos
+ */
+export const narrationUpload = multer({
+  storage: multer.diskStorage({
+    destination: (req, file, callback) => {
+      ensureUploadDirs();
+      callback(null, NARRATION_DIR);
+    },
+    filename: (req, file, callback) => {
+      callback(
+        null,
+        `narration_${Date.now()}_${Math.random().toString(36).substring(2, 11)}${
+          AUDIO_EXTENSIONS[file.mimetype]
+        }`
+      );
+    },
+  }),
+  limits: { fileSize: MAX_NARRATION_MB * 1024 * 1024, files: 1 },
+  fileFilter: (req, file, callback) => {
+    if (!AUDIO_EXTENSIONS[file.mimetype]) {
+      return callback(
+        new AudioMixError(
+          `Tipo de audio no admitido (${file.mimetype}). Admitidos: MP3, M4A, AAC, WAV, OGG y WebM`
+        )
+      );
+    }
+    callback(null, true);
+  },
+}).single("narration");
+
+// Función para obtener la duración de un audio con ffprobe; null si no tiene pista de audio
+export async function probeAudio(filePath: string): Promise<number | null> {
+  try {
+    const { stdout } = await execFileAsync(
+      "ffprobe",
+      [
+        "-v",
+        "error",
+        "-select_streams",
+        "a:0",
+        "-show_entries",
+        "stream=codec_type:format=duration",
+        "-of",
+        "json",
+        filePath,
+      ],
+      { timeout: FFPROBE_TIMEOUT_MS }
+    );
+    const data = JSON.parse(stdout);
+    const duration = parseFloat(data.format?.duration);
+    return data.streams?.length && duration > 0 ? Math.round(duration * 10) / 10 : null;
+  } catch {
+    return null;
+  }
+}
+
+// Duraciones ya analizadas, por archivo y fecha de modificación
+const trackDurations = new Map<string, { mtimeMs: number; duration: number | null }>();
+
+// Función para listar la biblioteca de música (archivos en uploads/audio/music)
+export async function listMusicTracks(): Promise<MusicTrack[]> {
+  ensureUploadDirs();
+  const files = fs
+    .readdirSync(MUSIC_DIR)
+    .filter((file) => MUSIC_EXTENSIONS.includes(path.extname(file).toLowerCase()))
+    .sort();
+
+  const tracks: MusicTrack[] = [];
+  for (const file of files) {
+    const filePath = path.join(MUSIC_DIR, file);
+    const { mtimeMs } = fs.statSync(filePath);
+    let cached = trackDurations.get(file);
+    if (!cached || cached.mtimeMs !== mtimeMs) {
+      cached = { mtimeMs, duration: await probeAudio(filePath) };
+      trackDurations.set(file, cached);
+    }
+
+    tracks.push({
+      id: file,
+      // "cancion_alegre-01.mp3" → "cancion alegre 01"
+      title: path.parse(file).name.replace(/[_-]+/g, " ").trim(),
+      url: toPublicUrl(filePath),
+      durationSeconds: cached.duration,
+    });
+  }
+  return tracks;
+}
+
+// Función para validar un número opcional dentro de un rango
+function readNumber(
+  value: unknown,
+  name: string,
+  min: number,
+  max: number,
+  fallback: number
+): number {
+  if (value === undefined || value === null || value === "") return fallback;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < min || number > max) {
+    throw new AudioMixError(`${name} debe estar entre ${min} y ${max}`);
+  }
+  return number;
+}
+
+/**
+ * Función para validar los ajustes de una mezcla (cuerpo de /:id/audio-mix). Los
+ * que no se envían toman el valor por defecto.
+ */
+export function parseAudioMixSettings(input: Record<string, any>): AudioMixSettings {
+  const { musicTrack, narration, ducking = {} } = input;
+  const defaults = DEFAULT_SETTINGS;
+
+  if (musicTrack !== undefined && musicTrack !== null && typeof musicTrack !== "string") {
+    throw new AudioMixError("musicTrack debe ser el id de una pista de la biblioteca");
+  }
+  if (narration !== undefined && typeof narration !== "boolean") {
+    throw new AudioMixError("narration debe ser booleano");
+  }
+  if (typeof ducking !== "object" || ducking === null || Array.isArray(ducking)) {
+    throw new AudioMixError("ducking debe ser un objeto");
+  }
+
+  const setting = (name: keyof AudioMixSettings, max: number) =>
+    readNumber(input[name], name, 0, max, defaults[name] as number);
+  const compressor = (name: keyof DuckingSettings, min: number, max: number) =>
+    readNumber(ducking[name], `ducking.${name}`, min, max, defaults.ducking[name]);
+
+  return {
+    musicTrack: musicTrack || null,
+    narration: narration ?? defaults.narration,
+    musicVolume: setting("musicVolume", 2),
+    narrationVolume: setting("narrationVolume", 4),
+    originalVolume: setting("originalVolume", 2),
+    narrationDelaySeconds: setting("narrationDelaySeconds", 60),
+    fadeSeconds: setting("fadeSeconds", 10),
+    ducking: {
+      threshold: compressor("threshold", 0.001, 1),
+      ratio: compressor("ratio", 1, 20),
+      attackMs: compressor("attackMs", 1, 2000),
+      releaseMs: compressor("releaseMs", 10, 9000),
+    },
+  };
+}
+
+interface MixInputs {
+  videoPath: string;
+  durationSeconds: number;
+  // El video ya trae sonido (se mezcla con originalVolume)
+  hasAudio: boolean;
+  // Se puede copiar el video sin recodificar (H.264 en MP4)
+  copyVideo: boolean;
+  musicPath: string | null;
+  narrationPath: string | null;
+}
+
+/**
+ * Grafo de filtros de la mezcla. La música se repite hasta cubrir el video, con
+ * fundidos de entrada y salida, y pasa por un compresor sidechain cuya señal de
+ * control es la narración: mientras se habla, la música baja. Todas las pistas se
+ * recortan a la duración del video antes de mezclarlas.
+ */
+function buildMixGraph(inputs: MixInputs, settings: AudioMixSettings): string {
+  const duration = inputs.durationSeconds.toFixed(3);
+  const filters: string[] = [];
+  const tracks: string[] = [];
+  let index = 1;
+
+  if (inputs.hasAudio && settings.originalVolume > 0) {
+    filters.push(
+      `[0:a]${MIX_FORMAT},volume=${settings.originalVolume},apad,atrim=duration=${duration}[original]`
+    );
+    tracks.push("[original]");
+  }
+
+  const musicInput = inputs.musicPath ? index++ : null;
+  const narrationInput = inputs.narrationPath ? index++ : null;
+
+  if (narrationInput !== null) {
+    const delayMs = Math.round(settings.narrationDelaySeconds * 1000);
+    // Con música la narración se duplica para controlar el ducking; sin ella una
+    // salida [sidechain] sin usar haría fallar a ffmpeg
+    filters.push(
+      `[${narrationInput}:a]${MIX_FORMAT},adelay=${delayMs}|${delayMs},` +
+        `volume=${settings.narrationVolume},apad,atrim=duration=${duration}` +
+        (musicInput !== null ? `,asplit=2[narration][sidechain]` : "[narration]")
+    );
+  }
+
+  if (musicInput !== null) {
+    const fade = Math.min(settings.fadeSeconds, inputs.durationSeconds / 2);
+    const fadeOutStart = (inputs.durationSeconds - fade).toFixed(3);
+    const music =
+      `[${musicInput}:a]${MIX_FORMAT},volume=${settings.musicVolume},atrim=duration=${duration}` +
+      (fade > 0 ? `,afade=t=in:d=${fade},afade=t=out:st=${fadeOutStart}:d=${fade}` : "");
+
+    filters.push(`${music}[music]`);
+
+    if (narrationInput !== null) {
+      const { threshold, ratio, attackMs, releaseMs } = settings.ducking;
+      filters.push(
+        `[music][sidechain]sidechaincompress=threshold=${threshold}:ratio=${ratio}:` +
+          `attack=${attackMs}:release=${releaseMs}[ducked]`
+      );
+      tracks.push("[ducked]");
+    } else {
+      tracks.push("[music]");
+    }
+  }
+
+  if (narrationInput !== null) tracks.push("[narration]");
+
+  // amix reparte el volumen entre las entradas; se compensa y se limita para no saturar
+  filters.push(
+    tracks.length > 1
+      ? `${tracks.join("")}amix=inputs=${tracks.length}:duration=longest:dropout_transition=0,` +
+          `volume=${tracks.length},alimiter=limit=0.95[mix]`
+      : `${tracks[0]}anull[mix]`
+  );
+  return filters.join(";");
+}
+
+// Función para mezclar el audio y escribir un video nuevo con la imagen del original
+async function renderMix(
+  inputs: MixInputs,
+  settings: AudioMixSettings,
+  outputPath: string
+): Promise<void> {
+  // Se lanza desde una petición HTTP, sin trabajo que cancelar: el límite es el tiempo
+  await execFileAsync(
+    "ffmpeg",
+    [
+      "-i",
+      inputs.videoPath,
+      ...(inputs.musicPath ? ["-stream_loop", "-1", "-i", inputs.musicPath] : []),
+      ...(inputs.narrationPath ? ["-i", inputs.narrationPath] : []),
+      "-filter_complex",
+      buildMixGraph(inputs, settings),
+      "-map",
+      "0:v:0",
+      "-map",
+      "[mix]",
+      ...(inputs.copyVideo
+        ? ["-c:v", "copy"]
+        : ["-c:v", "libx264", "-preset", "veryfast", "-crf", "20", "-pix_fmt", "yuv420p"]),
+      "-c:a",
+      "aac",
+      "-b:a",
+      "160k",
+      "-t",
+      inputs.durationSeconds.toFixed(3),
+      "-movflags",
+      "+faststart",
+      "-y",
+      outputPath,
+    ],
+    { timeout: FFMPEG_TIMEOUT_MS }
+  ).catch((error) => {
+    fs.rmSync(outputPath, { force: true });
+    throw error;
+  });
+
+  if (!fs.existsSync(outputPath) || fs.statSync(outputPath).size === 0) {
+    throw new Error(`ffmpeg no generó ${path.basename(outputPath)}`);
+  }
+}
+
+// Función para leer las mezclas guardadas en los metadatos de un video
+export function getAudioMixes(video: Video): AudioMixRecord[] {
+  const metadata = video.metadata ? JSON.parse(video.metadata) : {};
+  return metadata.audioMixes || [];
+}
+
+/**
+ * Mezcla música y/o narración con un video completado y la guarda como una
+ * variante nueva, que pasa a ser la principal. Se parte siempre de una variante
+ * sin mezclar (la principal o, si esta ya es una mezcla, la suya de origen) para
+ * no acumular pistas. Los ajustes quedan en metadata.audioMixes.
+ */
+export async function createAudioMix(
+  storage: StorageAdapter,
+  video: Video,
+  settings: AudioMixSettings
+): Promise<{ variant: VideoVariant; mix: AudioMixRecord }> {
+  const metadata = video.metadata ? JSON.parse(video.metadata) : {};
+  const mixes: AudioMixRecord[] = metadata.audioMixes || [];
+  const variants = await storage.getVideoVariants(video.id);
+
+  const primary =
+    variants.find((variant) => variant.id === video.primary_variant_id) || variants[0];
+  const previousMix = mixes.find((mix) => mix.variantId === primary?.id);
+  const source = previousMix
+    ? variants.find((variant) => variant.id === previousMix.sourceVariantId)
+    : primary;
+  const sourcePath = source ? fromPublicUrl(source.video_url) : null;
+  if (!source || !sourcePath || !fs.existsSync(sourcePath)) {
+    throw new AudioMixError("El video no tiene un archivo que mezclar");
+  }
+
+  let musicPath: string | null = null;
+  if (settings.musicTrack) {
+    musicPath = path.join(MUSIC_DIR, path.basename(settings.musicTrack));
+    if (!fs.existsSync(musicPath)) {
+      throw new AudioMixError(`La pista ${settings.musicTrack} no está en la biblioteca`);
+    }
+  }
+
+  const narrationUrl: string | null = settings.narration ? metadata.narrationUrl || null : null;
+  const narrationPath = narrationUrl ? fromPublicUrl(narrationUrl) : null;
+  if (narrationUrl && (!narrationPath || !fs.existsSync(narrationPath))) {
+    throw new AudioMixError("La narración adjunta ya no existe; súbela de nuevo");
+  }
+  if (!musicPath && !narrationPath) {
+    throw new AudioMixError("Elige una pista de música o adjunta una narración");
+  }
+
+  const sourceMedia: VideoMedia | null = source.media ? JSON.parse(source.media) : null;
+  const info = sourceMedia || (await probeMedia(sourcePath));
+  const name = `${path.parse(sourcePath).name}_audio${mixes.length + 1}`;
+  const outputPath = path.join(VIDEOS_DIR, `${name}.mp4`);
+
+  await renderMix(
+    {
+      videoPath: sourcePath,
+      durationSeconds: info.durationSeconds,
+      hasAudio: info.hasAudio,
+      copyVideo: info.videoCodec === "h264",
+      musicPath,
+      narrationPath,
+    },
+    settings,
+    outputPath
+  );
+
+  const outputInfo = await probeMedia(outputPath);
+  const media: VideoMedia = { ...outputInfo, mismatches: sourceMedia?.mismatches || [] };
+  const hls = await packageHls(outputPath, name, outputInfo);
+
+  // La imagen no cambia: se reutilizan el thumbnail y la previsualización del original
+  const { lastInsertRowid: variantId } = await storage.createVideoVariant({
+    video_id: video.id,
+    variant_index: Math.max(...variants.map((variant) => variant.variant_index)) + 1,
+    video_url: toPublicUrl(outputPath),
+    thumbnail_url: source.thumbnail_url,
+    preview_track_url: source.preview_track_url,
+    hls_url: hls?.masterUrl || null,
+    renditions: hls ? JSON.stringify(hls.renditions) : null,
+    media: JSON.stringify(media),
+  });
+
+  const variant = (await storage.getVideoVariants(video.id)).find((v) => v.id === variantId)!;
+  await storage.setPrimaryVariant(video.id, variant);
+
+  const mix: AudioMixRecord = {
+    ...settings,
+    variantId,
+    sourceVariantId: source.id,
+    musicUrl: musicPath ? toPublicUrl(musicPath) : null,
+    narrationUrl: narrationPath ? narrationUrl : null,
+    createdAt: new Date().toISOString(),
+  };
+  // La mezcla tarda: se relee el video para no pisar lo que otra petición guardó
+  // mientras tanto (subtítulos, narración, otra mezcla)
+  const current = (await storage.getVideoById(video.id)) || video;
+  const currentMetadata = current.metadata ? JSON.parse(current.metadata) : {};
+  await storage.updateVideoMetadata(
+    current.veo_job_id,
+    JSON.stringify({ ...currentMetadata, audioMixes: [...getAudioMixes(current), mix] })
+  );
+
+  console.log(`🎵 Video ${video.id}: audio mezclado en la variante ${variant.variant_index + 1}`);
+  return { variant, mix };
+}
@@ -0,0 +1,313 @@
+import type { StorageAdapter, Video, VideoBatch, VideoBatchItem } from "../database";
+import { BudgetExceededError, checkBudget } from "./costs";
+import { GenerationInputError, prepareGeneration } from "./generationInput";
+import { findCachedVideo, isForced } from "./resultCache";
+import type { VideoJobRunner } from "./videoJobs";
+
+// Máximo de filas por lote
+export const MAX_BATCH_ROWS = parseInt(process.env.MAX_BATCH_ROWS || "100");
+
+// Columnas admitidas en el CSV (la cabecera es obligatoria; no distingue mayúsculas)
+const CSV_COLUMNS: Record<string, string> = {
+  prompt: "prompt",
+  style: "style",
+  duration: "duration",
+  aspectratio: "aspectRatio",
+  aspect_ratio: "aspectRatio",
+  provider: "provider",
+  resolution: "resolution",
+  variants: "variants",
+  force: "force",
+  negativeprompt: "negativePrompt",
+  negative_prompt: "negativePrompt",
+  seed: "seed",
+  enhanceprompt: "enhancePrompt",
+  generateaudio: "generateAudio",
+};
+
+export type BatchRowStatus = Video["status"] | "invalid";
+
+export interface BatchRow {
+  itemId: number;
+  row: number;
+  input: Record<string, unknown>;
+  status: BatchRowStatus;
+  progress: number;
+  videoId: number | null;
+  jobId: string | null;
+  error?: string;
+  errorCategory?: string;
+  attempts: number;
+}
+
+export interface BatchStatus {
+  id: number;
+  name: string;
+  createdAt: string;
+  total: number;
+  counts: Record<BatchRowStatus, number>;
+  progress: number;
+  finished: boolean;
+  rows: BatchRow[];
+}
+
+/**
+ * Parser CSV mínimo (RFC 4180): comillas dobles, comillas escapadas ("") y saltos
+ * de línea dentro de un campo entrecomillado
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error("CSV mal formado: falta cerrar unas comillas");
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Se ignoran las líneas vacías
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+// Función para convertir un CSV con cabecera en filas de generación
+export function parseBatchCsv(text: string): Record<string, string>[] {
+  const [header, ...lines] = parseCsv(text.replace(/^\uFEFF/, ""));
+  if (!header) {
+    throw new Error("El CSV está vacío");
+  }
+
+  const columns = header.map((name) => CSV_COLUMNS[name.trim().toLowerCase()]);
+  const unknown = header.filter((_, index) => !columns[index]);
+  if (unknown.length > 0) {
+    throw new Error(
+      `Columnas desconocidas en el CSV: ${unknown.join(", ")}. Admitidas: ${[
+        ...new Set(Object.values(CSV_COLUMNS)),
+      ].join(", ")}`
+    );
+  }
+  if (!columns.includes("prompt")) {
+    throw new Error("El CSV debe tener una columna prompt");
+  }
+
+  return lines.map((cells) => {
+    const row: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      const value = (cells[index] || "").trim();
+      // Las celdas vacías toman el valor por defecto de /generate
+      if (value) row[column] = value;
+    });
+    return row;
+  });
+}
+
+/**
+ * Lanza y sigue lotes de generación. Cada fila se valida y se lanza igual que
+ * una petición a /generate; las que no pasan la validación o no caben en el
+ * presupuesto quedan como "invalid".
+ */
+export class BatchService {
+  constructor(
+    private readonly storage: StorageAdapter,
+    private readonly jobs: VideoJobRunner
+  ) {}
+
+  // Función para crear el lote y lanzar todas sus filas; devuelve el id del lote
+  async create(
+    name: string,
+    rows: Record<string, unknown>[],
+    userId?: string
+  ): Promise<number> {
+    const { lastInsertRowid: batchId } = await this.storage.createBatch({ name });
+
+    for (const [index, input] of rows.entries()) {
+      const item = {
+        batch_id: batchId,
+        row_number: index + 1,
+        input: JSON.stringify(input),
+      };
+      const { lastInsertRowid: id } = await this.storage.createBatchItem(item);
+      await this.launch({ ...item, id, attempts: 0 }, userId);
+    }
+
+    console.log(`📦 Lote ${batchId} (${name}) lanzado con ${rows.length} fila(s)`);
+    return batchId;
+  }
+
+  async getStatus(batchId: number): Promise<BatchStatus | null> {
+    const batch = await this.storage.getBatchById(batchId);
+    if (!batch) return null;
+
+    const items = await this.storage.getBatchItems(batchId);
+    const rows = await Promise.all(items.map((item) => this.toRow(item)));
+    return summarize(batch, rows);
+  }
+
+  async list(): Promise<Omit<BatchStatus, "rows">[]> {
+    const batches = await this.storage.getAllBatches();
+    return Promise.all(
+      batches.map(async (batch) => {
+        const { rows, ...summary } = (await this.getStatus(batch.id))!;
+        return summary;
+      })
+    );
+  }
+
+  /**
+   * Vuelve a lanzar las filas fallidas o canceladas (cada reintento crea un Video
+   * nuevo). Devuelve cuántas filas se han relanzado, o null si el lote no existe.
+   */
+  async retryFailed(batchId: number, userId?: string): Promise<number | null> {
+    const batch = await this.storage.getBatchById(batchId);
+    if (!batch) return null;
+
+    let retried = 0;
+    for (const item of await this.storage.getBatchItems(batchId)) {
+      const row = await this.toRow(item);
+      if (row.status !== "failed" && row.status !== "cancelled") continue;
+
+      await this.launch(item, userId);
+      retried++;
+    }
+
+    if (retried > 0) {
+      console.log(`🔁 Lote ${batchId}: ${retried} fila(s) relanzada(s)`);
+    }
+    return retried;
+  }
+
+  private async launch(
+    item: Pick<VideoBatchItem, "id" | "batch_id" | "row_number" | "input" | "attempts">,
+    userId?: string
+  ): Promise<void> {
+    const attempts = item.attempts + 1;
+
+    try {
+      const input = JSON.parse(item.input);
+      const generation = prepareGeneration(input);
+
+      // Las filas idénticas a un video ya generado lo reutilizan (salvo force=true)
+      const cached = isForced(input.force)
+        ? null
+        : await findCachedVideo(this.storage, generation.contentHash);
+      if (cached) {
+        await this.storage.updateBatchItem(item.id, {
+          video_id: cached.id,
+          job_id: cached.veo_job_id,
+          error: null,
+          attempts,
+        });
+        return;
+      }
+
+      // Cada fila se comprueba contra lo ya reservado por las anteriores
+      await checkBudget(this.storage, generation.estimate, userId);
+      const result = await this.jobs.start(generation.provider, generation.request, {
+        fallback: generation.fallback,
+        userId,
+        contentHash: generation.contentHash,
+        metadata: {
+          ...generation.metadata,
+          batchId: item.batch_id,
+          batchRow: item.row_number,
+        },
+      });
+
+      await this.storage.updateBatchItem(item.id, {
+        video_id: result.id,
+        job_id: result.jobId,
+        error: null,
+        attempts,
+      });
+    } catch (error) {
+      if (!(error instanceof GenerationInputError || error instanceof BudgetExceededError)) {
+        throw error;
+      }
+      await this.storage.updateBatchItem(item.id, { error: error.message, attempts });
+    }
+  }
+
+  // Estado de una fila: el del trabajo en curso o, si terminó, el persistido
+  private async toRow(item: VideoBatchItem): Promise<BatchRow> {
+    const base = {
+      itemId: item.id,
+      row: item.row_number,
+      input: JSON.parse(item.input),
+      videoId: item.video_id,
+      jobId: item.job_id,
+      attempts: item.attempts,
+    };
+
+    if (!item.job_id) {
+      return { ...base, status: "invalid", progress: 0, error: item.error || undefined };
+    }
+
+    const job = await this.jobs.get(item.job_id);
+    return {
+      ...base,
+      status: job?.status || "failed",
+      progress: job?.status === "completed" ? 100 : job?.progress || 0,
+      error: job?.error,
+      errorCategory: job?.errorCategory,
+    };
+  }
+}
+
+function summarize(batch: VideoBatch, rows: BatchRow[]): BatchStatus {
+  const counts: Record<BatchRowStatus, number> = {
+    queued: 0,
+    processing: 0,
+    completed: 0,
+    failed: 0,
+    cancelled: 0,
+    invalid: 0,
+  };
+  rows.forEach((row) => counts[row.status]++);
+
+  const launched = rows.filter((row) => row.status !== "invalid");
+  const progress = launched.length
+    ? Math.round(launched.reduce((sum, row) => sum + row.progress, 0) / launched.length)
+    : 0;
+
+  return {
+    id: batch.id,
+    name: batch.name,
+    createdAt: batch.created_at,
+    total: rows.length,
+    counts,
+    progress,
+    finished: counts.queued === 0 && counts.processing === 0,
+    rows,
+  };
+}
@@ -0,0 +1,294 @@
+import fs from "fs";
+import path from "path";
+import type { StorageAdapter, Video } from "../database";
+import { writeCaptionsWithAnthropic, type CaptionDraft } from "./anthropic";
+import { VIDEOS_DIR, fromPublicUrl, toPublicUrl } from "./media";
+import { toVttTimestamp, type VideoMedia } from "./mediaPipeline";
+
+// Dos líneas de unos 42 caracteres: lo que cabe leer de un vistazo
+const MAX_CUE_CHARS = 84;
+const MIN_CUE_SECONDS = 1;
+const MAX_CAPTION_TEXT_CHARS = 5000;
+
+// Nombres de los idiomas más habituales; cualquier otro código usa el propio código
+export const LANGUAGE_LABELS: Record<string, string> = {
+  es: "Español",
+  en: "English",
+  ca: "Català",
+  eu: "Euskara",
+  gl: "Galego",
+  fr: "Français",
+  pt: "Português",
+  de: "Deutsch",
+  it: "Italiano",
+};
+
+// Subtítulos no válidos (idioma, texto o tiempos); las rutas los devuelven como 400
+export class CaptionInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CaptionInputError";
+  }
+}
+
+export interface CaptionCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Pista de subtítulos guardada en metadata.captions del video. source indica si
+ * se escribió a mano, la escribió el LLM o, sin LLM, se repartió el texto.
+ */
+export interface CaptionTrack {
+  language: string;
+  label: string;
+  url: string;
+  source: "manual" | "llm" | "fallback";
+  cueCount: number;
+  createdAt: string;
+}
+
+export function getCaptionTracks(video: Video): CaptionTrack[] {
+  const metadata = video.metadata ? JSON.parse(video.metadata) : {};
+  return metadata.captions || [];
+}
+
+// Código de idioma BCP 47 sencillo: "es", "en", "pt-BR"...
+export function parseLanguage(value: string): string {
+  if (!/^[a-z]{2,3}(-[A-Z]{2})?$/.test(value)) {
+    throw new CaptionInputError(`Idioma inválido: ${value} (usa un código como "es" o "pt-BR")`);
+  }
+  return value;
+}
+
+// Duración real del video según ffprobe; sin análisis, la pedida
+export function getCaptionDuration(video: Video): number {
+  const media: VideoMedia | null = video.media ? JSON.parse(video.media) : null;
+  return media ? media.durationSeconds : video.duration_seconds;
+}
+
+// Trozos de un subtítulo: una línea del texto o, si es larga, sus frases y palabras
+function splitCaptionText(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .flatMap((line) => line.split(/(?<=[.!?…])\s+/))
+    .map((sentence) => sentence.trim())
+    .filter(Boolean)
+    .flatMap((sentence) => {
+      const chunks: string[] = [];
+      let current = "";
+      sentence.split(/\s+/).forEach((word) => {
+        if (current && current.length + word.length + 1 > MAX_CUE_CHARS) {
+          chunks.push(current);
+          current = word;
+        } else {
+          current = current ? `${current} ${word}` : word;
+        }
+      });
+      return current ? [...chunks, current] : chunks;
+    });
+}
+
+/**
+ * Función para repartir un texto en subtítulos a lo largo del video: cada trozo
+ * dura en proporción a su longitud. Con truncate se descartan los trozos que no
+ * caben (al menos MIN_CUE_SECONDS cada uno) en vez de rechazar el texto.
+ */
+export function timeCaptionText(
+  text: string,
+  durationSeconds: number,
+  truncate = false
+): CaptionCue[] {
+  const maxCues = Math.max(1, Math.floor(durationSeconds / MIN_CUE_SECONDS));
+  let chunks = splitCaptionText(text);
+
+  if (chunks.length === 0) {
+    throw new CaptionInputError("El texto de los subtítulos está vacío");
+  }
+  if (chunks.length > maxCues) {
+    if (!truncate) {
+      throw new CaptionInputError(
+        `El texto da para ${chunks.length} subtítulos y en ${Math.round(durationSeconds)} s ` +
+          `caben como mucho ${maxCues}`
+      );
+    }
+    chunks = chunks.slice(0, maxCues);
+  }
+
+  // Cada trozo tiene su segundo mínimo y el resto del tiempo se reparte por caracteres
+  const spare = durationSeconds - chunks.length * MIN_CUE_SECONDS;
+  const totalChars = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  let start = 0;
+
+  return chunks.map((chunk) => {
+    const end = start + MIN_CUE_SECONDS + (spare * chunk.length) / totalChars;
+    const cue = { start: round(start), end: round(end), text: chunk };
+    start = end;
+    return cue;
+  });
+}
+
+/**
+ * Función para validar subtítulos con tiempos (escritos a mano o por el LLM):
+ * se ordenan, se recortan a la duración del video y no se solapan. Si el último
+ * acaba después del video se reescalan todos, porque el LLM no siempre acierta.
+ */
+export function normalizeCues(input: unknown, durationSeconds: number): CaptionCue[] {
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new CaptionInputError("cues debe ser un array con al menos un subtítulo");
+  }
+
+  const cues = (input as Partial<CaptionDraft>[]).map((cue, index) => {
+    const { start, end, text } = cue || {};
+    if (typeof start !== "number" || typeof end !== "number" || !(end > start) || start < 0) {
+      throw new CaptionInputError(`El subtítulo ${index + 1} tiene tiempos inválidos`);
+    }
+    if (typeof text !== "string" || !text.trim()) {
+      throw new CaptionInputError(`El subtítulo ${index + 1} no tiene texto`);
+    }
+    return { start, end, text: text.trim() };
+  });
+
+  cues.sort((a, b) => a.start - b.start);
+  const lastEnd = cues[cues.length - 1].end;
+  const scale = lastEnd > durationSeconds ? durationSeconds / lastEnd : 1;
+
+  // Dos subtítulos que empiezan a la vez dejan al primero sin tiempo: se descarta
+  return cues
+    .map((cue, index) => {
+      const next = cues[index + 1];
+      const end = Math.min(cue.end, next ? next.start : Infinity) * scale;
+      return { start: round(cue.start * scale), end: round(end), text: cue.text };
+    })
+    .filter((cue) => cue.end > cue.start);
+}
+
+// Texto libre de la petición (subtítulos a mano o guion de la narración)
+export function readCaptionText(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value !== "string") {
+    throw new CaptionInputError(`${field} debe ser texto`);
+  }
+  if (value.length > MAX_CAPTION_TEXT_CHARS) {
+    throw new CaptionInputError(`${field} no puede superar ${MAX_CAPTION_TEXT_CHARS} caracteres`);
+  }
+  return value.trim();
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+// WebVTT no admite "-->" en el texto y &, < deben ir escapados
+function escapeCueText(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/-->/g, "->");
+}
+
+/**
+ * Función para guardar una pista de subtítulos: el WebVTT se escribe junto al
+ * video (<video>.<idioma>.vtt) y la pista sustituye a la del mismo idioma en
+ * metadata.captions.
+ */
+export async function saveCaptions(
+  storage: StorageAdapter,
+  video: Video,
+  language: string,
+  cues: CaptionCue[],
+  source: CaptionTrack["source"],
+  label?: string
+): Promise<CaptionTrack> {
+  const videoPath = video.video_url ? fromPublicUrl(video.video_url) : null;
+  const baseName = videoPath ? path.parse(videoPath).name : `video_${video.id}`;
+  const captionPath = path.join(VIDEOS_DIR, `${baseName}.${language}.vtt`);
+
+  const body = cues
+    .map((cue) => {
+      const timing = `${toVttTimestamp(cue.start)} --> ${toVttTimestamp(cue.end)}`;
+      return `${timing}\n${escapeCueText(cue.text)}`;
+    })
+    .join("\n\n");
+  fs.writeFileSync(captionPath, `WEBVTT\n\n${body}\n`);
+
+  const track: CaptionTrack = {
+    language,
+    label: label || LANGUAGE_LABELS[language] || language,
+    url: toPublicUrl(captionPath),
+    source,
+    cueCount: cues.length,
+    createdAt: new Date().toISOString(),
+  };
+
+  // Se relee el video por si otra petición cambió la metadata mientras tanto
+  const current = (await storage.getVideoById(video.id)) || video;
+  const metadata = current.metadata ? JSON.parse(current.metadata) : {};
+  const others = getCaptionTracks(current).filter((other) => other.language !== language);
+  await storage.updateVideoMetadata(
+    current.veo_job_id,
+    JSON.stringify({ ...metadata, captions: [...others, track] })
+  );
+
+  console.log(`💬 Video ${video.id}: subtítulos ${language} (${source}, ${cues.length} líneas)`);
+  return track;
+}
+
+/**
+ * Función para generar subtítulos con el LLM a partir del prompt optimizado y
+ * del guion de la narración. Si el LLM no está disponible o responde algo
+ * inservible se reparte el guion (o, sin guion, el prompt) a lo largo del video.
+ */
+export async function generateCaptions(
+  video: Video,
+  language: string,
+  script?: string
+): Promise<{ cues: CaptionCue[]; source: "llm" | "fallback" }> {
+  const metadata = video.metadata ? JSON.parse(video.metadata) : {};
+  const durationSeconds = getCaptionDuration(video);
+  const originalPrompt: string = metadata.originalPrompt || "";
+
+  try {
+    const drafts = await writeCaptionsWithAnthropic({
+      originalPrompt,
+      optimizedPrompt: metadata.optimizedPrompt,
+      script,
+      language,
+      durationSeconds: Math.round(durationSeconds),
+    });
+    return { cues: normalizeCues(drafts, durationSeconds), source: "llm" };
+  } catch (error) {
+    console.warn(
+      `⚠️ Subtítulos del video ${video.id} sin LLM:`,
+      error instanceof Error ? error.message : error
+    );
+  }
+
+  const text = script || metadata.optimizedPrompt || originalPrompt;
+  return { cues: timeCaptionText(text, durationSeconds, true), source: "fallback" };
+}
+
+// Función para borrar una pista de subtítulos; false si el video no la tenía
+export async function deleteCaptions(
+  storage: StorageAdapter,
+  video: Video,
+  language: string
+): Promise<boolean> {
+  // Como en saveCaptions, se relee para no perder otra pista guardada mientras tanto
+  const current = (await storage.getVideoById(video.id)) || video;
+  const tracks = getCaptionTracks(current);
+  const track = tracks.find((candidate) => candidate.language === language);
+  if (!track) return false;
+
+  const captionPath = fromPublicUrl(track.url);
+  if (captionPath) fs.rmSync(captionPath, { force: true });
+
+  const metadata = current.metadata ? JSON.parse(current.metadata) : {};
+  await storage.updateVideoMetadata(
+    current.veo_job_id,
+    JSON.stringify({
+      ...metadata,
+      captions: tracks.filter((candidate) => candidate !== track),
+    })
+  );
+  return true;
+}
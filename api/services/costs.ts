@@ -0,0 +1,146 @@
+import type { StorageAdapter } from "../database";
+import type { GenerationRequest, VideoProvider } from "../providers/types";
+
+// Presupuesto mensual total y por usuario en USD (vacío o 0 = sin límite)
+const MONTHLY_BUDGET_USD = parseFloat(process.env.MONTHLY_BUDGET_USD || "0");
+const USER_MONTHLY_BUDGET_USD = parseFloat(process.env.USER_MONTHLY_BUDGET_USD || "0");
+
+export interface CostEstimate {
+  amount: number;
+  currency: "USD";
+  perSecond: number;
+  seconds: number;
+  variants: number;
+}
+
+export interface BudgetUsage {
+  limit: number;
+  spent: number;
+  remaining: number;
+}
+
+export interface BudgetStatus {
+  period: { from: string };
+  monthly: BudgetUsage | null;
+  user: (BudgetUsage & { userId: string }) | null;
+}
+
+// Presupuesto superado; las rutas la devuelven como 402 con sus detalles
+export class BudgetExceededError extends Error {
+  constructor(
+    message: string,
+    readonly details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = "BudgetExceededError";
+  }
+}
+
+// Función para leer el precio de entorno: VEO3_COST_PER_SECOND, SORA_COST_PER_SECOND...
+function readEnvPrice(providerId: string): number | undefined {
+  const key = `${providerId.toUpperCase().replace(/[^A-Z0-9]/g, "_")}_COST_PER_SECOND`;
+  const value = parseFloat(process.env[key] || "");
+  return isNaN(value) || value < 0 ? undefined : value;
+}
+
+// Presupuestos por usuario con USER_BUDGETS_USD=ana:20,luis:50; el resto usa el general
+function readUserBudgets(): Record<string, number> {
+  const budgets: Record<string, number> = {};
+  (process.env.USER_BUDGETS_USD || "").split(",").forEach((entry) => {
+    const [userId, amount] = entry.split(":").map((part) => part.trim());
+    if (userId && !isNaN(parseFloat(amount))) {
+      budgets[userId] = parseFloat(amount);
+    }
+  });
+  return budgets;
+}
+
+// Precio por segundo efectivo de un proveedor para una resolución
+export function getPricePerSecond(provider: VideoProvider, resolution = "720"): number {
+  return (
+    readEnvPrice(provider.id) ?? provider.pricing?.perSecondByResolution[resolution] ?? 0
+  );
+}
+
+// Función para estimar el coste de una petición: precio × segundos × variantes
+export function estimateCost(
+  provider: VideoProvider,
+  request: Pick<GenerationRequest, "durationSeconds" | "resolution" | "variants">
+): CostEstimate {
+  const perSecond = getPricePerSecond(provider, request.resolution);
+  const variants = request.variants || 1;
+  return {
+    amount: roundUsd(perSecond * request.durationSeconds * variants),
+    currency: "USD",
+    perSecond,
+    seconds: request.durationSeconds,
+    variants,
+  };
+}
+
+// Función para calcular el coste real: precio × segundos de cada variante generada
+export function computeActualCost(
+  provider: VideoProvider,
+  resolution: string | undefined,
+  secondsPerVariant: number[]
+): number {
+  const perSecond = getPricePerSecond(provider, resolution);
+  return roundUsd(secondsPerVariant.reduce((total, seconds) => total + perSecond * seconds, 0));
+}
+
+function roundUsd(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Inicio del mes en curso (UTC), en formato ISO como created_at
+function startOfMonth(): string {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString();
+}
+
+/**
+ * Gasto del mes frente a los presupuestos configurados. El gasto incluye lo
+ * estimado de los videos que aún se están generando.
+ */
+export async function getBudgetStatus(
+  storage: StorageAdapter,
+  userId?: string
+): Promise<BudgetStatus> {
+  const from = startOfMonth();
+  const usage = async (limit: number, user?: string): Promise<BudgetUsage> => {
+    const spent = roundUsd(await storage.getSpendSince(from, user));
+    return { limit, spent, remaining: roundUsd(Math.max(0, limit - spent)) };
+  };
+
+  const userLimit = userId ? readUserBudgets()[userId] ?? USER_MONTHLY_BUDGET_USD : 0;
+
+  return {
+    period: { from },
+    monthly: MONTHLY_BUDGET_USD > 0 ? await usage(MONTHLY_BUDGET_USD) : null,
+    user: userId && userLimit > 0 ? { userId, ...(await usage(userLimit, userId)) } : null,
+  };
+}
+
+// Función para comprobar que el coste cabe en los presupuestos; lanza BudgetExceededError
+export async function checkBudget(
+  storage: StorageAdapter,
+  estimate: CostEstimate,
+  userId?: string
+): Promise<BudgetStatus> {
+  const budget = await getBudgetStatus(storage, userId);
+
+  if (budget.monthly && estimate.amount > budget.monthly.remaining) {
+    throw new BudgetExceededError("La generación supera el presupuesto mensual", {
+      estimate,
+      budget: budget.monthly,
+    });
+  }
+  if (budget.user && estimate.amount > budget.user.remaining) {
+    throw new BudgetExceededError(
+      `La generación supera el presupuesto mensual del usuario ${budget.user.userId}`,
+      { estimate, budget: budget.user }
+    );
+  }
+
+  return budget;
+}
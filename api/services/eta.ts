@@ -0,0 +1,120 @@
+import type { StorageAdapter, VideoJobRecord } from "../database";
+import type { GenerationRequest } from "../providers/types";
+
+// Trabajos recientes de cada proveedor que se tienen en cuenta
+const ETA_WINDOW_SIZE = parseInt(process.env.ETA_WINDOW_SIZE || "50");
+// Por debajo de este número de muestras se usa la estimación por defecto
+const ETA_MIN_SAMPLES = parseInt(process.env.ETA_MIN_SAMPLES || "3");
+
+// Estimación por defecto: 30 segundos por segundo de video (entre 15 y 60)
+const DEFAULT_SECONDS_PER_SECOND = { min: 15, expected: 30, max: 60 };
+
+export interface EtaRange {
+  min: number;
+  max: number;
+}
+
+// Tiempo total estimado desde el envío hasta que el video está listo, en segundos
+export interface EtaEstimate {
+  // Mediana (p50)
+  expected: number;
+  // Entre p10 y p90
+  range: EtaRange;
+  // "history" si sale de trabajos terminados; "default" si aún no hay bastantes
+  source: "history" | "default";
+  samples: number;
+}
+
+// Percentil por el método del rango más cercano sobre valores ordenados
+function percentile(sorted: number[], p: number): number {
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))];
+}
+
+/**
+ * Segundos de espera por segundo de video de un trabajo terminado. Tras un
+ * fallback se cuenta desde que empezó el intento con el proveedor que lo generó
+ */
+function toSample(record: VideoJobRecord): number | null {
+  if (!record.completed_at) return null;
+  const request: GenerationRequest = JSON.parse(record.request);
+  const fallback = record.fallback ? JSON.parse(record.fallback) : null;
+  const startedAt = fallback?.startedAt || record.created_at;
+  const elapsedSeconds =
+    (new Date(record.completed_at).getTime() - new Date(startedAt).getTime()) / 1000;
+  if (!request.durationSeconds || elapsedSeconds <= 0) return null;
+  return elapsedSeconds / request.durationSeconds;
+}
+
+/**
+ * Modelo de tiempos de generación por proveedor. Guarda una ventana móvil con
+ * los segundos de espera por segundo de video de los últimos trabajos
+ * completados (del envío al final, incluida la cola) y estima con sus percentiles.
+ */
+export class EtaModel {
+  private readonly samples = new Map<string, number[]>();
+
+  // Carga la ventana de cada proveedor con sus últimos trabajos completados
+  async load(storage: StorageAdapter, providerIds: string[]): Promise<void> {
+    for (const providerId of providerIds) {
+      const records = await storage.getCompletedJobs(providerId, ETA_WINDOW_SIZE);
+      // Vienen del más reciente al más antiguo
+      const samples = records
+        .map(toSample)
+        .filter((sample): sample is number => sample !== null)
+        .reverse();
+      this.samples.set(providerId, samples);
+    }
+  }
+
+  // Añade la duración real de un trabajo completado
+  record(providerId: string, durationSeconds: number, elapsedSeconds: number): void {
+    if (!durationSeconds || elapsedSeconds <= 0) return;
+    const samples = this.samples.get(providerId) || [];
+    samples.push(elapsedSeconds / durationSeconds);
+    if (samples.length > ETA_WINDOW_SIZE) {
+      samples.splice(0, samples.length - ETA_WINDOW_SIZE);
+    }
+    this.samples.set(providerId, samples);
+  }
+
+  // Función para estimar cuánto tardará un video de esta duración con el proveedor
+  estimate(providerId: string, durationSeconds: number): EtaEstimate {
+    const samples = this.samples.get(providerId) || [];
+
+    if (samples.length < ETA_MIN_SAMPLES) {
+      return {
+        expected: durationSeconds * DEFAULT_SECONDS_PER_SECOND.expected,
+        range: {
+          min: durationSeconds * DEFAULT_SECONDS_PER_SECOND.min,
+          max: durationSeconds * DEFAULT_SECONDS_PER_SECOND.max,
+        },
+        source: "default",
+        samples: samples.length,
+      };
+    }
+
+    const sorted = [...samples].sort((a, b) => a - b);
+    return {
+      expected: Math.round(percentile(sorted, 50) * durationSeconds),
+      range: {
+        min: Math.round(percentile(sorted, 10) * durationSeconds),
+        max: Math.round(percentile(sorted, 90) * durationSeconds),
+      },
+      source: "history",
+      samples: samples.length,
+    };
+  }
+}
+
+// Función para calcular el tiempo restante a partir de la estimación total
+export function remainingTime(
+  estimate: { expected: number; range: EtaRange },
+  elapsedSeconds: number
+): { expected: number; range: EtaRange } {
+  const left = (seconds: number) => Math.max(0, Math.round(seconds - elapsedSeconds));
+  return {
+    expected: left(estimate.expected),
+    range: { min: left(estimate.range.min), max: left(estimate.range.max) },
+  };
+}
@@ -0,0 +1,268 @@
+import { getFallbackChain, getProvider, listProviders } from "../providers/registry";
+import { estimateCost, type CostEstimate } from "./costs";
+import { resolveReferenceImage } from "./referenceImages";
+import { computeContentHash } from "./resultCache";
+import {
+  ADVANCED_PARAMETERS,
+  type AdvancedParameter,
+  type AspectRatio,
+  type GenerationRequest,
+  type ReferenceImage,
+  type VideoProvider,
+} from "../providers/types";
+
+// Semilla máxima (entero sin signo de 32 bits)
+const MAX_SEED = 4294967295;
+
+// Petición de generación no válida; las rutas la devuelven como 400 con sus detalles
+export class GenerationInputError extends Error {
+  constructor(
+    message: string,
+    readonly details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = "GenerationInputError";
+  }
+}
+
+// Todo lo necesario para lanzar un trabajo con VideoJobRunner.start
+export interface PreparedGeneration {
+  provider: VideoProvider;
+  request: GenerationRequest;
+  fallback: string[];
+  promptId?: number;
+  // Metadatos que se guardan en la fila de Video
+  metadata: Record<string, unknown>;
+  estimate: CostEstimate;
+  // Identifica peticiones equivalentes para reutilizar un video ya generado
+  contentHash: string;
+}
+
+/**
+ * Valida los campos de una petición de generación (cuerpo de /generate o fila de
+ * un lote) y los normaliza. Lanza GenerationInputError con el motivo.
+ */
+export function prepareGeneration(input: Record<string, unknown>): PreparedGeneration {
+  const {
+    prompt,
+    promptId,
+    duration,
+    aspectRatio = "16:9",
+    style = "cinematic",
+    resolution = "720",
+    provider: providerId = "veo3",
+    variants = 1,
+    referenceImage,
+    negativePrompt,
+    seed,
+    enhancePrompt,
+    generateAudio,
+    fallback,
+    metadata: requestMetadata = {},
+  } = input as Record<string, any>;
+
+  if (!prompt || typeof prompt !== "string") {
+    throw new GenerationInputError("El prompt es requerido");
+  }
+
+  if (typeof requestMetadata !== "object" || Array.isArray(requestMetadata)) {
+    throw new GenerationInputError("metadata debe ser un objeto");
+  }
+
+  // Los proveedores internos no generan a partir de un prompt
+  const provider = getProvider(providerId);
+  if (!provider || provider.internal) {
+    throw new GenerationInputError(`Proveedor desconocido: ${providerId}`, {
+      availableProviders: listProviders().map((p) => p.id),
+    });
+  }
+
+  if (!provider.capabilities.aspectRatios.includes(aspectRatio)) {
+    throw new GenerationInputError(
+      `${provider.name} no admite la relación de aspecto ${aspectRatio}`,
+      { supportedAspectRatios: provider.capabilities.aspectRatios }
+    );
+  }
+
+  // fallback: lista de ids de proveedor o "none"; sin él se usa la cadena global
+  if (
+    fallback !== undefined &&
+    fallback !== "none" &&
+    !(Array.isArray(fallback) && fallback.every((id) => typeof id === "string"))
+  ) {
+    throw new GenerationInputError('fallback debe ser una lista de proveedores o "none"');
+  }
+
+  const unknownFallback = Array.isArray(fallback)
+    ? fallback.find((id: string) => !listProviders().some((p) => p.id === id))
+    : undefined;
+  if (unknownFallback) {
+    throw new GenerationInputError(`Proveedor de respaldo desconocido: ${unknownFallback}`, {
+      availableProviders: listProviders().map((p) => p.id),
+    });
+  }
+
+  // Las filas de un CSV traen la duración como texto
+  const durationSeconds = duration
+    ? Number(duration)
+    : provider.capabilities.defaultDurationSeconds;
+  if (!Number.isFinite(durationSeconds) || durationSeconds <= 0) {
+    throw new GenerationInputError("La duración debe ser un número de segundos");
+  }
+  const maxDurationSeconds = provider.capabilities.maxDurationSeconds;
+  if (durationSeconds > maxDurationSeconds) {
+    throw new GenerationInputError(
+      `${provider.name} genera videos de hasta ${maxDurationSeconds} segundos`,
+      { maxDurationSeconds }
+    );
+  }
+
+  const variantCount = Number(variants);
+  const maxVariants = provider.capabilities.maxVariants;
+  if (!Number.isInteger(variantCount) || variantCount < 1 || variantCount > maxVariants) {
+    throw new GenerationInputError(
+      `${provider.name} admite entre 1 y ${maxVariants} variante(s) por generación`,
+      { maxVariants }
+    );
+  }
+
+  if (!provider.capabilities.resolutions.includes(String(resolution))) {
+    throw new GenerationInputError(
+      `${provider.name} no admite la resolución ${resolution}`,
+      { supportedResolutions: provider.capabilities.resolutions }
+    );
+  }
+
+  const parameters = parseAdvancedParameters(
+    { negativePrompt, seed, enhancePrompt, generateAudio },
+    provider
+  );
+
+  // referenceImage: URL devuelta por POST /api/videos/reference-images
+  let image: ReferenceImage | null = null;
+  if (referenceImage) {
+    if (!provider.capabilities.imageToVideo) {
+      throw new GenerationInputError(
+        `${provider.name} no admite generar video a partir de una imagen`,
+        {
+          imageProviders: listProviders()
+            .filter((p) => p.capabilities.imageToVideo)
+            .map((p) => p.id),
+        }
+      );
+    }
+
+    if (typeof referenceImage === "string") {
+      image = resolveReferenceImage(referenceImage);
+    }
+    if (!image) {
+      throw new GenerationInputError(
+        "La imagen de referencia no existe; súbela con POST /api/videos/reference-images"
+      );
+    }
+  }
+
+  const request: GenerationRequest = {
+    prompt,
+    durationSeconds,
+    aspectRatio: aspectRatio as AspectRatio,
+    resolution: String(resolution),
+    style,
+    variants: variantCount,
+    ...(image && { image }),
+    ...parameters,
+    metadata: requestMetadata,
+  };
+
+  try {
+    provider.validateRequest?.(request);
+  } catch (validationError) {
+    throw new GenerationInputError(
+      validationError instanceof Error ? validationError.message : "Petición no válida"
+    );
+  }
+
+  // El hash usa la seed pedida, no la elegida al azar, para que dos peticiones
+  // iguales sin seed coincidan
+  const contentHash = computeContentHash(provider.id, request);
+
+  // Si el proveedor admite seed y no se indica, se elige una al azar para poder
+  // regenerar el mismo resultado
+  if (request.seed === undefined && provider.capabilities.advancedParameters.includes("seed")) {
+    parameters.seed = Math.floor(Math.random() * (MAX_SEED + 1));
+    request.seed = parameters.seed;
+  }
+
+  return {
+    provider,
+    request,
+    fallback: getFallbackChain(provider.id, fallback),
+    promptId: promptId || undefined,
+    estimate: estimateCost(provider, request),
+    contentHash,
+    metadata: {
+      ...requestMetadata,
+      provider: provider.id,
+      resolution: request.resolution,
+      aspectRatio,
+      style,
+      variants: variantCount,
+      ...(image && { referenceImageUrl: image.url }),
+      ...parameters,
+      originalPrompt: prompt,
+    },
+  };
+}
+
+type AdvancedParameters = Pick<GenerationRequest, AdvancedParameter>;
+
+// Las filas de un CSV traen los booleanos como texto
+function toBoolean(value: unknown): boolean | undefined {
+  if (value === true || value === "true") return true;
+  if (value === false || value === "false") return false;
+  return undefined;
+}
+
+/**
+ * Valida los parámetros avanzados contra las capacidades del proveedor. Los que
+ * vienen vacíos se ignoran.
+ */
+function parseAdvancedParameters(
+  input: Record<AdvancedParameter, unknown>,
+  provider: VideoProvider
+): AdvancedParameters {
+  const supported = provider.capabilities.advancedParameters;
+  const parameters: AdvancedParameters = {};
+
+  for (const name of ADVANCED_PARAMETERS) {
+    const value = input[name];
+    if (value === undefined || value === null || value === "") continue;
+
+    if (!supported.includes(name)) {
+      throw new GenerationInputError(`${provider.name} no admite el parámetro ${name}`, {
+        supportedParameters: supported,
+      });
+    }
+
+    if (name === "negativePrompt") {
+      if (typeof value !== "string") {
+        throw new GenerationInputError("negativePrompt debe ser un texto");
+      }
+      parameters.negativePrompt = value.trim();
+    } else if (name === "seed") {
+      const seed = Number(value);
+      if (!Number.isInteger(seed) || seed < 0 || seed > MAX_SEED) {
+        throw new GenerationInputError(`seed debe ser un entero entre 0 y ${MAX_SEED}`);
+      }
+      parameters.seed = seed;
+    } else {
+      const flag = toBoolean(value);
+      if (flag === undefined) {
+        throw new GenerationInputError(`${name} debe ser true o false`);
+      }
+      parameters[name] = flag;
+    }
+  }
+
+  return parameters;
+}
@@ -0,0 +1,80 @@
+import fs from "fs";
+import path from "path";
+import axios from "axios";
+
+export const UPLOADS_DIR = path.join(process.cwd(), "uploads");
+export const VIDEOS_DIR = path.join(UPLOADS_DIR, "videos");
+export const THUMBNAILS_DIR = path.join(UPLOADS_DIR, "thumbnails");
+export const IMAGES_DIR = path.join(UPLOADS_DIR, "images");
+export const HLS_DIR = path.join(UPLOADS_DIR, "hls");
+// Biblioteca de música libre de derechos (los archivos se copian a mano) y narraciones subidas
+export const MUSIC_DIR = path.join(UPLOADS_DIR, "audio", "music");
+export const NARRATION_DIR = path.join(UPLOADS_DIR, "audio", "narration");
+
+// Función para crear los directorios de uploads si no existen
+export function ensureUploadDirs(): void {
+  [
+    UPLOADS_DIR,
+    VIDEOS_DIR,
+    THUMBNAILS_DIR,
+    IMAGES_DIR,
+    HLS_DIR,
+    MUSIC_DIR,
+    NARRATION_DIR,
+  ].forEach((dir) => {
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+  });
+}
+
+export interface OutputPaths {
+  videoPath: string;
+  thumbnailPath: string;
+}
+
+// Función para obtener las rutas de salida de un trabajo
+export function getOutputPaths(jobId: string, videoExtension = ".mp4"): OutputPaths {
+  ensureUploadDirs();
+  return {
+    videoPath: path.join(VIDEOS_DIR, `${jobId}${videoExtension}`),
+    thumbnailPath: path.join(THUMBNAILS_DIR, `${jobId}.jpg`),
+  };
+}
+
+// Función para convertir una ruta bajo uploads/ en URL pública
+export function toPublicUrl(filePath: string): string {
+  return `/uploads/${path
+    .relative(UPLOADS_DIR, filePath)
+    .split(path.sep)
+    .join("/")}`;
+}
+
+// Función inversa de toPublicUrl; null si la URL no apunta a un archivo de uploads/
+export function fromPublicUrl(url: string): string | null {
+  if (!url.startsWith("/uploads/")) return null;
+
+  const filePath = path.resolve(UPLOADS_DIR, url.slice("/uploads/".length));
+  return filePath.startsWith(UPLOADS_DIR + path.sep) ? filePath : null;
+}
+
+// Función para descargar un archivo remoto en streaming
+export async function downloadFile(
+  url: string,
+  destinationPath: string,
+  headers: Record<string, string> = {}
+): Promise<void> {
+  const response = await axios.get(url, {
+    responseType: "stream",
+    timeout: 60000, // 1 minuto timeout
+    headers,
+  });
+
+  const writer = fs.createWriteStream(destinationPath);
+  response.data.pipe(writer);
+
+  await new Promise<void>((resolve, reject) => {
+    writer.on("finish", () => resolve());
+    writer.on("error", reject);
+  });
+}
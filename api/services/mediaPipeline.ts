@@ -0,0 +1,303 @@
+import fs from "fs";
+import path from "path";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import type { AspectRatio, GenerationRequest } from "../providers/types";
+import { toPublicUrl } from "./media";
+
+const execFileAsync = promisify(execFile);
+
+// Un archivo corrupto puede dejar ffmpeg colgado: pasado este tiempo se detiene (ms)
+export const FFMPEG_TIMEOUT_MS = parseInt(process.env.FFMPEG_TIMEOUT_MS || "600000");
+// ffprobe solo lee cabeceras: si tarda más, el archivo está dañado
+export const FFPROBE_TIMEOUT_MS = 30000;
+
+// Fotogramas como máximo en el sprite de previsualización y separación mínima (s)
+const SPRITE_MAX_FRAMES = 25;
+const SPRITE_MIN_INTERVAL_SECONDS = 1;
+const SPRITE_COLUMNS = 5;
+// Ancho de cada fotograma del sprite; el alto sigue la relación de aspecto del video
+const SPRITE_TILE_WIDTH = 160;
+
+// Imágenes de previsualización de un video; todas las rutas existen en disco
+export interface PreviewAssets {
+  // Fotograma representativo (.jpg) o, si ffmpeg falla, un placeholder .svg
+  thumbnailPath: string;
+  // Sprite con fotogramas a intervalos regulares y la pista WebVTT que los recorre
+  spritePath: string | null;
+  previewTrackPath: string | null;
+}
+
+export interface VideoInfo {
+  durationSeconds: number;
+  width: number;
+  height: number;
+}
+
+// Datos reales del archivo descargado según ffprobe
+export interface MediaInfo extends VideoInfo {
+  videoCodec: string;
+  audioCodec: string | null;
+  hasAudio: boolean;
+  // Bits por segundo del archivo completo
+  bitrate: number | null;
+  frameRate: number | null;
+  fileSize: number;
+}
+
+// Diferencia entre lo pedido al proveedor y lo que devolvió
+export interface MediaMismatch {
+  field: "aspectRatio" | "duration";
+  requested: string | number;
+  actual: string | number;
+}
+
+// Campo media de cada video y variante (JSON en la columna media)
+export interface VideoMedia extends MediaInfo {
+  mismatches: MediaMismatch[];
+}
+
+// Tolerancias: 2 % en la relación de aspecto y 10 % (mínimo 1 s) en la duración
+const ASPECT_RATIO_TOLERANCE = 0.02;
+const DURATION_TOLERANCE = 0.1;
+
+// "30000/1001" → 29.97
+function parseFrameRate(value: string | undefined): number | null {
+  const [numerator, denominator] = (value || "").split("/").map(Number);
+  if (!numerator || !denominator) return null;
+  return Math.round((numerator / denominator) * 100) / 100;
+}
+
+/**
+ * Función para analizar un video con ffprobe: duración, dimensiones, códecs,
+ * bitrate, fotogramas por segundo, si tiene audio y tamaño del archivo
+ */
+export async function probeMedia(videoPath: string, signal?: AbortSignal): Promise<MediaInfo> {
+  const { stdout } = await execFileAsync(
+    "ffprobe",
+    [
+      "-v",
+      "error",
+      "-show_entries",
+      "stream=codec_type,codec_name,width,height,avg_frame_rate:format=duration,bit_rate,size",
+      "-of",
+      "json",
+      videoPath,
+    ],
+    { timeout: FFPROBE_TIMEOUT_MS, signal }
+  );
+  const data = JSON.parse(stdout);
+  const streams: Record<string, any>[] = data.streams || [];
+  const video = streams.find((stream) => stream.codec_type === "video");
+  const audio = streams.find((stream) => stream.codec_type === "audio");
+
+  const info: MediaInfo = {
+    durationSeconds: parseFloat(data.format?.duration),
+    width: video?.width,
+    height: video?.height,
+    videoCodec: video?.codec_name,
+    audioCodec: audio?.codec_name || null,
+    hasAudio: !!audio,
+    bitrate: parseInt(data.format?.bit_rate) || null,
+    frameRate: parseFrameRate(video?.avg_frame_rate),
+    fileSize: parseInt(data.format?.size) || fs.statSync(videoPath).size,
+  };
+  if (!(info.durationSeconds > 0) || !info.width || !info.height) {
+    throw new Error(`ffprobe no devolvió duración o dimensiones de ${videoPath}`);
+  }
+  return info;
+}
+
+// Relación de aspecto más cercana a unas dimensiones ("16:9", "9:16", "1:1" o "1280:536")
+function describeAspectRatio(width: number, height: number): string {
+  const known: AspectRatio[] = ["16:9", "9:16", "1:1"];
+  const match = known.find((ratio) => {
+    const [w, h] = ratio.split(":").map(Number);
+    return Math.abs(width / height - w / h) / (w / h) <= ASPECT_RATIO_TOLERANCE;
+  });
+  return match || `${width}:${height}`;
+}
+
+/**
+ * Función para comparar el archivo con la petición y anotar las diferencias de
+ * relación de aspecto y duración (Veo, por ejemplo, ignora la duración pedida)
+ */
+export function checkMedia(
+  info: MediaInfo,
+  request: Pick<GenerationRequest, "aspectRatio" | "durationSeconds">
+): VideoMedia {
+  const mismatches: MediaMismatch[] = [];
+
+  const aspectRatio = describeAspectRatio(info.width, info.height);
+  if (aspectRatio !== request.aspectRatio) {
+    mismatches.push({ field: "aspectRatio", requested: request.aspectRatio, actual: aspectRatio });
+  }
+
+  const tolerance = Math.max(1, request.durationSeconds * DURATION_TOLERANCE);
+  if (Math.abs(info.durationSeconds - request.durationSeconds) > tolerance) {
+    mismatches.push({
+      field: "duration",
+      requested: request.durationSeconds,
+      actual: Math.round(info.durationSeconds * 10) / 10,
+    });
+  }
+
+  return { ...info, mismatches };
+}
+
+// ffmpeg puede terminar bien sin escribir nada (p. ej. si el video no tiene fotogramas)
+function assertWritten(filePath: string): void {
+  if (!fs.existsSync(filePath) || fs.statSync(filePath).size === 0) {
+    throw new Error(`ffmpeg no generó ${path.basename(filePath)}`);
+  }
+}
+
+/**
+ * Función para extraer el fotograma más representativo: se salta el arranque
+ * (a menudo en negro o con un fundido) y el filtro thumbnail de ffmpeg elige,
+ * entre los siguientes fotogramas, el más parecido a la media
+ */
+async function extractPosterFrame(
+  videoPath: string,
+  thumbnailPath: string,
+  info: VideoInfo,
+  signal?: AbortSignal
+): Promise<void> {
+  const start = info.durationSeconds > 2 ? info.durationSeconds * 0.1 : 0;
+  await execFileAsync(
+    "ffmpeg",
+    [
+      "-ss",
+      start.toFixed(3),
+      "-i",
+      videoPath,
+      "-vf",
+      "thumbnail=60",
+      "-frames:v",
+      "1",
+      "-y",
+      thumbnailPath,
+    ],
+    { timeout: FFMPEG_TIMEOUT_MS, signal }
+  );
+  assertWritten(thumbnailPath);
+}
+
+// Marca de tiempo WebVTT (hh:mm:ss.mmm)
+export function toVttTimestamp(seconds: number): string {
+  const milliseconds = Math.round(seconds * 1000);
+  const hours = Math.floor(milliseconds / 3600000);
+  const minutes = Math.floor((milliseconds % 3600000) / 60000);
+  const secs = Math.floor((milliseconds % 60000) / 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}.${pad(milliseconds % 1000, 3)}`;
+}
+
+/**
+ * Función para crear el sprite de previsualización y su pista WebVTT: cada cue
+ * apunta a su fotograma dentro del sprite con un fragmento #xywh, el formato
+ * que usan los reproductores para previsualizar al pasar el ratón por la barra
+ */
+async function createSprite(
+  videoPath: string,
+  spritePath: string,
+  previewTrackPath: string,
+  info: VideoInfo,
+  signal?: AbortSignal
+): Promise<void> {
+  const frames = Math.max(
+    1,
+    Math.min(
+      SPRITE_MAX_FRAMES,
+      Math.floor(info.durationSeconds / SPRITE_MIN_INTERVAL_SECONDS)
+    )
+  );
+  const interval = info.durationSeconds / frames;
+  const columns = Math.min(SPRITE_COLUMNS, frames);
+  const rows = Math.ceil(frames / columns);
+  const tileWidth = SPRITE_TILE_WIDTH;
+  const tileHeight = Math.round((tileWidth * info.height) / info.width / 2) * 2;
+
+  await execFileAsync(
+    "ffmpeg",
+    [
+      "-i",
+      videoPath,
+      "-vf",
+      `fps=1/${interval.toFixed(4)},scale=${tileWidth}:${tileHeight},tile=${columns}x${rows}`,
+      "-frames:v",
+      "1",
+      "-y",
+      spritePath,
+    ],
+    { timeout: FFMPEG_TIMEOUT_MS, signal }
+  );
+  assertWritten(spritePath);
+
+  const spriteUrl = toPublicUrl(spritePath);
+  const cues = Array.from({ length: frames }, (_, index) => {
+    const x = (index % columns) * tileWidth;
+    const y = Math.floor(index / columns) * tileHeight;
+    const end = Math.min(info.durationSeconds, (index + 1) * interval);
+    return `${toVttTimestamp(index * interval)} --> ${toVttTimestamp(end)}\n${spriteUrl}#xywh=${x},${y},${tileWidth},${tileHeight}`;
+  });
+  fs.writeFileSync(previewTrackPath, `WEBVTT\n\n${cues.join("\n\n")}\n`);
+}
+
+// Función para crear un thumbnail placeholder (SVG) cuando no se puede usar ffmpeg
+function createPlaceholderThumbnail(thumbnailPath: string): string {
+  const svgContent = `
+    <svg width="320" height="180" xmlns="http://www.w3.org/2000/svg">
+      <rect width="100%" height="100%" fill="#f0f0f0"/>
+      <text x="50%" y="50%" font-family="Arial, sans-serif" font-size="16"
+            text-anchor="middle" dy=".3em" fill="#666">Video Thumbnail</text>
+    </svg>
+  `;
+
+  const svgPath = path.join(
+    path.dirname(thumbnailPath),
+    `${path.parse(thumbnailPath).name}.svg`
+  );
+  fs.writeFileSync(svgPath, svgContent.trim());
+  return svgPath;
+}
+
+/**
+ * Genera el thumbnail y la previsualización de un video descargado. thumbnailPath
+ * es la ruta deseada del .jpg; el sprite y la pista se guardan a su lado
+ * (<nombre>_sprite.jpg y <nombre>_sprite.vtt). info es el resultado de
+ * probeMedia (null si no se pudo analizar). Si falla algún paso se devuelven
+ * solo los archivos que sí se crearon, de modo que las URLs nunca apuntan a
+ * archivos inexistentes. Abortar signal (trabajo cancelado) detiene ffmpeg.
+ */
+export async function createPreviewAssets(
+  videoPath: string,
+  thumbnailPath: string,
+  info: VideoInfo | null,
+  signal?: AbortSignal
+): Promise<PreviewAssets> {
+  const { dir, name } = path.parse(thumbnailPath);
+  const spritePath = path.join(dir, `${name}_sprite.jpg`);
+  const previewTrackPath = path.join(dir, `${name}_sprite.vtt`);
+
+  try {
+    if (!info) throw new Error("Video sin analizar");
+    await extractPosterFrame(videoPath, thumbnailPath, info, signal);
+  } catch (error) {
+    console.warn("No se pudo generar thumbnail con ffmpeg:", error);
+    return {
+      thumbnailPath: createPlaceholderThumbnail(thumbnailPath),
+      spritePath: null,
+      previewTrackPath: null,
+    };
+  }
+
+  try {
+    await createSprite(videoPath, spritePath, previewTrackPath, info, signal);
+    return { thumbnailPath, spritePath, previewTrackPath };
+  } catch (error) {
+    console.warn("No se pudo generar el sprite de previsualización:", error);
+    [spritePath, previewTrackPath].forEach((filePath) => fs.rmSync(filePath, { force: true }));
+    return { thumbnailPath, spritePath: null, previewTrackPath: null };
+  }
+}
@@ -0,0 +1,99 @@
+import fs from "fs";
+import path from "path";
+import multer from "multer";
+import type { ReferenceImage } from "../providers/types";
+import { IMAGES_DIR, ensureUploadDirs, fromPublicUrl, toPublicUrl } from "./media";
+
+// Tamaño máximo de una imagen de referencia (MB)
+export const MAX_REFERENCE_IMAGE_MB = parseInt(process.env.MAX_REFERENCE_IMAGE_MB || "10");
+
+// Tipos admitidos y la extensión con la que se guardan
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/webp": ".webp",
+};
+
+export const REFERENCE_IMAGE_TYPES = Object.keys(IMAGE_EXTENSIONS);
+
+// Imagen rechazada por tipo; la ruta la devuelve como 400
+export class ReferenceImageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReferenceImageError";
+  }
+}
+
+/**
+ * Middleware multer para el campo "image": guarda el archivo en uploads/images
+ * con un nombre aleatorio y rechaza los tipos y tamaños no admitidos
+ */
+export const referenceImageUpload = multer({
+  storage: multer.diskStorage({
+    destination: (req, file, callback) => {
+      ensureUploadDirs();
+      callback(null, IMAGES_DIR);
+    },
+    filename: (req, file, callback) => {
+      callback(
+        null,
+        `image_${Date.now()}_${Math.random().toString(36).substring(2, 11)}${
+          IMAGE_EXTENSIONS[file.mimetype]
+        }`
+      );
+    },
+  }),
+  limits: { fileSize: MAX_REFERENCE_IMAGE_MB * 1024 * 1024, files: 1 },
+  fileFilter: (req, file, callback) => {
+    if (!IMAGE_EXTENSIONS[file.mimetype]) {
+      return callback(
+        new ReferenceImageError(
+          `Tipo de imagen no admitido (${file.mimetype}). Admitidos: PNG, JPEG y WebP`
+        )
+      );
+    }
+    callback(null, true);
+  },
+}).single("image");
+
+// Primeros bytes de cada tipo, para no fiarse solo del Content-Type del cliente
+const IMAGE_SIGNATURES: Record<string, (header: Buffer) => boolean> = {
+  "image/png": (header) => header.subarray(0, 4).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47])),
+  "image/jpeg": (header) => header.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])),
+  "image/webp": (header) =>
+    header.toString("ascii", 0, 4) === "RIFF" && header.toString("ascii", 8, 12) === "WEBP",
+};
+
+// Función para comprobar que el contenido del archivo corresponde a su tipo
+export function hasImageSignature(file: Express.Multer.File): boolean {
+  const header = Buffer.alloc(12);
+  const fd = fs.openSync(file.path, "r");
+  try {
+    fs.readSync(fd, header, 0, header.length, 0);
+  } finally {
+    fs.closeSync(fd);
+  }
+  return !!IMAGE_SIGNATURES[file.mimetype]?.(header);
+}
+
+// Función para describir una imagen recién subida
+export function toReferenceImage(file: Express.Multer.File): ReferenceImage {
+  return { url: toPublicUrl(file.path), mimeType: file.mimetype };
+}
+
+/**
+ * Función para validar la URL de una imagen subida antes de usarla en una
+ * generación; devuelve null si no es una imagen de uploads/images que exista
+ */
+export function resolveReferenceImage(url: string): ReferenceImage | null {
+  const filePath = fromPublicUrl(url);
+  if (!filePath || path.dirname(filePath) !== IMAGES_DIR || !fs.existsSync(filePath)) {
+    return null;
+  }
+
+  const extension = path.extname(filePath).toLowerCase();
+  const mimeType = Object.keys(IMAGE_EXTENSIONS).find(
+    (type) => IMAGE_EXTENSIONS[type] === extension
+  );
+  return mimeType ? { url, mimeType } : null;
+}
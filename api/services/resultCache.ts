@@ -0,0 +1,61 @@
+import crypto from "crypto";
+import fs from "fs";
+import type { StorageAdapter, Video } from "../database";
+import type { GenerationRequest } from "../providers/types";
+import { fromPublicUrl } from "./media";
+
+// Mayúsculas y espacios no cambian el resultado
+function normalizePrompt(prompt: string): string {
+  return prompt.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Hash de todo lo que determina el video generado: prompt normalizado, proveedor,
+ * duración, relación de aspecto y seed, además de los parámetros que también se
+ * envían al proveedor (resolución, variantes, imagen y parámetros avanzados) y
+ * el guion de la simulación, que decide si falla, tarda o devuelve webm
+ */
+export function computeContentHash(providerId: string, request: GenerationRequest): string {
+  const key = [
+    normalizePrompt(request.prompt),
+    providerId,
+    request.durationSeconds,
+    request.aspectRatio,
+    request.seed ?? null,
+    request.resolution ?? null,
+    request.variants || 1,
+    request.image?.url ?? null,
+    request.negativePrompt ?? null,
+    request.enhancePrompt ?? null,
+    request.generateAudio ?? null,
+    request.metadata?.simulation ?? null,
+  ];
+  return crypto.createHash("sha256").update(JSON.stringify(key)).digest("hex");
+}
+
+// force llega como booleano en JSON o como texto en la query y en los CSV
+export function isForced(value: unknown): boolean {
+  return value === true || value === "true";
+}
+
+/**
+ * El hash lleva el proveedor pedido, pero tras un fallback (incluida la
+ * simulación) el video lo generó otro: ese resultado no vale como caché
+ */
+function producedByRequestedProvider(video: Video): boolean {
+  const metadata = video.metadata ? JSON.parse(video.metadata) : {};
+  const requested = metadata.requestedProvider || metadata.provider;
+  return metadata.provider === requested && (!metadata.simulated || requested === "simulation");
+}
+
+// Video completado con el mismo hash, generado por el proveedor pedido y cuyo archivo sigue existiendo
+export async function findCachedVideo(
+  storage: StorageAdapter,
+  contentHash: string
+): Promise<Video | null> {
+  const video = await storage.getCompletedVideoByHash(contentHash);
+  if (!video || !producedByRequestedProvider(video)) return null;
+
+  const videoPath = video.video_url ? fromPublicUrl(video.video_url) : null;
+  return videoPath && fs.existsSync(videoPath) ? video : null;
+}
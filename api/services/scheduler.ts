@@ -0,0 +1,170 @@
+import type { ProviderLimits, VideoProvider } from "../providers/types";
+
+// Límites si el proveedor no declara los suyos (0 = sin límite)
+const DEFAULT_LIMITS: ProviderLimits = {
+  maxConcurrency: 2,
+  requestsPerMinute: 0,
+};
+
+const RATE_WINDOW_MS = 60000;
+
+interface Waiter {
+  jobId: string;
+  resolve: () => void;
+}
+
+interface ProviderState {
+  running: Set<string>;
+  waiting: Waiter[];
+  // Marcas de tiempo de las peticiones del último minuto
+  requests: number[];
+}
+
+// Función para leer un límite de entorno: VEO3_MAX_CONCURRENCY, SORA_REQUESTS_PER_MINUTE...
+function readEnvLimit(providerId: string, name: string): number | undefined {
+  const key = `${providerId.toUpperCase().replace(/[^A-Z0-9]/g, "_")}_${name}`;
+  const value = parseInt(process.env[key] || "");
+  return isNaN(value) || value < 0 ? undefined : value;
+}
+
+class AbortedError extends Error {
+  constructor() {
+    super("Espera cancelada");
+    this.name = "AbortedError";
+  }
+}
+
+/**
+ * Limita por proveedor cuántos trabajos se procesan a la vez y cuántas
+ * peticiones por minuto se hacen a su API. Los trabajos que superan el límite
+ * esperan en una cola FIFO; onQueueChange avisa cuando cambian las posiciones.
+ */
+export class ProviderScheduler {
+  private readonly states = new Map<string, ProviderState>();
+
+  constructor(
+    private readonly onQueueChange: (providerId: string) => void = () => {}
+  ) {}
+
+  // Límites efectivos: los del entorno tienen prioridad sobre los del proveedor
+  getLimits(provider: VideoProvider): ProviderLimits {
+    const limits = { ...DEFAULT_LIMITS, ...provider.limits };
+    return {
+      maxConcurrency:
+        readEnvLimit(provider.id, "MAX_CONCURRENCY") ?? limits.maxConcurrency,
+      requestsPerMinute:
+        readEnvLimit(provider.id, "REQUESTS_PER_MINUTE") ?? limits.requestsPerMinute,
+    };
+  }
+
+  /**
+   * Espera a que haya un hueco para procesar el trabajo. Si se aborta la señal
+   * mientras espera, sale de la cola y la promesa se rechaza.
+   */
+  acquire(provider: VideoProvider, jobId: string, signal: AbortSignal): Promise<void> {
+    const state = this.getState(provider.id);
+    const { maxConcurrency } = this.getLimits(provider);
+
+    if (state.running.has(jobId)) return Promise.resolve();
+    if (signal.aborted) return Promise.reject(new AbortedError());
+
+    if (state.waiting.length === 0 && this.hasFreeSlot(state, maxConcurrency)) {
+      state.running.add(jobId);
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        state.waiting = state.waiting.filter((waiter) => waiter.jobId !== jobId);
+        this.onQueueChange(provider.id);
+        reject(new AbortedError());
+      };
+
+      state.waiting.push({
+        jobId,
+        resolve: () => {
+          signal.removeEventListener("abort", onAbort);
+          resolve();
+        },
+      });
+      signal.addEventListener("abort", onAbort, { once: true });
+      this.onQueueChange(provider.id);
+    });
+  }
+
+  // Libera el hueco del trabajo y da paso a los siguientes de la cola
+  release(provider: VideoProvider, jobId: string): void {
+    const state = this.getState(provider.id);
+    state.running.delete(jobId);
+
+    const { maxConcurrency } = this.getLimits(provider);
+    let changed = false;
+    while (state.waiting.length > 0 && this.hasFreeSlot(state, maxConcurrency)) {
+      const next = state.waiting.shift()!;
+      state.running.add(next.jobId);
+      next.resolve();
+      changed = true;
+    }
+
+    if (changed) this.onQueueChange(provider.id);
+  }
+
+  /**
+   * Espera hasta poder hacer una petición a la API del proveedor sin superar
+   * su límite de peticiones por minuto
+   */
+  async acquireRequest(provider: VideoProvider, signal: AbortSignal): Promise<void> {
+    const state = this.getState(provider.id);
+
+    while (!signal.aborted) {
+      const { requestsPerMinute } = this.getLimits(provider);
+      const now = Date.now();
+      state.requests = state.requests.filter((time) => now - time < RATE_WINDOW_MS);
+
+      if (!requestsPerMinute || state.requests.length < requestsPerMinute) {
+        state.requests.push(now);
+        return;
+      }
+
+      const waitMs = state.requests[0] + RATE_WINDOW_MS - now;
+      await new Promise<void>((resolve) => {
+        const onAbort = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+        const timer = setTimeout(() => {
+          signal.removeEventListener("abort", onAbort);
+          resolve();
+        }, waitMs);
+        signal.addEventListener("abort", onAbort, { once: true });
+      });
+    }
+
+    throw new AbortedError();
+  }
+
+  // Posición (1 = el siguiente) del trabajo en la cola del proveedor
+  getQueuePosition(providerId: string, jobId: string): number | null {
+    const index = this.getState(providerId).waiting.findIndex(
+      (waiter) => waiter.jobId === jobId
+    );
+    return index >= 0 ? index + 1 : null;
+  }
+
+  getWaitingJobIds(providerId: string): string[] {
+    return this.getState(providerId).waiting.map((waiter) => waiter.jobId);
+  }
+
+  private hasFreeSlot(state: ProviderState, maxConcurrency: number): boolean {
+    return !maxConcurrency || state.running.size < maxConcurrency;
+  }
+
+  private getState(providerId: string): ProviderState {
+    let state = this.states.get(providerId);
+    if (!state) {
+      state = { running: new Set(), waiting: [], requests: [] };
+      this.states.set(providerId, state);
+    }
+    return state;
+  }
+}
@@ -0,0 +1,269 @@
+import fs from "fs";
+import type { StorageAdapter, Video, VideoSequence } from "../database";
+import { sequenceProvider } from "../providers/sequence";
+import type { AspectRatio, GenerationRequest } from "../providers/types";
+import { fromPublicUrl } from "./media";
+import { probeMedia, type MediaInfo } from "./mediaPipeline";
+import { getSequenceDuration, type SequenceRenderPlan } from "./stitching";
+import type { VideoJob, VideoJobRunner } from "./videoJobs";
+
+// Máximo de clips por secuencia y duración máxima de cada fundido (s)
+export const MAX_SEQUENCE_ITEMS = parseInt(process.env.MAX_SEQUENCE_ITEMS || "20");
+const MAX_CROSSFADE_SECONDS = 5;
+
+// Tamaño del montaje según la relación de aspecto; los clips se escalan a él
+const SEQUENCE_SIZES: Record<AspectRatio, { width: number; height: number }> = {
+  "16:9": { width: 1280, height: 720 },
+  "9:16": { width: 720, height: 1280 },
+  "1:1": { width: 720, height: 720 },
+};
+
+// Secuencia no válida o que no se puede montar; las rutas la devuelven como 400
+export class SequenceInputError extends Error {
+  constructor(
+    message: string,
+    readonly details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = "SequenceInputError";
+  }
+}
+
+// Clip de una secuencia; crossfadeSeconds es el fundido con el clip anterior
+export interface SequenceItem {
+  videoId: number;
+  crossfadeSeconds: number;
+}
+
+export interface SequenceInput {
+  name: string;
+  aspectRatio: AspectRatio;
+  items: SequenceItem[];
+}
+
+export interface SequenceStatus {
+  id: number;
+  name: string;
+  aspectRatio: AspectRatio;
+  items: SequenceItem[];
+  // Último montaje: el video resultante y el estado de su trabajo
+  render: {
+    videoId: number;
+    jobId: string;
+    status: VideoJob["status"];
+    progress: number;
+    videoUrl?: string;
+    error?: string;
+  } | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Función para validar el cuerpo de creación o edición de una secuencia. En una
+ * edición (partial) los campos que no se envían conservan su valor.
+ */
+export function parseSequenceInput(
+  input: Record<string, unknown>,
+  partial = false
+): Partial<SequenceInput> {
+  const { name, aspectRatio, items } = input;
+  const parsed: Partial<SequenceInput> = {};
+
+  if (name !== undefined || !partial) {
+    if (typeof name !== "string" || !name.trim()) {
+      throw new SequenceInputError("El nombre de la secuencia es requerido");
+    }
+    parsed.name = name.trim();
+  }
+
+  if (aspectRatio !== undefined || !partial) {
+    const ratio = aspectRatio ?? "16:9";
+    if (!(typeof ratio === "string" && ratio in SEQUENCE_SIZES)) {
+      throw new SequenceInputError(`Relación de aspecto no válida: ${ratio}`, {
+        supportedAspectRatios: Object.keys(SEQUENCE_SIZES),
+      });
+    }
+    parsed.aspectRatio = ratio as AspectRatio;
+  }
+
+  if (items !== undefined || !partial) {
+    if (!Array.isArray(items) || items.length < 2 || items.length > MAX_SEQUENCE_ITEMS) {
+      throw new SequenceInputError(
+        `La secuencia debe tener entre 2 y ${MAX_SEQUENCE_ITEMS} clips`
+      );
+    }
+    parsed.items = items.map((item, index) => {
+      const videoId = Number(item?.videoId);
+      const crossfadeSeconds = Number(item?.crossfadeSeconds ?? 0);
+      if (!Number.isInteger(videoId)) {
+        throw new SequenceInputError(`Clip ${index + 1}: videoId no válido`);
+      }
+      if (
+        !Number.isFinite(crossfadeSeconds) ||
+        crossfadeSeconds < 0 ||
+        crossfadeSeconds > MAX_CROSSFADE_SECONDS
+      ) {
+        throw new SequenceInputError(
+          `Clip ${index + 1}: el fundido debe estar entre 0 y ${MAX_CROSSFADE_SECONDS} segundos`
+        );
+      }
+      // El primer clip no tiene anterior con el que fundirse
+      return { videoId, crossfadeSeconds: index === 0 ? 0 : crossfadeSeconds };
+    });
+  }
+
+  return parsed;
+}
+
+/**
+ * Guarda secuencias de videos completados y las monta en un video nuevo. El
+ * montaje se lanza como un trabajo más del runner con el proveedor interno
+ * "sequence" (ver providers/sequence.ts).
+ */
+export class SequenceService {
+  constructor(
+    private readonly storage: StorageAdapter,
+    private readonly jobs: VideoJobRunner
+  ) {}
+
+  // Función para crear la secuencia; devuelve su id
+  async create(input: SequenceInput): Promise<number> {
+    await this.loadVideos(input.items);
+    const { lastInsertRowid } = await this.storage.createSequence({
+      name: input.name,
+      aspect_ratio: input.aspectRatio,
+      items: JSON.stringify(input.items),
+    });
+    return lastInsertRowid;
+  }
+
+  // Función para editar nombre, formato u orden de los clips; null si no existe
+  async update(id: number, input: Partial<SequenceInput>): Promise<SequenceStatus | null> {
+    const sequence = await this.storage.getSequenceById(id);
+    if (!sequence) return null;
+
+    if (input.items) await this.loadVideos(input.items);
+    await this.storage.updateSequence(id, {
+      ...(input.name && { name: input.name }),
+      ...(input.aspectRatio && { aspect_ratio: input.aspectRatio }),
+      ...(input.items && { items: JSON.stringify(input.items) }),
+    });
+    return this.get(id);
+  }
+
+  async get(id: number): Promise<SequenceStatus | null> {
+    const sequence = await this.storage.getSequenceById(id);
+    return sequence ? this.toStatus(sequence) : null;
+  }
+
+  async list(): Promise<SequenceStatus[]> {
+    const sequences = await this.storage.getAllSequences();
+    return Promise.all(sequences.map((sequence) => this.toStatus(sequence)));
+  }
+
+  /**
+   * Lanza el montaje de la secuencia con los clips en su estado actual. Cada
+   * montaje crea un Video nuevo; la secuencia apunta siempre al último.
+   */
+  async render(id: number, userId?: string): Promise<SequenceStatus | null> {
+    const sequence = await this.storage.getSequenceById(id);
+    if (!sequence) return null;
+
+    const items: SequenceItem[] = JSON.parse(sequence.items);
+    const aspectRatio = sequence.aspect_ratio as AspectRatio;
+    const videos = await this.loadVideos(items);
+
+    const clips = [];
+    for (const video of videos) {
+      const media = await this.getMedia(video);
+      clips.push({
+        path: fromPublicUrl(video.video_url!)!,
+        durationSeconds: media.durationSeconds,
+        hasAudio: media.hasAudio,
+      });
+    }
+
+    const plan: SequenceRenderPlan = {
+      clips,
+      crossfades: items.slice(1).map((item) => item.crossfadeSeconds),
+      ...SEQUENCE_SIZES[aspectRatio],
+    };
+    const request: GenerationRequest = {
+      prompt: sequence.name,
+      durationSeconds: Math.max(1, Math.round(getSequenceDuration(plan))),
+      aspectRatio,
+      resolution: "720",
+      metadata: { sequence: plan },
+    };
+
+    const result = await this.jobs.start(sequenceProvider, request, {
+      userId,
+      metadata: {
+        originalPrompt: sequence.name,
+        provider: sequenceProvider.id,
+        aspectRatio,
+        resolution: request.resolution,
+        sequenceId: sequence.id,
+        sequenceVideoIds: items.map((item) => item.videoId),
+      },
+    });
+
+    await this.storage.updateSequence(id, { video_id: result.id, job_id: result.jobId });
+    console.log(`🎞️ Secuencia ${id} (${sequence.name}) en montaje como ${result.jobId}`);
+    return this.get(id);
+  }
+
+  // Videos de los clips, en orden; todos deben estar completados y en disco
+  private async loadVideos(items: SequenceItem[]): Promise<Video[]> {
+    const videos: Video[] = [];
+    for (const item of items) {
+      const video = await this.storage.getVideoById(item.videoId);
+      if (!video) {
+        throw new SequenceInputError(`El video ${item.videoId} no existe`);
+      }
+      const videoPath = video.video_url ? fromPublicUrl(video.video_url) : null;
+      if (video.status !== "completed" || !videoPath || !fs.existsSync(videoPath)) {
+        throw new SequenceInputError(`El video ${item.videoId} no está completado`, {
+          videoId: item.videoId,
+          status: video.status,
+        });
+      }
+      videos.push(video);
+    }
+    return videos;
+  }
+
+  // Datos del archivo guardados al descargarlo; los videos antiguos se analizan ahora
+  private async getMedia(video: Video): Promise<MediaInfo> {
+    if (video.media) return JSON.parse(video.media);
+    try {
+      return await probeMedia(fromPublicUrl(video.video_url!)!);
+    } catch {
+      throw new SequenceInputError(`No se pudo analizar el video ${video.id} con ffprobe`);
+    }
+  }
+
+  private async toStatus(sequence: VideoSequence): Promise<SequenceStatus> {
+    const job = sequence.job_id ? await this.jobs.get(sequence.job_id) : null;
+    return {
+      id: sequence.id,
+      name: sequence.name,
+      aspectRatio: sequence.aspect_ratio as AspectRatio,
+      items: JSON.parse(sequence.items),
+      render:
+        sequence.video_id && sequence.job_id
+          ? {
+              videoId: sequence.video_id,
+              jobId: sequence.job_id,
+              status: job?.status || "failed",
+              progress: job?.status === "completed" ? 100 : job?.progress || 0,
+              videoUrl: job?.videoUrl,
+              error: job?.error,
+            }
+          : null,
+      createdAt: sequence.created_at,
+      updatedAt: sequence.updated_at,
+    };
+  }
+}
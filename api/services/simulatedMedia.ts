@@ -0,0 +1,343 @@
+import fs from "fs";
+import path from "path";
+import type { AspectRatio } from "../providers/types";
+
+export type SimulatedVideoFormat = "mp4" | "webm";
+
+// Clips base de 1 segundo (ver api/assets/simulation/README.md)
+const ASSETS_DIR = path.join(process.cwd(), "api", "assets", "simulation");
+const SEGMENT_SECONDS = 1;
+
+const ASSET_NAMES: Record<AspectRatio, string> = {
+  "16:9": "16x9",
+  "9:16": "9x16",
+  "1:1": "1x1",
+};
+
+export const SIMULATED_MIME_TYPES: Record<SimulatedVideoFormat, string> = {
+  mp4: "video/mp4",
+  webm: "video/webm",
+};
+
+/**
+ * Construye un video válido de la duración pedida repitiendo el clip base del
+ * aspect ratio indicado. No depende de ffmpeg ni de nada del host, y para la
+ * misma entrada siempre produce los mismos bytes.
+ */
+export function buildSimulatedVideo(
+  format: SimulatedVideoFormat,
+  aspectRatio: AspectRatio,
+  durationSeconds: number
+): Buffer {
+  const base = fs.readFileSync(
+    path.join(ASSETS_DIR, `${ASSET_NAMES[aspectRatio]}.${format}`)
+  );
+  const segments = Math.max(1, Math.ceil(durationSeconds / SEGMENT_SECONDS));
+
+  return format === "webm"
+    ? loopWebm(base, segments)
+    : loopFragmentedMp4(base, segments);
+}
+
+// ---------------------------------------------------------------------------
+// MP4 fragmentado: ftyp + moov (vacío) + un moof/mdat por segundo
+
+interface Mp4Box {
+  type: string;
+  start: number;
+  end: number;
+}
+
+function readBoxes(buffer: Buffer, start: number, end: number): Mp4Box[] {
+  const boxes: Mp4Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    const size = buffer.readUInt32BE(offset);
+    const type = buffer.toString("latin1", offset + 4, offset + 8);
+    if (size < 8) throw new Error(`Caja MP4 inválida: ${type}`);
+    boxes.push({ type, start: offset, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+function findBox(buffer: Buffer, parent: Mp4Box, boxPath: string[]): Mp4Box {
+  let current = parent;
+  for (const type of boxPath) {
+    const child = readBoxes(buffer, current.start + 8, current.end).find(
+      (box) => box.type === type
+    );
+    if (!child) throw new Error(`Falta la caja MP4 ${boxPath.join("/")}`);
+    current = child;
+  }
+  return current;
+}
+
+// Escribe el campo de duración de mvhd/tkhd/mdhd (versión 0 = 32 bits, 1 = 64 bits)
+function writeBoxDuration(
+  buffer: Buffer,
+  box: Mp4Box,
+  offsetV0: number,
+  offsetV1: number,
+  duration: number
+): void {
+  if (buffer[box.start + 8] === 1) {
+    buffer.writeBigUInt64BE(BigInt(duration), box.start + offsetV1);
+  } else {
+    buffer.writeUInt32BE(duration, box.start + offsetV0);
+  }
+}
+
+function readTimescale(buffer: Buffer, box: Mp4Box): number {
+  // mvhd y mdhd: tras versión/flags van creation/modification time y el timescale
+  return buffer[box.start + 8] === 1
+    ? buffer.readUInt32BE(box.start + 28)
+    : buffer.readUInt32BE(box.start + 20);
+}
+
+function loopFragmentedMp4(base: Buffer, segments: number): Buffer {
+  const topLevel = readBoxes(base, 0, base.length);
+  const ftyp = topLevel.find((box) => box.type === "ftyp");
+  const moovBox = topLevel.find((box) => box.type === "moov");
+  const moofBox = topLevel.find((box) => box.type === "moof");
+  const mdatBox = topLevel.find((box) => box.type === "mdat");
+  if (!ftyp || !moovBox || !moofBox || !mdatBox) {
+    throw new Error("El clip base no es un MP4 fragmentado");
+  }
+
+  // Cabecera con las duraciones totales
+  const moov = Buffer.from(base.subarray(moovBox.start, moovBox.end));
+  const moovRoot: Mp4Box = { type: "moov", start: 0, end: moov.length };
+  const mvhd = findBox(moov, moovRoot, ["mvhd"]);
+  const tkhd = findBox(moov, moovRoot, ["trak", "tkhd"]);
+  const mdhd = findBox(moov, moovRoot, ["trak", "mdia", "mdhd"]);
+  const movieTimescale = readTimescale(moov, mvhd);
+  const mediaTimescale = readTimescale(moov, mdhd);
+  const totalSeconds = segments * SEGMENT_SECONDS;
+
+  writeBoxDuration(moov, mvhd, 24, 32, movieTimescale * totalSeconds);
+  writeBoxDuration(moov, tkhd, 28, 36, movieTimescale * totalSeconds);
+  writeBoxDuration(moov, mdhd, 24, 32, mediaTimescale * totalSeconds);
+
+  // Cada copia del fragmento necesita su número de secuencia y su tiempo base
+  const fragment = base.subarray(moofBox.start, mdatBox.end);
+  const moofRoot: Mp4Box = { type: "moof", start: 0, end: moofBox.end - moofBox.start };
+  const mfhd = findBox(fragment, moofRoot, ["mfhd"]);
+  const tfdt = findBox(fragment, moofRoot, ["traf", "tfdt"]);
+
+  const parts: Buffer[] = [base.subarray(ftyp.start, ftyp.end), moov];
+  for (let i = 0; i < segments; i++) {
+    const copy = Buffer.from(fragment);
+    copy.writeUInt32BE(i + 1, mfhd.start + 12);
+    const baseTime = mediaTimescale * SEGMENT_SECONDS * i;
+    if (copy[tfdt.start + 8] === 1) {
+      copy.writeBigUInt64BE(BigInt(baseTime), tfdt.start + 12);
+    } else {
+      copy.writeUInt32BE(baseTime, tfdt.start + 12);
+    }
+    parts.push(copy);
+  }
+
+  return Buffer.concat(parts);
+}
+
+// ---------------------------------------------------------------------------
+// WebM: SeekHead + Info + Tracks + un Cluster por segundo + Cues
+
+const EBML_ID = {
+  header: 0x1a45dfa3,
+  segment: 0x18538067,
+  seekHead: 0x114d9b74,
+  seek: 0x4dbb,
+  seekId: 0x53ab,
+  seekPosition: 0x53ac,
+  info: 0x1549a966,
+  timecodeScale: 0x2ad7b1,
+  duration: 0x4489,
+  tracks: 0x1654ae6b,
+  trackEntry: 0xae,
+  trackNumber: 0xd7,
+  cluster: 0x1f43b675,
+  timecode: 0xe7,
+  cues: 0x1c53bb6b,
+  cuePoint: 0xbb,
+  cueTime: 0xb3,
+  cueTrackPositions: 0xb7,
+  cueTrack: 0xf7,
+  cueClusterPosition: 0xf1,
+};
+
+interface EbmlElement {
+  id: number;
+  start: number;
+  dataStart: number;
+  end: number;
+}
+
+function readVint(buffer: Buffer, offset: number, keepMarker: boolean) {
+  const first = buffer[offset];
+  let length = 1;
+  let mask = 0x80;
+  while (length <= 8 && !(first & mask)) {
+    mask >>= 1;
+    length++;
+  }
+  let value = keepMarker ? first : first & (mask - 1);
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + buffer[offset + i];
+  }
+  const unknownSize = !keepMarker && value === 2 ** (7 * length) - 1;
+  return { value, length, unknownSize };
+}
+
+function readElements(buffer: Buffer, start: number, end: number): EbmlElement[] {
+  const elements: EbmlElement[] = [];
+  let offset = start;
+  while (offset < end) {
+    const id = readVint(buffer, offset, true);
+    const size = readVint(buffer, offset + id.length, false);
+    const dataStart = offset + id.length + size.length;
+    const elementEnd = size.unknownSize ? end : dataStart + size.value;
+    elements.push({ id: id.value, start: offset, dataStart, end: elementEnd });
+    offset = elementEnd;
+  }
+  return elements;
+}
+
+function encodeId(id: number): Buffer {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) {
+    bytes.unshift(value & 0xff);
+  }
+  return Buffer.from(bytes);
+}
+
+// Tamaño siempre en 8 bytes: así el tamaño de cada elemento no depende de su contenido
+function encodeSize(size: number): Buffer {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64BE(BigInt(size));
+  buffer[0] = 0x01;
+  return buffer;
+}
+
+function element(id: number, ...children: Buffer[]): Buffer {
+  const data = Buffer.concat(children);
+  return Buffer.concat([encodeId(id), encodeSize(data.length), data]);
+}
+
+function uintElement(id: number, value: number): Buffer {
+  const data = Buffer.alloc(8);
+  data.writeBigUInt64BE(BigInt(value));
+  return element(id, data);
+}
+
+function floatElement(id: number, value: number): Buffer {
+  const data = Buffer.alloc(8);
+  data.writeDoubleBE(value);
+  return element(id, data);
+}
+
+function readUint(buffer: Buffer, el: EbmlElement): number {
+  let value = 0;
+  for (let i = el.dataStart; i < el.end; i++) value = value * 256 + buffer[i];
+  return value;
+}
+
+function loopWebm(base: Buffer, segments: number): Buffer {
+  const [header, segment] = readElements(base, 0, base.length);
+  if (header?.id !== EBML_ID.header || segment?.id !== EBML_ID.segment) {
+    throw new Error("El clip base no es un WebM válido");
+  }
+
+  const children = readElements(base, segment.dataStart, segment.end);
+  const find = (id: number) => {
+    const found = children.find((child) => child.id === id);
+    if (!found) throw new Error(`Falta el elemento WebM 0x${id.toString(16)}`);
+    return found;
+  };
+  const infoEl = find(EBML_ID.info);
+  const tracksEl = find(EBML_ID.tracks);
+  const clusterEl = find(EBML_ID.cluster);
+  const tracks = base.subarray(tracksEl.start, tracksEl.end);
+
+  // Info con la duración total (en unidades de TimecodeScale, por defecto 1ms)
+  const infoChildren = readElements(base, infoEl.dataStart, infoEl.end);
+  const scaleEl = infoChildren.find((child) => child.id === EBML_ID.timecodeScale);
+  const timecodeScale = scaleEl ? readUint(base, scaleEl) : 1000000;
+  const ticksPerSegment = (SEGMENT_SECONDS * 1e9) / timecodeScale;
+  const info = element(
+    EBML_ID.info,
+    ...infoChildren
+      .filter((child) => child.id !== EBML_ID.duration)
+      .map((child) => base.subarray(child.start, child.end)),
+    floatElement(EBML_ID.duration, ticksPerSegment * segments)
+  );
+
+  // Los bloques del cluster tienen tiempos relativos: basta con cambiar su Timecode
+  const blocks = readElements(base, clusterEl.dataStart, clusterEl.end)
+    .filter((child) => child.id !== EBML_ID.timecode)
+    .map((child) => base.subarray(child.start, child.end));
+  const clusters = Array.from({ length: segments }, (_, i) =>
+    element(EBML_ID.cluster, uintElement(EBML_ID.timecode, ticksPerSegment * i), ...blocks)
+  );
+
+  const trackEntry = readElements(base, tracksEl.dataStart, tracksEl.end).find(
+    (child) => child.id === EBML_ID.trackEntry
+  );
+  const trackNumberEl = trackEntry
+    ? readElements(base, trackEntry.dataStart, trackEntry.end).find(
+        (child) => child.id === EBML_ID.trackNumber
+      )
+    : undefined;
+  const trackNumber = trackNumberEl ? readUint(base, trackNumberEl) : 1;
+
+  // Posiciones relativas al inicio de los datos del Segment
+  const seekEntry = (id: number, position: number) =>
+    element(
+      EBML_ID.seek,
+      element(EBML_ID.seekId, encodeId(id)),
+      uintElement(EBML_ID.seekPosition, position)
+    );
+  const seekHeadSize = element(
+    EBML_ID.seekHead,
+    seekEntry(EBML_ID.info, 0),
+    seekEntry(EBML_ID.tracks, 0),
+    seekEntry(EBML_ID.cues, 0)
+  ).length;
+
+  const infoPosition = seekHeadSize;
+  const tracksPosition = infoPosition + info.length;
+  const clusterPositions: number[] = [];
+  let position = tracksPosition + tracks.length;
+  for (const cluster of clusters) {
+    clusterPositions.push(position);
+    position += cluster.length;
+  }
+  const cuesPosition = position;
+
+  const seekHead = element(
+    EBML_ID.seekHead,
+    seekEntry(EBML_ID.info, infoPosition),
+    seekEntry(EBML_ID.tracks, tracksPosition),
+    seekEntry(EBML_ID.cues, cuesPosition)
+  );
+  const cues = element(
+    EBML_ID.cues,
+    ...clusterPositions.map((clusterPosition, i) =>
+      element(
+        EBML_ID.cuePoint,
+        uintElement(EBML_ID.cueTime, ticksPerSegment * i),
+        element(
+          EBML_ID.cueTrackPositions,
+          uintElement(EBML_ID.cueTrack, trackNumber),
+          uintElement(EBML_ID.cueClusterPosition, clusterPosition)
+        )
+      )
+    )
+  );
+
+  return Buffer.concat([
+    base.subarray(header.start, header.end),
+    element(EBML_ID.segment, seekHead, info, tracks, ...clusters, cues),
+  ]);
+}
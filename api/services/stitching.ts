@@ -0,0 +1,174 @@
+import fs from "fs";
+import { spawn } from "child_process";
+import { FFMPEG_TIMEOUT_MS } from "./mediaPipeline";
+
+// Formato común al que se normalizan todos los clips antes de unirlos
+const OUTPUT_FPS = 30;
+const AUDIO_SAMPLE_RATE = 44100;
+
+// Clip de una secuencia, ya descargado y analizado (ver mediaPipeline.probeMedia)
+export interface SequenceClip {
+  path: string;
+  durationSeconds: number;
+  hasAudio: boolean;
+}
+
+/**
+ * Lo necesario para montar una secuencia. crossfades[i] es el fundido, en
+ * segundos, entre el clip i y el i + 1 (0 = corte directo).
+ */
+export interface SequenceRenderPlan {
+  clips: SequenceClip[];
+  crossfades: number[];
+  width: number;
+  height: number;
+}
+
+// Fundidos ajustados para que no se solapen: como mucho la mitad de cada clip
+export function clampCrossfades(clips: SequenceClip[], crossfades: number[]): number[] {
+  return clips.slice(1).map((clip, index) => {
+    const requested = Math.max(0, crossfades[index] || 0);
+    const limit = Math.min(clips[index].durationSeconds, clip.durationSeconds) / 2;
+    return Math.round(Math.min(requested, limit) * 100) / 100;
+  });
+}
+
+// Duración total del montaje: la suma de los clips menos lo que se solapan los fundidos
+export function getSequenceDuration(plan: SequenceRenderPlan): number {
+  const clipsSeconds = plan.clips.reduce((sum, clip) => sum + clip.durationSeconds, 0);
+  const fadesSeconds = clampCrossfades(plan.clips, plan.crossfades).reduce(
+    (sum, seconds) => sum + seconds,
+    0
+  );
+  return clipsSeconds - fadesSeconds;
+}
+
+/**
+ * Grafo de filtros de ffmpeg: cada clip se escala (con bandas si su relación de
+ * aspecto no coincide), se lleva a los mismos fps y se recorta a su duración.
+ * Los clips sin audio aportan silencio si algún otro lo tiene. Después se
+ * encadenan con xfade/acrossfade o, sin fundido, con concat.
+ */
+function buildFilterGraph(plan: SequenceRenderPlan): { graph: string; withAudio: boolean } {
+  const { clips, width, height } = plan;
+  const crossfades = clampCrossfades(clips, plan.crossfades);
+  const withAudio = clips.some((clip) => clip.hasAudio);
+  const filters: string[] = [];
+
+  clips.forEach((clip, index) => {
+    const duration = clip.durationSeconds.toFixed(3);
+    filters.push(
+      `[${index}:v]scale=${width}:${height}:force_original_aspect_ratio=decrease,` +
+        `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=${OUTPUT_FPS},format=yuv420p,` +
+        `trim=duration=${duration},setpts=PTS-STARTPTS[v${index}]`
+    );
+    if (!withAudio) return;
+    filters.push(
+      clip.hasAudio
+        ? `[${index}:a]aformat=sample_rates=${AUDIO_SAMPLE_RATE}:channel_layouts=stereo,` +
+            `apad,atrim=duration=${duration},asetpts=PTS-STARTPTS[a${index}]`
+        : `anullsrc=r=${AUDIO_SAMPLE_RATE}:cl=stereo,atrim=duration=${duration}[a${index}]`
+    );
+  });
+
+  let video = "v0";
+  let audio = "a0";
+  let elapsed = clips[0].durationSeconds;
+
+  crossfades.forEach((fade, index) => {
+    const next = index + 1;
+    const videoOut = `vx${next}`;
+    const audioOut = `ax${next}`;
+
+    if (fade > 0) {
+      filters.push(
+        `[${video}][v${next}]xfade=transition=fade:duration=${fade}:offset=${(elapsed - fade).toFixed(3)}[${videoOut}]`
+      );
+      if (withAudio) filters.push(`[${audio}][a${next}]acrossfade=d=${fade}[${audioOut}]`);
+    } else {
+      filters.push(`[${video}][v${next}]concat=n=2:v=1:a=0[${videoOut}]`);
+      if (withAudio) filters.push(`[${audio}][a${next}]concat=n=2:v=0:a=1[${audioOut}]`);
+    }
+
+    elapsed += clips[next].durationSeconds - fade;
+    video = videoOut;
+    audio = audioOut;
+  });
+
+  filters.push(`[${video}]null[vout]`);
+  if (withAudio) filters.push(`[${audio}]anull[aout]`);
+  return { graph: filters.join(";"), withAudio };
+}
+
+/**
+ * Función para montar los clips en un único MP4 con ffmpeg. onProgress recibe
+ * el porcentaje (0-100) según el tiempo ya codificado; abortar la señal o pasar
+ * de FFMPEG_TIMEOUT_MS detiene ffmpeg y borra la salida a medias.
+ */
+export async function renderSequence(
+  plan: SequenceRenderPlan,
+  outputPath: string,
+  onProgress: (percent: number) => void = () => {},
+  signal?: AbortSignal
+): Promise<void> {
+  const { graph, withAudio } = buildFilterGraph(plan);
+  const totalSeconds = getSequenceDuration(plan);
+
+  const args = [
+    ...plan.clips.flatMap((clip) => ["-i", clip.path]),
+    "-filter_complex",
+    graph,
+    "-map",
+    "[vout]",
+    ...(withAudio ? ["-map", "[aout]", "-c:a", "aac", "-b:a", "128k"] : ["-an"]),
+    "-c:v",
+    "libx264",
+    "-preset",
+    "veryfast",
+    "-crf",
+    "20",
+    "-pix_fmt",
+    "yuv420p",
+    "-movflags",
+    "+faststart",
+    "-progress",
+    "pipe:1",
+    "-nostats",
+    "-y",
+    outputPath,
+  ];
+
+  await new Promise<void>((resolve, reject) => {
+    const ffmpeg = spawn("ffmpeg", args, { signal, timeout: FFMPEG_TIMEOUT_MS });
+    let stderr = "";
+
+    ffmpeg.stdout.on("data", (chunk: Buffer) => {
+      // -progress escribe bloques clave=valor; out_time_us es lo ya codificado
+      const match = /out_time_us=(\d+)/.exec(chunk.toString());
+      if (match && totalSeconds > 0) {
+        onProgress(Math.min(99, Math.round((Number(match[1]) / 1e6 / totalSeconds) * 100)));
+      }
+    });
+    ffmpeg.stderr.on("data", (chunk: Buffer) => {
+      // Solo interesa el final, donde ffmpeg explica el error
+      stderr = (stderr + chunk.toString()).slice(-2000);
+    });
+    ffmpeg.on("error", reject);
+    ffmpeg.on("close", (code) => {
+      if (code === 0) {
+        onProgress(100);
+        resolve();
+      } else if (ffmpeg.killed && !signal?.aborted) {
+        // ffmpeg atiende el SIGTERM del timeout y sale con un código normal
+        reject(new Error(`ffmpeg superó el tiempo máximo de montaje (${FFMPEG_TIMEOUT_MS} ms)`));
+      } else {
+        // Las últimas líneas dicen qué falló (p. ej. "No such filter: 'xfade'" en ffmpeg < 4.3)
+        const reason = stderr.trim().split("\n").slice(-3).join(" ");
+        reject(new Error(`ffmpeg terminó con código ${code}: ${reason}`));
+      }
+    });
+  }).catch((error) => {
+    fs.rmSync(outputPath, { force: true });
+    throw error;
+  });
+}
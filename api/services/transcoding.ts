@@ -0,0 +1,176 @@
+import fs from "fs";
+import path from "path";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { HLS_DIR, ensureUploadDirs, toPublicUrl } from "./media";
+import { FFMPEG_TIMEOUT_MS, type VideoInfo } from "./mediaPipeline";
+
+const execFileAsync = promisify(execFile);
+
+// Duración de cada segmento HLS, en segundos
+const HLS_SEGMENT_SECONDS = 4;
+
+interface RenditionProfile {
+  height: number;
+  // kbps de video y audio
+  videoBitrate: number;
+  audioBitrate: number;
+}
+
+// Escalera de calidades; se generan las que no superan la altura del original
+const RENDITION_PROFILES: RenditionProfile[] = [
+  { height: 360, videoBitrate: 800, audioBitrate: 96 },
+  { height: 720, videoBitrate: 2800, audioBitrate: 128 },
+  { height: 1080, videoBitrate: 5000, audioBitrate: 128 },
+];
+
+// Calidades activas con VIDEO_RENDITIONS=360,720 (vacío = no transcodificar)
+function readEnabledHeights(): number[] {
+  return (process.env.VIDEO_RENDITIONS ?? "360,720,1080")
+    .split(",")
+    .map((value) => parseInt(value.trim()))
+    .filter((value) => !isNaN(value));
+}
+
+// Calidad HLS de un video; se guarda en JSON en videos.renditions
+export interface VideoRendition {
+  name: string; // "360p", "720p"...
+  width: number;
+  height: number;
+  // Ancho de banda declarado en el master playlist (bits/s)
+  bandwidth: number;
+  playlistUrl: string;
+}
+
+export interface HlsPackage {
+  masterUrl: string;
+  renditions: VideoRendition[];
+}
+
+// Perfiles a generar para un original: sin escalar hacia arriba, y al menos uno
+function selectProfiles(info: VideoInfo): RenditionProfile[] {
+  const enabled = readEnabledHeights();
+  const profiles = RENDITION_PROFILES.filter(
+    (profile) => enabled.includes(profile.height) && profile.height <= info.height
+  );
+  if (profiles.length > 0 || enabled.length === 0) return profiles;
+
+  // Original más pequeño que cualquier calidad: una sola a su altura
+  const [smallest] = RENDITION_PROFILES;
+  return [{ ...smallest, height: info.height - (info.height % 2) }];
+}
+
+// Función para transcodificar una calidad a HLS (playlist + segmentos .ts)
+async function transcodeRendition(
+  videoPath: string,
+  outputDir: string,
+  profile: RenditionProfile,
+  info: VideoInfo,
+  signal?: AbortSignal
+): Promise<VideoRendition> {
+  const name = `${profile.height}p`;
+  const renditionDir = path.join(outputDir, name);
+  fs.mkdirSync(renditionDir, { recursive: true });
+  const playlistPath = path.join(renditionDir, "index.m3u8");
+  const width = Math.round((profile.height * info.width) / info.height / 2) * 2;
+
+  await execFileAsync(
+    "ffmpeg",
+    [
+      "-i",
+      videoPath,
+      "-map",
+      "0:v:0",
+      "-map",
+      "0:a:0?",
+      "-vf",
+      `scale=${width}:${profile.height}`,
+      "-c:v",
+      "libx264",
+      "-preset",
+      "veryfast",
+      "-profile:v",
+      "main",
+      "-pix_fmt",
+      "yuv420p",
+      "-b:v",
+      `${profile.videoBitrate}k`,
+      "-maxrate",
+      `${Math.round(profile.videoBitrate * 1.07)}k`,
+      "-bufsize",
+      `${profile.videoBitrate * 2}k`,
+      // Un keyframe al inicio de cada segmento para poder cambiar de calidad entre ellos
+      "-force_key_frames",
+      `expr:gte(t,n_forced*${HLS_SEGMENT_SECONDS})`,
+      "-c:a",
+      "aac",
+      "-b:a",
+      `${profile.audioBitrate}k`,
+      "-f",
+      "hls",
+      "-hls_time",
+      String(HLS_SEGMENT_SECONDS),
+      "-hls_playlist_type",
+      "vod",
+      "-hls_segment_filename",
+      path.join(renditionDir, "segment_%03d.ts"),
+      "-y",
+      playlistPath,
+    ],
+    { timeout: FFMPEG_TIMEOUT_MS, signal }
+  );
+
+  if (!fs.existsSync(playlistPath)) {
+    throw new Error(`ffmpeg no generó la calidad ${name}`);
+  }
+
+  return {
+    name,
+    width,
+    height: profile.height,
+    bandwidth: (profile.videoBitrate + profile.audioBitrate) * 1000,
+    playlistUrl: toPublicUrl(playlistPath),
+  };
+}
+
+/**
+ * Transcodifica un video descargado a varias calidades HLS en uploads/hls/<nombre>/
+ * y escribe el master playlist que las agrupa, para que el reproductor cambie de
+ * calidad según la conexión. Devuelve null si está desactivado, el video no se
+ * pudo analizar (info null) o ffmpeg falla; el video se sigue sirviendo como MP4
+ * y nunca queda un master a medias. Abortar signal (trabajo cancelado) detiene ffmpeg.
+ */
+export async function packageHls(
+  videoPath: string,
+  name: string,
+  info: VideoInfo | null,
+  signal?: AbortSignal
+): Promise<HlsPackage | null> {
+  if (!info) return null;
+  ensureUploadDirs();
+  const outputDir = path.join(HLS_DIR, name);
+
+  try {
+    const profiles = selectProfiles(info);
+    if (profiles.length === 0) return null;
+
+    fs.rmSync(outputDir, { recursive: true, force: true });
+    const renditions: VideoRendition[] = [];
+    for (const profile of profiles) {
+      renditions.push(await transcodeRendition(videoPath, outputDir, profile, info, signal));
+    }
+
+    const masterPath = path.join(outputDir, "master.m3u8");
+    const entries = renditions.map(
+      (rendition) =>
+        `#EXT-X-STREAM-INF:BANDWIDTH=${rendition.bandwidth},RESOLUTION=${rendition.width}x${rendition.height}\n${rendition.name}/index.m3u8`
+    );
+    fs.writeFileSync(masterPath, `#EXTM3U\n#EXT-X-VERSION:3\n${entries.join("\n")}\n`);
+
+    return { masterUrl: toPublicUrl(masterPath), renditions };
+  } catch (error) {
+    console.warn(`No se pudo empaquetar ${name} en HLS:`, error);
+    fs.rmSync(outputDir, { recursive: true, force: true });
+    return null;
+  }
+}
@@ -0,0 +1,840 @@
+import path from "path";
+import { EventEmitter } from "events";
+import type {
+  VideoProvider,
+  GenerationRequest,
+  ProviderOperation,
+  PollResult,
+} from "../providers/types";
+import { getProvider, listProviders } from "../providers/registry";
+import { ADVANCED_PARAMETERS } from "../providers/types";
+import {
+  ProviderError,
+  classifyError,
+  type ProviderErrorCategory,
+} from "../providers/errors";
+import type { StorageAdapter, VideoJobRecord } from "../database";
+import { getOutputPaths, toPublicUrl, type OutputPaths } from "./media";
+import {
+  checkMedia,
+  createPreviewAssets,
+  probeMedia,
+  type PreviewAssets,
+  type VideoMedia,
+} from "./mediaPipeline";
+import { packageHls, type HlsPackage } from "./transcoding";
+import { computeActualCost, estimateCost } from "./costs";
+import { ProviderScheduler } from "./scheduler";
+import { EtaModel, type EtaRange } from "./eta";
+
+export type VideoJobStatus =
+  | "queued"
+  | "processing"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export interface VideoJob {
+  id: string;
+  provider: string;
+  status: VideoJobStatus;
+  prompt: string;
+  request: GenerationRequest;
+  operation?: ProviderOperation; // Para tracking de la operación en el proveedor
+  videoUrl?: string;
+  thumbnailUrl?: string;
+  createdAt: Date;
+  completedAt?: Date;
+  error?: string;
+  errorCategory?: ProviderErrorCategory;
+  progress?: number;
+  duration: number;
+  aspectRatio: string;
+  style?: string;
+  // Tiempo total estimado en segundos (mediana del proveedor) y su rango p10-p90
+  estimatedTime?: number;
+  estimatedTimeRange?: EtaRange;
+  // Posición en la cola del proveedor mientras espera un hueco (no se persiste)
+  queuePosition?: number;
+  // Proveedores de respaldo pendientes y los intentos que ya fallaron
+  fallbackProviders?: string[];
+  providerAttempts?: ProviderAttempt[];
+  // Cuándo empezó el intento con el proveedor actual (tras un fallback); sin él, createdAt
+  attemptStartedAt?: Date;
+}
+
+// Intento fallido con un proveedor antes de pasar al siguiente de la cadena
+export interface ProviderAttempt {
+  provider: string;
+  error: string;
+  errorCategory?: ProviderErrorCategory;
+}
+
+// Evento "update" que emite el runner con cada cambio de un trabajo
+export interface VideoJobUpdate {
+  job: VideoJob;
+  changes: Partial<VideoJob>;
+  statusChanged: boolean;
+}
+
+export interface StartVideoJobOptions {
+  promptId?: number;
+  metadata?: Record<string, unknown>;
+  // Proveedores a probar, en orden, si falla el elegido
+  fallback?: string[];
+  // Usuario al que se imputa el coste (presupuesto por usuario)
+  userId?: string;
+  // Hash de la petición, para reutilizar el resultado (ver resultCache.ts)
+  contentHash?: string;
+}
+
+export interface StartVideoJobResponse {
+  id: number;
+  jobId: string;
+  status: string;
+  estimatedTime: number;
+  estimatedTimeRange: EtaRange;
+}
+
+// Archivos generados para cada video descargado
+type VariantOutput = OutputPaths &
+  PreviewAssets & { hls: HlsPackage | null; media: VideoMedia | null };
+
+// Máximo de consultas de estado antes de dar la operación por perdida, salvo
+// que el proveedor fije el suyo (maxPollAttempts)
+const MAX_POLL_ATTEMPTS = 120;
+
+// Reintentos de una llamada al proveedor que falla con un error transitorio
+const MAX_RETRIES = parseInt(process.env.PROVIDER_MAX_RETRIES || "4");
+const RETRY_BASE_DELAY_MS = parseInt(process.env.PROVIDER_RETRY_BASE_DELAY_MS || "1000");
+const RETRY_MAX_DELAY_MS = 30000;
+
+// Se lanza en los puntos de control del runner cuando el trabajo se ha cancelado
+class JobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Trabajo ${jobId} cancelado`);
+    this.name = "JobCancelledError";
+  }
+}
+
+// Espera interrumpible: se resuelve antes de tiempo si se aborta la señal
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    // El listener se quita al vencer el plazo para no acumular uno por cada sondeo
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export function isFinished(job: VideoJob): boolean {
+  return (
+    job.status === "completed" ||
+    job.status === "failed" ||
+    job.status === "cancelled"
+  );
+}
+
+// Función para generar un ID único para el trabajo
+function generateJobId(providerId: string): string {
+  return `${providerId}_${Date.now()}_${Math.random()
+    .toString(36)
+    .substr(2, 9)}`;
+}
+
+// Backoff exponencial con jitter: entre la mitad y el total de base*2^intento
+function retryDelay(attempt: number): number {
+  const delay = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
+
+// Progreso entre 30 (operación iniciada) y 80 (descarga) según el tiempo transcurrido
+function estimateProgress(job: VideoJob): number {
+  const elapsedSeconds = (Date.now() - job.createdAt.getTime()) / 1000;
+  const ratio = Math.min(elapsedSeconds / (job.estimatedTime || 1), 1);
+  return Math.max(job.progress || 0, Math.round(30 + ratio * 50));
+}
+
+function toRecord(job: VideoJob): VideoJobRecord {
+  return {
+    id: job.id,
+    provider: job.provider,
+    status: job.status,
+    prompt: job.prompt,
+    request: JSON.stringify(job.request),
+    operation: job.operation ? JSON.stringify(job.operation) : null,
+    video_url: job.videoUrl || null,
+    thumbnail_url: job.thumbnailUrl || null,
+    error: job.error || null,
+    error_category: job.errorCategory || null,
+    fallback:
+      job.fallbackProviders?.length || job.providerAttempts?.length
+        ? JSON.stringify({
+            providers: job.fallbackProviders || [],
+            attempts: job.providerAttempts || [],
+            startedAt: job.attemptStartedAt?.toISOString(),
+          })
+        : null,
+    progress: Math.round(job.progress || 0),
+    created_at: job.createdAt.toISOString(),
+    updated_at: new Date().toISOString(),
+    completed_at: job.completedAt ? job.completedAt.toISOString() : null,
+  };
+}
+
+function fromRecord(record: VideoJobRecord): VideoJob {
+  const request: GenerationRequest = JSON.parse(record.request);
+  const fallback = record.fallback ? JSON.parse(record.fallback) : null;
+  return {
+    id: record.id,
+    provider: record.provider,
+    status: record.status,
+    prompt: record.prompt,
+    request,
+    operation: record.operation ? JSON.parse(record.operation) : undefined,
+    videoUrl: record.video_url || undefined,
+    thumbnailUrl: record.thumbnail_url || undefined,
+    createdAt: new Date(record.created_at),
+    completedAt: record.completed_at ? new Date(record.completed_at) : undefined,
+    error: record.error || undefined,
+    errorCategory: (record.error_category as ProviderErrorCategory) || undefined,
+    progress: record.progress,
+    duration: request.durationSeconds,
+    aspectRatio: request.aspectRatio,
+    style: request.style,
+    fallbackProviders: fallback?.providers,
+    providerAttempts: fallback?.attempts,
+    attemptStartedAt: fallback?.startedAt ? new Date(fallback.startedAt) : undefined,
+  };
+}
+
+/**
+ * Ejecuta los trabajos de generación de todos los proveedores. El estado de cada
+ * trabajo (incluida la operación remota) se guarda en el almacenamiento, de modo
+ * que tras un reinicio resume() retoma el polling de lo que quedó a medias.
+ * Los trabajos de cada proveedor pasan por un ProviderScheduler: los que exceden
+ * su concurrencia esperan en "queued" y las llamadas a la API respetan su límite
+ * de peticiones por minuto.
+ * Cada cambio se emite como evento "update" (ver VideoJobUpdate).
+ */
+export class VideoJobRunner extends EventEmitter {
+  // Trabajos en curso (los terminados se consultan en el almacenamiento)
+  private readonly activeJobs = new Map<string, VideoJob>();
+  // Permite despertar el bucle de polling de un trabajo al cancelarlo
+  private readonly abortControllers = new Map<string, AbortController>();
+  // Límites de concurrencia y peticiones por minuto de cada proveedor
+  private readonly scheduler = new ProviderScheduler((providerId) =>
+    this.refreshQueuePositions(providerId)
+  );
+  // Tiempos reales de los últimos trabajos de cada proveedor
+  private readonly eta = new EtaModel();
+
+  constructor(private readonly storage: StorageAdapter) {
+    super();
+    // Cada cliente SSE añade un listener
+    this.setMaxListeners(0);
+  }
+
+  // Función principal para iniciar la generación de video con cualquier proveedor
+  async start(
+    provider: VideoProvider,
+    request: GenerationRequest,
+    options: StartVideoJobOptions = {}
+  ): Promise<StartVideoJobResponse> {
+    const job: VideoJob = {
+      id: generateJobId(provider.id),
+      provider: provider.id,
+      status: "queued",
+      prompt: request.prompt,
+      request,
+      createdAt: new Date(),
+      progress: 0,
+      duration: request.durationSeconds,
+      aspectRatio: request.aspectRatio,
+      style: request.style,
+      ...this.estimateTime(provider.id, request),
+      fallbackProviders: options.fallback,
+    };
+
+    await this.storage.saveJob(toRecord(job));
+    const video = await this.storage.createVideo({
+      prompt_id: options.promptId || null,
+      veo_job_id: job.id,
+      status: "queued",
+      duration_seconds: request.durationSeconds,
+      metadata: JSON.stringify(options.metadata || {}),
+      user_id: options.userId || null,
+      content_hash: options.contentHash,
+      // Se reserva el coste estimado hasta conocer el real
+      cost: estimateCost(provider, request).amount,
+    });
+
+    this.run(job, provider);
+
+    return {
+      id: video.lastInsertRowid,
+      jobId: job.id,
+      status: job.status,
+      estimatedTime: job.estimatedTime!,
+      estimatedTimeRange: job.estimatedTimeRange!,
+    };
+  }
+
+  /**
+   * Carga el historial de tiempos de cada proveedor y retoma los trabajos que
+   * quedaron en cola o procesando antes de un reinicio
+   */
+  async resume(): Promise<number> {
+    await this.eta.load(
+      this.storage,
+      listProviders(true).map((provider) => provider.id)
+    );
+
+    const records = await this.storage.getUnfinishedJobs();
+    let resumed = 0;
+
+    for (const record of records) {
+      if (this.activeJobs.has(record.id)) continue;
+
+      const job = this.hydrate(record);
+      const provider = getProvider(job.provider);
+      if (!provider) {
+        this.fail(job, `Proveedor no registrado: ${job.provider}`);
+        continue;
+      }
+
+      console.log(
+        `🔁 Retomando trabajo ${job.id} (${provider.name}${
+          job.operation ? `, operación ${job.operation.id}` : ""
+        })`
+      );
+      this.run(job, provider);
+      resumed++;
+    }
+
+    return resumed;
+  }
+
+  // Función para obtener el estado de un trabajo (en curso o persistido)
+  async get(jobId: string): Promise<VideoJob | null> {
+    const active = this.activeJobs.get(jobId);
+    if (active) return active;
+
+    const record = await this.storage.getJob(jobId);
+    return record ? this.hydrate(record) : null;
+  }
+
+  /**
+   * Cancela un trabajo en cola o procesando. El bucle de polling se detiene en el
+   * siguiente punto de control y, si el proveedor lo admite, se cancela también la
+   * operación remota. Devuelve el trabajo (sin cambios si ya había terminado).
+   */
+  async cancel(jobId: string): Promise<VideoJob | null> {
+    const job = await this.get(jobId);
+    if (!job || isFinished(job)) return job;
+
+    this.update(job, { status: "cancelled", progress: 0 });
+    this.abortControllers.get(job.id)?.abort();
+
+    // Sin bucle activo nadie más se encargará de la operación remota
+    if (!this.activeJobs.has(job.id)) {
+      const provider = getProvider(job.provider);
+      if (provider) await this.cancelRemote(job, provider);
+    }
+
+    console.log(`🛑 Trabajo ${job.id} cancelado`);
+    return job;
+  }
+
+  // Función para obtener un trabajo en curso sin consultar el almacenamiento
+  getActive(jobId: string): VideoJob | null {
+    return this.activeJobs.get(jobId) || null;
+  }
+
+  // Límites efectivos de un proveedor (los del entorno tienen prioridad)
+  getLimits(provider: VideoProvider) {
+    return this.scheduler.getLimits(provider);
+  }
+
+  // Función para estimar cuánto tardará una petición con un proveedor (ver eta.ts)
+  estimate(providerId: string, durationSeconds: number) {
+    return this.eta.estimate(providerId, durationSeconds);
+  }
+
+  // Función para obtener todos los trabajos en curso
+  listActive(): VideoJob[] {
+    return Array.from(this.activeJobs.values()).sort(
+      (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
+    );
+  }
+
+  private run(job: VideoJob, provider: VideoProvider): void {
+    const controller = new AbortController();
+    this.activeJobs.set(job.id, job);
+    this.abortControllers.set(job.id, controller);
+
+    this.runWithFallback(job, provider, controller.signal).finally(() => {
+      this.activeJobs.delete(job.id);
+      this.abortControllers.delete(job.id);
+    });
+  }
+
+  // Procesa el trabajo y, si falla, lo pasa al siguiente proveedor de la cadena
+  private async runWithFallback(
+    job: VideoJob,
+    provider: VideoProvider,
+    signal: AbortSignal
+  ): Promise<void> {
+    let current = provider;
+
+    while (true) {
+      const attempt = current;
+      try {
+        await this.process(job, attempt, signal);
+        return;
+      } catch (error) {
+        if (job.status === "cancelled") {
+          await this.cancelRemote(job, attempt);
+          return;
+        }
+
+        const message = error instanceof Error ? error.message : "Error desconocido";
+        const category = classifyError(error);
+        const next = this.nextFallback(job, category);
+
+        if (!next) {
+          console.error(`Error processing video ${job.id}:`, error);
+          this.fail(job, message, category);
+          return;
+        }
+
+        console.warn(`↪️ ${attempt.name} falló en ${job.id} (${message}); se prueba con ${next.name}`);
+        this.update(job, {
+          provider: next.id,
+          status: "queued",
+          progress: 0,
+          operation: undefined,
+          // Lo ya esperado se suma a lo que se estima para el nuevo proveedor
+          ...this.estimateTime(
+            next.id,
+            job.request,
+            (Date.now() - job.createdAt.getTime()) / 1000
+          ),
+          providerAttempts: [
+            ...(job.providerAttempts || []),
+            { provider: attempt.id, error: message, errorCategory: category },
+          ],
+          // El tiempo del nuevo proveedor (para eta.ts) cuenta desde aquí
+          attemptStartedAt: new Date(),
+        });
+        current = next;
+      } finally {
+        this.scheduler.release(attempt, job.id);
+      }
+    }
+  }
+
+  /**
+   * Saca de la cadena el siguiente proveedor utilizable para la petición. Los
+   * bloqueos por política de contenido no se reenvían a otro proveedor.
+   */
+  private nextFallback(
+    job: VideoJob,
+    category: ProviderErrorCategory | undefined
+  ): VideoProvider | null {
+    if (category === "content-policy") return null;
+
+    const remaining = [...(job.fallbackProviders || [])];
+    let next: VideoProvider | null = null;
+
+    while (!next && remaining.length > 0) {
+      const candidate = getProvider(remaining.shift()!);
+      if (!candidate || candidate.internal || !candidate.isConfigured()) continue;
+      if (!candidate.capabilities.aspectRatios.includes(job.request.aspectRatio)) continue;
+      if (job.request.durationSeconds > candidate.capabilities.maxDurationSeconds) continue;
+      if ((job.request.variants || 1) > candidate.capabilities.maxVariants) continue;
+      if (job.request.image && !candidate.capabilities.imageToVideo) continue;
+      const unsupportedParameter = ADVANCED_PARAMETERS.find(
+        (name) =>
+          job.request[name] !== undefined &&
+          !candidate.capabilities.advancedParameters.includes(name)
+      );
+      if (unsupportedParameter) continue;
+
+      try {
+        candidate.validateRequest?.(job.request);
+        next = candidate;
+      } catch {
+        continue;
+      }
+    }
+
+    if (remaining.length !== (job.fallbackProviders || []).length) {
+      this.update(job, { fallbackProviders: remaining });
+    }
+    return next;
+  }
+
+  // Actualiza la posición de los trabajos que esperan hueco en un proveedor
+  private refreshQueuePositions(providerId: string): void {
+    this.scheduler.getWaitingJobIds(providerId).forEach((jobId, index) => {
+      const job = this.activeJobs.get(jobId);
+      if (job && job.queuePosition !== index + 1) {
+        this.update(job, { queuePosition: index + 1 });
+      }
+    });
+  }
+
+  // Punto de control: corta el procesamiento si el trabajo se ha cancelado
+  private throwIfCancelled(job: VideoJob): void {
+    if (job.status === "cancelled") {
+      throw new JobCancelledError(job.id);
+    }
+  }
+
+  // Función para cancelar la operación en el proveedor, si la API lo permite
+  private async cancelRemote(job: VideoJob, provider: VideoProvider): Promise<void> {
+    if (!job.operation || !provider.cancel) return;
+
+    try {
+      await provider.cancel(job.operation);
+      console.log(`🛑 Operación ${job.operation.id} cancelada en ${provider.name}`);
+    } catch (error) {
+      console.warn(
+        `⚠️ No se pudo cancelar la operación ${job.operation.id} en ${provider.name}:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  // Función para procesar la generación: start → poll → download → thumbnail
+  private async process(
+    job: VideoJob,
+    provider: VideoProvider,
+    signal: AbortSignal
+  ): Promise<void> {
+    this.throwIfCancelled(job);
+    // Sigue en "queued" hasta que el proveedor tenga un hueco libre
+    await this.scheduler.acquire(provider, job.id, signal);
+    this.throwIfCancelled(job);
+    this.update(job, {
+      status: "processing",
+      progress: job.progress || 10,
+      queuePosition: undefined,
+    });
+
+    // Los errores del proveedor hacen fallar el trabajo (la simulación solo se usa
+    // si se elige explícitamente el proveedor "simulation")
+    if (!job.operation) {
+      const operation = await this.callProvider(job, provider, signal, () =>
+        provider.start(job.request)
+      );
+      // Se guarda aunque se haya cancelado mientras tanto, para poder cancelarla en remoto
+      this.update(job, { operation });
+      this.throwIfCancelled(job);
+      this.update(job, { progress: 30 });
+    }
+
+    const result = await this.pollUntilDone(job, provider, signal);
+
+    if (result.error) {
+      throw result.errorCategory
+        ? new ProviderError(result.error, result.errorCategory)
+        : new Error(result.error);
+    }
+
+    const assets = result.assets || [];
+    if (assets.length === 0) {
+      throw new Error("No se pudo obtener la URL del video generado");
+    }
+
+    this.update(job, { progress: 80 });
+
+    // Descargar y guardar cada variante; la primera conserva el nombre del trabajo
+    const outputs: VariantOutput[] = [];
+    for (const [index, asset] of assets.entries()) {
+      const paths = getOutputPaths(
+        index === 0 ? job.id : `${job.id}_v${index + 1}`,
+        asset.mimeType === "video/webm" ? ".webm" : ".mp4"
+      );
+      await this.callProvider(job, provider, signal, () =>
+        provider.download(asset, paths.videoPath)
+      );
+      const media = await this.inspect(job, paths.videoPath, signal);
+      const previews = await createPreviewAssets(
+        paths.videoPath,
+        paths.thumbnailPath,
+        media,
+        signal
+      );
+      this.throwIfCancelled(job);
+      const hls = await packageHls(
+        paths.videoPath,
+        path.parse(paths.videoPath).name,
+        media,
+        signal
+      );
+      this.throwIfCancelled(job);
+
+      outputs.push({ ...paths, ...previews, hls, media });
+      this.update(job, { progress: 80 + Math.round((15 * outputs.length) / assets.length) });
+    }
+
+    await this.recordProvider(job, provider);
+    await this.saveVariants(job, outputs);
+    // Un /cancel durante las escrituras anteriores ya dejó el coste a 0: no se pisa
+    this.throwIfCancelled(job);
+    // Coste real: el del proveedor que lo generó, por la duración medida de cada
+    // variante devuelta (la pedida si ffprobe no pudo analizarla)
+    await this.storage.updateVideoCost(
+      job.id,
+      computeActualCost(
+        provider,
+        job.request.resolution,
+        outputs.map((output) => output.media?.durationSeconds ?? job.request.durationSeconds)
+      )
+    );
+    this.throwIfCancelled(job);
+    this.complete(job, outputs[0].videoPath, outputs[0].thumbnailPath);
+  }
+
+  // Función para hacer polling del estado de la operación
+  private async pollUntilDone(
+    job: VideoJob,
+    provider: VideoProvider,
+    signal: AbortSignal
+  ): Promise<PollResult> {
+    const maxAttempts = provider.maxPollAttempts ?? MAX_POLL_ATTEMPTS;
+    let attempts = 0;
+
+    while (attempts < maxAttempts) {
+      const result = await this.callProvider(job, provider, signal, () =>
+        provider.poll(job.operation!)
+      );
+      this.throwIfCancelled(job);
+
+      // Actualizar progreso del job: el del proveedor (0-100) llevado al tramo
+      // 30-80 si lo informa; si no, una estimación por el tiempo transcurrido
+      this.update(job, {
+        progress:
+          result.progress !== undefined
+            ? Math.round(30 + result.progress * 0.5)
+            : estimateProgress(job),
+      });
+
+      if (result.done) {
+        return result;
+      }
+
+      attempts++;
+      await wait(provider.pollIntervalMs, signal);
+      this.throwIfCancelled(job);
+    }
+
+    // La operación se abandona: si el proveedor lo permite, que no siga en marcha
+    await this.cancelRemote(job, provider);
+    throw new ProviderError(
+      "Timeout: La generación de video tardó demasiado tiempo",
+      "transient"
+    );
+  }
+
+  /**
+   * Llama a la API del proveedor respetando su límite de peticiones por minuto.
+   * Los errores transitorios se reintentan con backoff; el resto (o el último
+   * transitorio) se lanza como ProviderError con su categoría.
+   */
+  private async callProvider<T>(
+    job: VideoJob,
+    provider: VideoProvider,
+    signal: AbortSignal,
+    call: () => Promise<T>
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.scheduler.acquireRequest(provider, signal);
+      this.throwIfCancelled(job);
+
+      try {
+        return await call();
+      } catch (error) {
+        this.throwIfCancelled(job);
+
+        const category = classifyError(error);
+        const message = error instanceof Error ? error.message : String(error);
+        if (category !== "transient" || attempt >= MAX_RETRIES) {
+          throw category ? new ProviderError(message, category) : error;
+        }
+
+        const delay = retryDelay(attempt);
+        console.warn(
+          `⚠️ Error transitorio en ${provider.name} (${job.id}): ${message}. Reintento ${
+            attempt + 1
+          }/${MAX_RETRIES} en ${delay} ms`
+        );
+        await wait(delay, signal);
+      }
+    }
+  }
+
+  // Guarda en los metadatos del video qué proveedor lo generó realmente
+  private async recordProvider(job: VideoJob, provider: VideoProvider): Promise<void> {
+    const video = await this.storage.getVideoByJobId(job.id);
+    if (!video) return;
+
+    const metadata = video.metadata ? JSON.parse(video.metadata) : {};
+    await this.storage.updateVideoMetadata(
+      job.id,
+      JSON.stringify({
+        ...metadata,
+        provider: provider.id,
+        requestedProvider: metadata.requestedProvider || metadata.provider || provider.id,
+        simulated: !!provider.simulated,
+        ...(job.providerAttempts?.length && { providerAttempts: job.providerAttempts }),
+      })
+    );
+  }
+
+  // Función para analizar un video descargado y compararlo con lo pedido
+  private async inspect(
+    job: VideoJob,
+    videoPath: string,
+    signal: AbortSignal
+  ): Promise<VideoMedia | null> {
+    try {
+      const media = checkMedia(await probeMedia(videoPath, signal), job.request);
+      media.mismatches.forEach((mismatch) => {
+        console.warn(
+          `⚠️ ${path.basename(videoPath)}: ${mismatch.field} pedido ${mismatch.requested}, recibido ${mismatch.actual}`
+        );
+      });
+      return media;
+    } catch (error) {
+      console.warn(`No se pudo analizar ${path.basename(videoPath)} con ffprobe:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Registra cada video descargado como variante de la generación. La primera
+   * queda como principal hasta que se elija otra.
+   */
+  private async saveVariants(
+    job: VideoJob,
+    outputs: VariantOutput[]
+  ): Promise<void> {
+    const video = await this.storage.getVideoByJobId(job.id);
+    if (!video) return;
+
+    for (const [index, output] of outputs.entries()) {
+      await this.storage.createVideoVariant({
+        video_id: video.id,
+        variant_index: index,
+        video_url: toPublicUrl(output.videoPath),
+        thumbnail_url: toPublicUrl(output.thumbnailPath),
+        preview_track_url: output.previewTrackPath
+          ? toPublicUrl(output.previewTrackPath)
+          : null,
+        hls_url: output.hls?.masterUrl || null,
+        renditions: output.hls ? JSON.stringify(output.hls.renditions) : null,
+        media: output.media ? JSON.stringify(output.media) : null,
+      });
+    }
+
+    const [primary] = await this.storage.getVideoVariants(video.id);
+    if (primary) {
+      await this.storage.setPrimaryVariant(video.id, primary);
+    }
+  }
+
+  private complete(job: VideoJob, videoPath: string, thumbnailPath: string): void {
+    const completedAt = new Date();
+    // Solo lo que tardó el proveedor que lo generó, sin los intentos fallidos de otros
+    const startedAt = job.attemptStartedAt || job.createdAt;
+    this.eta.record(
+      job.provider,
+      job.duration,
+      (completedAt.getTime() - startedAt.getTime()) / 1000
+    );
+    this.update(job, {
+      status: "completed",
+      videoUrl: toPublicUrl(videoPath),
+      thumbnailUrl: toPublicUrl(thumbnailPath),
+      completedAt,
+      progress: 100,
+    });
+  }
+
+  // Estimación del proveedor para la petición, desplazada por lo ya transcurrido
+  private estimateTime(
+    providerId: string,
+    request: GenerationRequest,
+    elapsedSeconds = 0
+  ): Pick<VideoJob, "estimatedTime" | "estimatedTimeRange"> {
+    const { expected, range } = this.eta.estimate(providerId, request.durationSeconds);
+    const offset = Math.round(elapsedSeconds);
+    return {
+      estimatedTime: expected + offset,
+      estimatedTimeRange: { min: range.min + offset, max: range.max + offset },
+    };
+  }
+
+  /**
+   * Reconstruye un trabajo persistido con la estimación actual de su proveedor.
+   * Tras un fallback se desplaza, como al cambiar de proveedor, por lo que se
+   * esperó antes de empezar el intento (attemptStartedAt se guarda con el trabajo)
+   */
+  private hydrate(record: VideoJobRecord): VideoJob {
+    const job = fromRecord(record);
+    const offsetSeconds = job.attemptStartedAt
+      ? (job.attemptStartedAt.getTime() - job.createdAt.getTime()) / 1000
+      : 0;
+    return { ...job, ...this.estimateTime(job.provider, job.request, offsetSeconds) };
+  }
+
+  private fail(
+    job: VideoJob,
+    error: string,
+    errorCategory?: ProviderErrorCategory
+  ): void {
+    this.update(job, { status: "failed", error, errorCategory, progress: 0 });
+  }
+
+  /**
+   * Aplica cambios al trabajo, los notifica y los persiste; en los cambios de
+   * estado también actualiza la fila de Video correspondiente
+   */
+  private update(job: VideoJob, changes: Partial<VideoJob>): void {
+    const statusChanged =
+      changes.status !== undefined && changes.status !== job.status;
+    Object.assign(job, changes);
+
+    const update: VideoJobUpdate = { job, changes, statusChanged };
+    this.emit("update", update);
+
+    this.persist(job, statusChanged).catch((error) => {
+      console.error(`❌ Error guardando el trabajo ${job.id}:`, error);
+    });
+  }
+
+  private async persist(job: VideoJob, statusChanged: boolean): Promise<void> {
+    await this.storage.saveJob(toRecord(job));
+    if (statusChanged) {
+      await this.storage.updateVideoStatus(
+        job.id,
+        job.status,
+        job.videoUrl,
+        job.thumbnailUrl
+      );
+      // Los trabajos fallidos o cancelados no cuentan para el presupuesto
+      if (job.status === "failed" || job.status === "cancelled") {
+        await this.storage.updateVideoCost(job.id, 0);
+      }
+    }
+  }
+}
@@ -0,0 +1,209 @@
+import crypto from "crypto";
+import axios from "axios";
+import type {
+  StorageAdapter,
+  Webhook,
+  WebhookDelivery,
+  WebhookEvent,
+} from "../database";
+import type { VideoJobRunner, VideoJobUpdate } from "./videoJobs";
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  "video.completed",
+  "video.failed",
+  "prompt.optimized",
+];
+
+// Reintentos con backoff exponencial: 2s, 4s, 8s, 16s... hasta MAX_ATTEMPTS intentos
+const MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "5");
+const RETRY_BASE_DELAY_MS = parseInt(
+  process.env.WEBHOOK_RETRY_BASE_DELAY_MS || "2000"
+);
+const REQUEST_TIMEOUT_MS = 10000;
+
+// Lo necesario para (re)intentar una entrega
+type PendingDelivery = Pick<
+  WebhookDelivery,
+  "id" | "webhook_id" | "event" | "payload" | "attempts"
+>;
+
+/**
+ * Firma HMAC-SHA256 de `${timestamp}.${body}` con el secreto del webhook.
+ * El receptor la recalcula para verificar el origen y descartar reenvíos antiguos.
+ */
+export function signPayload(
+  secret: string,
+  timestamp: string,
+  body: string
+): string {
+  return crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+}
+
+export function generateWebhookSecret(): string {
+  return crypto.randomBytes(24).toString("hex");
+}
+
+export function parseWebhookEvents(webhook: Webhook): WebhookEvent[] {
+  try {
+    return JSON.parse(webhook.events);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Envía los eventos a los webhooks suscritos. Cada entrega queda registrada en
+ * el almacenamiento con sus intentos, de modo que las pendientes se reanudan
+ * tras un reinicio con resume().
+ */
+export class WebhookDispatcher {
+  constructor(private readonly storage: StorageAdapter) {}
+
+  // Función para encolar un evento para todos los webhooks suscritos
+  async dispatch(event: WebhookEvent, data: Record<string, unknown>): Promise<number> {
+    const webhooks = (await this.storage.getAllWebhooks()).filter((webhook) =>
+      parseWebhookEvents(webhook).includes(event)
+    );
+
+    for (const webhook of webhooks) {
+      const payload = JSON.stringify({
+        event,
+        createdAt: new Date().toISOString(),
+        data,
+      });
+      const { lastInsertRowid } = await this.storage.createWebhookDelivery({
+        webhook_id: webhook.id,
+        event,
+        payload,
+      });
+
+      this.run({
+        id: lastInsertRowid,
+        webhook_id: webhook.id,
+        event,
+        payload,
+        attempts: 0,
+      });
+    }
+
+    return webhooks.length;
+  }
+
+  /**
+   * Reanuda las entregas que quedaron pendientes antes de un reinicio
+   */
+  async resume(): Promise<number> {
+    const pending = await this.storage.getPendingWebhookDeliveries();
+    pending.forEach((delivery) => this.run(delivery));
+    return pending.length;
+  }
+
+  // Notifica las transiciones a completed/failed de los trabajos de video
+  watchJobs(jobs: VideoJobRunner): void {
+    jobs.on("update", ({ job, statusChanged }: VideoJobUpdate) => {
+      if (!statusChanged) return;
+      if (job.status !== "completed" && job.status !== "failed") return;
+
+      const event: WebhookEvent =
+        job.status === "completed" ? "video.completed" : "video.failed";
+
+      this.storage
+        .getVideoByJobId(job.id)
+        .then((video) =>
+          this.dispatch(event, {
+            videoId: video?.id ?? null,
+            jobId: job.id,
+            provider: job.provider,
+            status: job.status,
+            prompt: job.prompt,
+            videoUrl: job.videoUrl ?? null,
+            thumbnailUrl: job.thumbnailUrl ?? null,
+            error: job.error ?? null,
+            createdAt: job.createdAt,
+            completedAt: job.completedAt ?? null,
+          })
+        )
+        .catch((error) => {
+          console.error(`❌ Error notificando ${event} del trabajo ${job.id}:`, error);
+        });
+    });
+  }
+
+  private run(delivery: PendingDelivery): void {
+    this.deliver(delivery).catch((error) => {
+      console.error(`❌ Error en la entrega de webhook ${delivery.id}:`, error);
+    });
+  }
+
+  // Función para enviar una entrega, reintentando con backoff hasta MAX_ATTEMPTS
+  private async deliver(delivery: PendingDelivery): Promise<void> {
+    let attempts = delivery.attempts;
+
+    while (attempts < MAX_ATTEMPTS) {
+      const webhook = await this.storage.getWebhookById(delivery.webhook_id);
+      if (!webhook) {
+        await this.storage.updateWebhookDelivery(delivery.id, {
+          status: "failed",
+          error: "El webhook ha sido eliminado",
+        });
+        return;
+      }
+
+      attempts++;
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+
+      try {
+        const response = await axios.post(webhook.url, delivery.payload, {
+          headers: {
+            "Content-Type": "application/json",
+            "X-Webhook-Event": delivery.event,
+            "X-Webhook-Delivery": String(delivery.id),
+            "X-Webhook-Timestamp": timestamp,
+            "X-Webhook-Signature": `sha256=${signPayload(
+              webhook.secret,
+              timestamp,
+              delivery.payload
+            )}`,
+          },
+          timeout: REQUEST_TIMEOUT_MS,
+        });
+
+        await this.storage.updateWebhookDelivery(delivery.id, {
+          status: "delivered",
+          attempts,
+          response_status: response.status,
+          error: null,
+          delivered_at: new Date().toISOString(),
+        });
+        return;
+      } catch (error) {
+        const responseStatus = axios.isAxiosError(error)
+          ? error.response?.status ?? null
+          : null;
+        const message = error instanceof Error ? error.message : "Error desconocido";
+        const exhausted = attempts >= MAX_ATTEMPTS;
+
+        await this.storage.updateWebhookDelivery(delivery.id, {
+          status: exhausted ? "failed" : "pending",
+          attempts,
+          response_status: responseStatus,
+          error: message,
+        });
+
+        if (exhausted) {
+          console.warn(
+            `⚠️ Webhook ${webhook.url}: entrega ${delivery.id} (${delivery.event}) fallida tras ${attempts} intentos`
+          );
+          return;
+        }
+
+        await new Promise((resolve) =>
+          setTimeout(resolve, RETRY_BASE_DELAY_MS * 2 ** (attempts - 1))
+        );
+      }
+    }
+  }
+}
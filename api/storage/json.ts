@@ -0,0 +1,241 @@
+import fs from 'fs';
+import path from 'path';
+import { MemoryStorageAdapter, type CollectionName, type RecordId } from './memory';
+import { placeholderThumbnailUrl } from './migrations';
+
+// Número de entradas del journal tras las que se reescriben los snapshots
+const COMPACT_EVERY = parseInt(process.env.JSON_JOURNAL_COMPACT_EVERY || '50');
+
+interface JournalEntry {
+    collection: CollectionName;
+    record: { id: RecordId };
+    deleted?: boolean;
+}
+
+type SnapshotSource = 'main' | 'backup' | 'empty';
+
+/**
+ * Almacenamiento en archivos JSON, un snapshot por colección (data/prompts.json,
+ * data/videos.json, data/jobs.json, data/webhooks.json...).
+ *
+ * Cada escritura se añade primero a un journal append-only (data/journal.log) y
+ * solo cada COMPACT_EVERY cambios se reescriben los snapshots. Los snapshots se
+ * escriben en un archivo temporal y se renombran, conservando la versión
+ * anterior en `.bak`. Al arrancar se detectan snapshots corruptos, se recupera
+ * el último `.bak` válido y se reaplica el journal.
+ */
+export class JsonStorageAdapter extends MemoryStorageAdapter {
+    readonly driver = 'json';
+
+    private readonly journalFile: string;
+    private readonly previousJournalFile: string;
+    private pendingEntries = 0;
+
+    constructor(private readonly dataDir: string) {
+        super();
+        this.journalFile = path.join(dataDir, 'journal.log');
+        this.previousJournalFile = path.join(dataDir, 'journal.log.prev');
+    }
+
+    async init(): Promise<void> {
+        if (!fs.existsSync(this.dataDir)) {
+            fs.mkdirSync(this.dataDir, { recursive: true });
+        }
+
+        const recoveredFromBackup = new Set<CollectionName>();
+        for (const collection of Object.keys(this.data) as CollectionName[]) {
+            const { rows, source } = this.loadSnapshot(collection);
+            (this.data[collection] as { id: RecordId }[]) = rows;
+            if (source === 'backup') {
+                recoveredFromBackup.add(collection);
+            }
+        }
+
+        // El .bak es anterior a la última rotación del journal: reaplicar también el journal previo
+        let replayed = 0;
+        if (recoveredFromBackup.size > 0) {
+            replayed += this.replayJournal(this.previousJournalFile, recoveredFromBackup);
+        }
+        replayed += this.replayJournal(this.journalFile);
+
+        if (replayed > 0 || recoveredFromBackup.size > 0) {
+            console.log(`♻️  Journal reaplicado (${replayed} entradas), compactando snapshots`);
+        }
+        this.repairPlaceholderThumbnails();
+        this.compact();
+    }
+
+    /**
+     * Equivalente a la corrección de la migración 11 de SQLite: los thumbnails
+     * .jpg que no existen pasan a su placeholder .svg. La compactación posterior
+     * guarda el cambio en los snapshots
+     */
+    private repairPlaceholderThumbnails(): void {
+        let repaired = 0;
+        for (const rows of [this.data.videos, this.data.video_variants, this.data.jobs]) {
+            for (const row of rows as { thumbnail_url: string | null }[]) {
+                const svgUrl = placeholderThumbnailUrl(row.thumbnail_url);
+                if (svgUrl) {
+                    row.thumbnail_url = svgUrl;
+                    repaired++;
+                }
+            }
+        }
+
+        if (repaired > 0) {
+            console.log(`🖼️  ${repaired} thumbnail(s) placeholder corregido(s) a .svg`);
+        }
+    }
+
+    protected onChange(collection: CollectionName, record: { id: RecordId }): void {
+        this.writeEntry({ collection, record });
+    }
+
+    protected onDelete(collection: CollectionName, id: RecordId): void {
+        this.writeEntry({ collection, record: { id }, deleted: true });
+    }
+
+    private writeEntry(entry: JournalEntry): void {
+        this.appendJournal(entry);
+        this.pendingEntries++;
+
+        if (this.pendingEntries >= COMPACT_EVERY) {
+            try {
+                this.compact();
+            } catch (error) {
+                // El journal ya contiene el cambio; se reintentará en la próxima compactación
+                console.error('❌ Error compactando el almacenamiento JSON:', error);
+            }
+        }
+    }
+
+    private snapshotFile(collection: CollectionName): string {
+        return path.join(this.dataDir, `${collection}.json`);
+    }
+
+    /**
+     * Lee un snapshot validándolo; si está corrupto lo aparta y usa el `.bak`
+     */
+    private loadSnapshot(collection: CollectionName): { rows: { id: RecordId }[]; source: SnapshotSource } {
+        const file = this.snapshotFile(collection);
+        const backupFile = `${file}.bak`;
+
+        if (!fs.existsSync(file) && !fs.existsSync(backupFile)) {
+            return { rows: [], source: 'empty' };
+        }
+
+        const main = this.readSnapshotFile(file);
+        if (main) {
+            return { rows: main, source: 'main' };
+        }
+
+        if (fs.existsSync(file)) {
+            const quarantined = `${file}.corrupt-${Date.now()}`;
+            fs.renameSync(file, quarantined);
+            console.warn(`⚠️  ${path.basename(file)} está corrupto, movido a ${path.basename(quarantined)}`);
+        }
+
+        const backup = this.readSnapshotFile(backupFile);
+        if (backup) {
+            console.warn(`⚠️  Recuperando ${collection} desde ${path.basename(backupFile)}`);
+            return { rows: backup, source: 'backup' };
+        }
+
+        console.error(`❌ No hay snapshot válido de ${collection}; se reconstruirá desde el journal`);
+        return { rows: [], source: 'backup' };
+    }
+
+    private readSnapshotFile(file: string): { id: RecordId }[] | null {
+        if (!fs.existsSync(file)) return null;
+        try {
+            const rows = JSON.parse(fs.readFileSync(file, 'utf8'));
+            if (Array.isArray(rows) && rows.every(row => row && (typeof row.id === 'number' || typeof row.id === 'string'))) {
+                return rows;
+            }
+        } catch {
+            // Contenido truncado o inválido
+        }
+        return null;
+    }
+
+    /**
+     * Reaplica las entradas del journal (upsert o borrado por id). Las líneas incompletas
+     * por un corte a mitad de escritura se ignoran.
+     */
+    private replayJournal(file: string, only?: Set<CollectionName>): number {
+        if (!fs.existsSync(file)) return 0;
+
+        let replayed = 0;
+        const lines = fs.readFileSync(file, 'utf8').split('\n');
+        for (const line of lines) {
+            if (!line.trim()) continue;
+
+            let entry: JournalEntry;
+            try {
+                entry = JSON.parse(line);
+            } catch {
+                console.warn(`⚠️  Entrada de journal ilegible ignorada en ${path.basename(file)}`);
+                continue;
+            }
+
+            const rows = this.data[entry.collection] as { id: RecordId }[] | undefined;
+            if (!rows || (only && !only.has(entry.collection))) continue;
+
+            const index = rows.findIndex(row => row.id === entry.record.id);
+            if (entry.deleted) {
+                if (index >= 0) rows.splice(index, 1);
+            } else if (index >= 0) {
+                rows[index] = entry.record;
+            } else {
+                rows.push(entry.record);
+            }
+            replayed++;
+        }
+        return replayed;
+    }
+
+    private appendJournal(entry: JournalEntry): void {
+        const fd = fs.openSync(this.journalFile, 'a');
+        try {
+            fs.writeSync(fd, JSON.stringify(entry) + '\n');
+            fs.fsyncSync(fd);
+        } finally {
+            fs.closeSync(fd);
+        }
+    }
+
+    /**
+     * Reescribe todos los snapshots de forma atómica y rota el journal
+     */
+    private compact(): void {
+        for (const collection of Object.keys(this.data) as CollectionName[]) {
+            this.writeFileAtomic(this.snapshotFile(collection), JSON.stringify(this.data[collection], null, 2));
+        }
+
+        if (fs.existsSync(this.journalFile)) {
+            fs.renameSync(this.journalFile, this.previousJournalFile);
+        }
+        this.pendingEntries = 0;
+    }
+
+    /**
+     * Escribe en un temporal, hace fsync y lo renombra sobre el destino,
+     * guardando antes el contenido actual como `.bak`
+     */
+    private writeFileAtomic(file: string, content: string): void {
+        const tmpFile = `${file}.${process.pid}.tmp`;
+
+        const fd = fs.openSync(tmpFile, 'w');
+        try {
+            fs.writeSync(fd, content);
+            fs.fsyncSync(fd);
+        } finally {
+            fs.closeSync(fd);
+        }
+
+        if (fs.existsSync(file)) {
+            fs.copyFileSync(file, `${file}.bak`);
+        }
+        fs.renameSync(tmpFile, file);
+    }
+}
@@ -0,0 +1,461 @@
+import type {
+    StorageAdapter,
+    Prompt,
+    Video,
+    CreatePromptData,
+    CreateVideoData,
+    VideoJobRecord,
+    Webhook,
+    CreateWebhookData,
+    WebhookDelivery,
+    CreateWebhookDeliveryData,
+    WebhookDeliveryChanges,
+    VideoBatch,
+    CreateVideoBatchData,
+    VideoBatchItem,
+    CreateVideoBatchItemData,
+    VideoBatchItemChanges,
+    VideoVariant,
+    CreateVideoVariantData,
+    VideoSequence,
+    CreateVideoSequenceData,
+    VideoSequenceChanges
+} from './types';
+
+export interface MemoryCollections {
+    prompts: Prompt[];
+    videos: Video[];
+    jobs: VideoJobRecord[];
+    webhooks: Webhook[];
+    webhook_deliveries: WebhookDelivery[];
+    batches: VideoBatch[];
+    batch_items: VideoBatchItem[];
+    video_variants: VideoVariant[];
+    sequences: VideoSequence[];
+    id_counters: IdCounter[];
+}
+
+export type CollectionName = keyof MemoryCollections;
+
+// Colecciones con id numérico autoincremental
+type NumericCollectionName = 'prompts' | 'videos' | 'webhooks' | 'webhook_deliveries' | 'batches' | 'batch_items' | 'video_variants' | 'sequences';
+
+export type RecordId = number | string;
+
+/**
+ * Último id asignado en cada colección (como sqlite_sequence con AUTOINCREMENT):
+ * así un id borrado no se reutiliza y no hereda entregas o logs del anterior
+ */
+interface IdCounter {
+    id: NumericCollectionName;
+    last_id: number;
+}
+
+const byNewest = (a: { created_at: string }, b: { created_at: string }) =>
+    new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+
+/**
+ * Almacenamiento en memoria. Útil para tests y entornos efímeros; también es la
+ * base del adaptador JSON, que solo añade la persistencia a disco.
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+    readonly driver: string = 'memory';
+
+    protected data: MemoryCollections = {
+        prompts: [],
+        videos: [],
+        jobs: [],
+        webhooks: [],
+        webhook_deliveries: [],
+        batches: [],
+        batch_items: [],
+        video_variants: [],
+        sequences: [],
+        id_counters: []
+    };
+
+    async init(): Promise<void> {}
+
+    /**
+     * Se llama tras cada escritura con el registro afectado.
+     * Los adaptadores persistentes lo sobrescriben.
+     */
+    protected onChange(_collection: CollectionName, _record: { id: RecordId }): void {}
+
+    /**
+     * Se llama tras cada borrado con el id del registro eliminado
+     */
+    protected onDelete(_collection: CollectionName, _id: RecordId): void {}
+
+    protected nextId(collection: NumericCollectionName): number {
+        let counter = this.data.id_counters.find(c => c.id === collection);
+        if (!counter) {
+            counter = { id: collection, last_id: 0 };
+            this.data.id_counters.push(counter);
+        }
+
+        // El máximo cubre los datos guardados antes de que existieran los contadores
+        counter.last_id = Math.max(counter.last_id, ...this.data[collection].map(row => row.id || 0)) + 1;
+        this.onChange('id_counters', counter);
+        return counter.last_id;
+    }
+
+    // Prompts
+    async createPrompt(data: CreatePromptData): Promise<{ lastInsertRowid: number }> {
+        const newPrompt: Prompt = {
+            id: this.nextId('prompts'),
+            original_prompt: data.original_prompt,
+            optimized_prompt: data.optimized_prompt,
+            improvements: data.improvements || null,
+            confidence_score: data.confidence_score || 0.8,
+            target_style: data.target_style || 'cinematic',
+            duration: data.duration || 10,
+            created_at: new Date().toISOString()
+        };
+
+        this.data.prompts.push(newPrompt);
+        this.onChange('prompts', newPrompt);
+
+        return { lastInsertRowid: newPrompt.id };
+    }
+
+    async getPromptById(id: number): Promise<Prompt | null> {
+        const prompt = this.data.prompts.find(p => p.id === id);
+        return prompt ? { ...prompt } : null;
+    }
+
+    async getAllPrompts(): Promise<Prompt[]> {
+        return this.data.prompts.map(p => ({ ...p })).sort(byNewest);
+    }
+
+    // Videos
+    async createVideo(data: CreateVideoData): Promise<{ lastInsertRowid: number }> {
+        const newVideo: Video = {
+            id: this.nextId('videos'),
+            prompt_id: data.prompt_id || null,
+            veo_job_id: data.veo_job_id,
+            status: data.status || 'queued',
+            video_url: null,
+            thumbnail_url: null,
+            preview_track_url: null,
+            hls_url: null,
+            renditions: null,
+            media: null,
+            duration_seconds: data.duration_seconds || 10,
+            metadata: data.metadata || null,
+            user_id: data.user_id || null,
+            cost: data.cost ?? null,
+            content_hash: data.content_hash || null,
+            created_at: new Date().toISOString(),
+            completed_at: null
+        };
+
+        this.data.videos.push(newVideo);
+        this.onChange('videos', newVideo);
+
+        return { lastInsertRowid: newVideo.id };
+    }
+
+    async getVideoById(id: number): Promise<Video | null> {
+        const video = this.data.videos.find(v => v.id === id);
+        return video ? { ...video } : null;
+    }
+
+    async getVideoByJobId(jobId: string): Promise<Video | null> {
+        const video = this.data.videos.find(v => v.veo_job_id === jobId);
+        return video ? { ...video } : null;
+    }
+
+    async updateVideoStatus(jobId: string, status: Video['status'], videoUrl?: string, thumbnailUrl?: string): Promise<void> {
+        const video = this.data.videos.find(v => v.veo_job_id === jobId);
+        if (video) {
+            video.status = status;
+            if (videoUrl) video.video_url = videoUrl;
+            if (thumbnailUrl) video.thumbnail_url = thumbnailUrl;
+            if (status === 'completed') {
+                video.completed_at = new Date().toISOString();
+            }
+            this.onChange('videos', video);
+        }
+    }
+
+    async updateVideoMetadata(jobId: string, metadata: string): Promise<void> {
+        const video = this.data.videos.find(v => v.veo_job_id === jobId);
+        if (video) {
+            video.metadata = metadata;
+            this.onChange('videos', video);
+        }
+    }
+
+    async updateVideoCost(jobId: string, cost: number): Promise<void> {
+        const video = this.data.videos.find(v => v.veo_job_id === jobId);
+        if (video) {
+            video.cost = cost;
+            this.onChange('videos', video);
+        }
+    }
+
+    async getSpendSince(since: string, userId?: string): Promise<number> {
+        return this.data.videos
+            .filter(v => v.created_at >= since && (!userId || v.user_id === userId))
+            .reduce((total, v) => total + (v.cost || 0), 0);
+    }
+
+    async getCompletedVideoByHash(contentHash: string): Promise<Video | null> {
+        const video = this.data.videos
+            .filter(v => v.content_hash === contentHash && v.status === 'completed')
+            .sort((a, b) => b.created_at.localeCompare(a.created_at))[0];
+        return video ? { ...video } : null;
+    }
+
+    async createVideoVariant(data: CreateVideoVariantData): Promise<{ lastInsertRowid: number }> {
+        const variant: VideoVariant = {
+            id: this.nextId('video_variants'),
+            ...data,
+            preview_track_url: data.preview_track_url || null,
+            hls_url: data.hls_url || null,
+            renditions: data.renditions || null,
+            media: data.media || null,
+            created_at: new Date().toISOString()
+        };
+
+        this.data.video_variants.push(variant);
+        this.onChange('video_variants', variant);
+
+        return { lastInsertRowid: variant.id };
+    }
+
+    async getVideoVariants(videoId: number): Promise<VideoVariant[]> {
+        return this.data.video_variants
+            .filter(v => v.video_id === videoId)
+            .map(v => ({ ...v }))
+            .sort((a, b) => a.variant_index - b.variant_index);
+    }
+
+    async setPrimaryVariant(videoId: number, variant: VideoVariant): Promise<void> {
+        const video = this.data.videos.find(v => v.id === videoId);
+        if (video) {
+            video.primary_variant_id = variant.id;
+            video.video_url = variant.video_url;
+            video.thumbnail_url = variant.thumbnail_url;
+            video.preview_track_url = variant.preview_track_url;
+            video.hls_url = variant.hls_url;
+            video.renditions = variant.renditions;
+            video.media = variant.media;
+            this.onChange('videos', video);
+        }
+    }
+
+    async getAllVideos(): Promise<Video[]> {
+        return this.data.videos.map(v => ({ ...v })).sort(byNewest);
+    }
+
+    async getVideosByStatus(status: Video['status']): Promise<Video[]> {
+        return this.data.videos.filter(v => v.status === status).map(v => ({ ...v })).sort(byNewest);
+    }
+
+    // Trabajos de generación
+    async saveJob(job: VideoJobRecord): Promise<void> {
+        const index = this.data.jobs.findIndex(j => j.id === job.id);
+        const record = { ...job };
+        if (index >= 0) {
+            this.data.jobs[index] = record;
+        } else {
+            this.data.jobs.push(record);
+        }
+        this.onChange('jobs', record);
+    }
+
+    async getJob(id: string): Promise<VideoJobRecord | null> {
+        const job = this.data.jobs.find(j => j.id === id);
+        return job ? { ...job } : null;
+    }
+
+    async getUnfinishedJobs(): Promise<VideoJobRecord[]> {
+        return this.data.jobs
+            .filter(j => j.status === 'queued' || j.status === 'processing')
+            .map(j => ({ ...j }));
+    }
+
+    async getCompletedJobs(provider: string, limit: number): Promise<VideoJobRecord[]> {
+        return this.data.jobs
+            .filter(j => j.provider === provider && j.status === 'completed' && j.completed_at)
+            .sort((a, b) => b.completed_at!.localeCompare(a.completed_at!))
+            .slice(0, limit)
+            .map(j => ({ ...j }));
+    }
+
+    // Webhooks
+    async createWebhook(data: CreateWebhookData): Promise<{ lastInsertRowid: number }> {
+        const webhook: Webhook = {
+            id: this.nextId('webhooks'),
+            url: data.url,
+            secret: data.secret,
+            events: data.events,
+            created_at: new Date().toISOString()
+        };
+
+        this.data.webhooks.push(webhook);
+        this.onChange('webhooks', webhook);
+
+        return { lastInsertRowid: webhook.id };
+    }
+
+    async getWebhookById(id: number): Promise<Webhook | null> {
+        const webhook = this.data.webhooks.find(w => w.id === id);
+        return webhook ? { ...webhook } : null;
+    }
+
+    async getAllWebhooks(): Promise<Webhook[]> {
+        return this.data.webhooks.map(w => ({ ...w })).sort(byNewest);
+    }
+
+    async deleteWebhook(id: number): Promise<boolean> {
+        const index = this.data.webhooks.findIndex(w => w.id === id);
+        if (index < 0) return false;
+
+        this.data.webhooks.splice(index, 1);
+        this.onDelete('webhooks', id);
+        return true;
+    }
+
+    async createWebhookDelivery(data: CreateWebhookDeliveryData): Promise<{ lastInsertRowid: number }> {
+        const now = new Date().toISOString();
+        const delivery: WebhookDelivery = {
+            id: this.nextId('webhook_deliveries'),
+            webhook_id: data.webhook_id,
+            event: data.event,
+            payload: data.payload,
+            status: 'pending',
+            attempts: 0,
+            response_status: null,
+            error: null,
+            created_at: now,
+            updated_at: now,
+            delivered_at: null
+        };
+
+        this.data.webhook_deliveries.push(delivery);
+        this.onChange('webhook_deliveries', delivery);
+
+        return { lastInsertRowid: delivery.id };
+    }
+
+    async updateWebhookDelivery(id: number, changes: WebhookDeliveryChanges): Promise<void> {
+        const delivery = this.data.webhook_deliveries.find(d => d.id === id);
+        if (delivery) {
+            Object.assign(delivery, changes, { updated_at: new Date().toISOString() });
+            this.onChange('webhook_deliveries', delivery);
+        }
+    }
+
+    async getWebhookDeliveries(webhookId: number, limit = 50): Promise<WebhookDelivery[]> {
+        return this.data.webhook_deliveries
+            .filter(d => d.webhook_id === webhookId)
+            .map(d => ({ ...d }))
+            .sort(byNewest)
+            .slice(0, limit);
+    }
+
+    async getPendingWebhookDeliveries(): Promise<WebhookDelivery[]> {
+        return this.data.webhook_deliveries
+            .filter(d => d.status === 'pending')
+            .map(d => ({ ...d }));
+    }
+
+    // Lotes de generación
+    async createBatch(data: CreateVideoBatchData): Promise<{ lastInsertRowid: number }> {
+        const batch: VideoBatch = {
+            id: this.nextId('batches'),
+            name: data.name,
+            created_at: new Date().toISOString()
+        };
+
+        this.data.batches.push(batch);
+        this.onChange('batches', batch);
+
+        return { lastInsertRowid: batch.id };
+    }
+
+    async getBatchById(id: number): Promise<VideoBatch | null> {
+        const batch = this.data.batches.find(b => b.id === id);
+        return batch ? { ...batch } : null;
+    }
+
+    async getAllBatches(): Promise<VideoBatch[]> {
+        return this.data.batches.map(b => ({ ...b })).sort(byNewest);
+    }
+
+    async createBatchItem(data: CreateVideoBatchItemData): Promise<{ lastInsertRowid: number }> {
+        const now = new Date().toISOString();
+        const item: VideoBatchItem = {
+            id: this.nextId('batch_items'),
+            batch_id: data.batch_id,
+            row_number: data.row_number,
+            input: data.input,
+            video_id: null,
+            job_id: null,
+            error: null,
+            attempts: 0,
+            created_at: now,
+            updated_at: now
+        };
+
+        this.data.batch_items.push(item);
+        this.onChange('batch_items', item);
+
+        return { lastInsertRowid: item.id };
+    }
+
+    async updateBatchItem(id: number, changes: VideoBatchItemChanges): Promise<void> {
+        const item = this.data.batch_items.find(i => i.id === id);
+        if (item) {
+            Object.assign(item, changes, { updated_at: new Date().toISOString() });
+            this.onChange('batch_items', item);
+        }
+    }
+
+    async getBatchItems(batchId: number): Promise<VideoBatchItem[]> {
+        return this.data.batch_items
+            .filter(i => i.batch_id === batchId)
+            .map(i => ({ ...i }))
+            .sort((a, b) => a.row_number - b.row_number);
+    }
+
+    // Secuencias
+    async createSequence(data: CreateVideoSequenceData): Promise<{ lastInsertRowid: number }> {
+        const now = new Date().toISOString();
+        const sequence: VideoSequence = {
+            id: this.nextId('sequences'),
+            name: data.name,
+            aspect_ratio: data.aspect_ratio,
+            items: data.items,
+            video_id: null,
+            job_id: null,
+            created_at: now,
+            updated_at: now
+        };
+
+        this.data.sequences.push(sequence);
+        this.onChange('sequences', sequence);
+
+        return { lastInsertRowid: sequence.id };
+    }
+
+    async getSequenceById(id: number): Promise<VideoSequence | null> {
+        const sequence = this.data.sequences.find(s => s.id === id);
+        return sequence ? { ...sequence } : null;
+    }
+
+    async getAllSequences(): Promise<VideoSequence[]> {
+        return this.data.sequences.map(s => ({ ...s })).sort(byNewest);
+    }
+
+    async updateSequence(id: number, changes: VideoSequenceChanges): Promise<void> {
+        const sequence = this.data.sequences.find(s => s.id === id);
+        if (sequence) {
+            Object.assign(sequence, changes, { updated_at: new Date().toISOString() });
+            this.onChange('sequences', sequence);
+        }
+    }
+}
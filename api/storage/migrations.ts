@@ -0,0 +1,378 @@
+import fs from 'fs';
+import path from 'path';
+import type Database from 'better-sqlite3';
+import type { Prompt, Video } from './types';
+
+export interface MigrationContext {
+    dataDir: string;
+}
+
+interface Migration {
+    version: number;
+    name: string;
+    up: (db: Database.Database, context: MigrationContext) => void;
+}
+
+/**
+ * Migraciones versionadas. Nunca modificar una migración ya publicada:
+ * añadir una nueva con el siguiente número de versión.
+ */
+const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        name: 'create_prompts_and_videos',
+        up: (db) => {
+            db.exec(`
+                CREATE TABLE prompts (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    original_prompt TEXT NOT NULL,
+                    optimized_prompt TEXT NOT NULL,
+                    improvements TEXT,
+                    confidence_score REAL NOT NULL DEFAULT 0.8,
+                    target_style TEXT NOT NULL DEFAULT 'cinematic',
+                    duration INTEGER NOT NULL DEFAULT 10,
+                    created_at TEXT NOT NULL
+                );
+
+                CREATE TABLE videos (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    prompt_id INTEGER,
+                    veo_job_id TEXT NOT NULL,
+                    status TEXT NOT NULL DEFAULT 'queued',
+                    video_url TEXT,
+                    thumbnail_url TEXT,
+                    duration_seconds INTEGER NOT NULL DEFAULT 10,
+                    metadata TEXT,
+                    created_at TEXT NOT NULL,
+                    completed_at TEXT
+                );
+
+                CREATE INDEX idx_prompts_created_at ON prompts (created_at);
+                CREATE INDEX idx_videos_veo_job_id ON videos (veo_job_id);
+                CREATE INDEX idx_videos_status ON videos (status);
+                CREATE INDEX idx_videos_created_at ON videos (created_at);
+            `);
+        }
+    },
+    {
+        version: 2,
+        name: 'import_legacy_json',
+        up: (db, context) => importLegacyJsonData(db, context.dataDir)
+    },
+    {
+        version: 3,
+        name: 'create_video_jobs',
+        up: (db) => {
+            db.exec(`
+                CREATE TABLE video_jobs (
+                    id TEXT PRIMARY KEY,
+                    provider TEXT NOT NULL,
+                    status TEXT NOT NULL DEFAULT 'queued',
+                    prompt TEXT NOT NULL,
+                    request TEXT NOT NULL,
+                    operation TEXT,
+                    video_url TEXT,
+                    thumbnail_url TEXT,
+                    error TEXT,
+                    progress INTEGER NOT NULL DEFAULT 0,
+                    created_at TEXT NOT NULL,
+                    updated_at TEXT NOT NULL,
+                    completed_at TEXT
+                );
+
+                CREATE INDEX idx_video_jobs_status ON video_jobs (status);
+            `);
+        }
+    },
+    {
+        version: 4,
+        name: 'create_webhooks',
+        up: (db) => {
+            db.exec(`
+                CREATE TABLE webhooks (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    url TEXT NOT NULL,
+                    secret TEXT NOT NULL,
+                    events TEXT NOT NULL,
+                    created_at TEXT NOT NULL
+                );
+
+                CREATE TABLE webhook_deliveries (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    webhook_id INTEGER NOT NULL,
+                    event TEXT NOT NULL,
+                    payload TEXT NOT NULL,
+                    status TEXT NOT NULL DEFAULT 'pending',
+                    attempts INTEGER NOT NULL DEFAULT 0,
+                    response_status INTEGER,
+                    error TEXT,
+                    created_at TEXT NOT NULL,
+                    updated_at TEXT NOT NULL,
+                    delivered_at TEXT
+                );
+
+                CREATE INDEX idx_webhook_deliveries_webhook_id ON webhook_deliveries (webhook_id);
+                CREATE INDEX idx_webhook_deliveries_status ON webhook_deliveries (status);
+            `);
+        }
+    },
+    {
+        version: 5,
+        name: 'add_video_jobs_error_category',
+        up: (db) => {
+            db.exec('ALTER TABLE video_jobs ADD COLUMN error_category TEXT');
+        }
+    },
+    {
+        version: 6,
+        name: 'add_video_jobs_fallback',
+        up: (db) => {
+            db.exec('ALTER TABLE video_jobs ADD COLUMN fallback TEXT');
+        }
+    },
+    {
+        version: 7,
+        name: 'create_video_batches',
+        up: (db) => {
+            db.exec(`
+                CREATE TABLE video_batches (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    name TEXT NOT NULL,
+                    created_at TEXT NOT NULL
+                );
+
+                CREATE TABLE video_batch_items (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    batch_id INTEGER NOT NULL,
+                    row_number INTEGER NOT NULL,
+                    input TEXT NOT NULL,
+                    video_id INTEGER,
+                    job_id TEXT,
+                    error TEXT,
+                    attempts INTEGER NOT NULL DEFAULT 0,
+                    created_at TEXT NOT NULL,
+                    updated_at TEXT NOT NULL
+                );
+
+                CREATE INDEX idx_video_batch_items_batch_id ON video_batch_items (batch_id);
+            `);
+        }
+    },
+    {
+        version: 8,
+        name: 'create_video_variants',
+        up: (db) => {
+            db.exec(`
+                CREATE TABLE video_variants (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    video_id INTEGER NOT NULL,
+                    variant_index INTEGER NOT NULL,
+                    video_url TEXT NOT NULL,
+                    thumbnail_url TEXT NOT NULL,
+                    created_at TEXT NOT NULL
+                );
+
+                CREATE INDEX idx_video_variants_video_id ON video_variants (video_id);
+
+                ALTER TABLE videos ADD COLUMN primary_variant_id INTEGER;
+            `);
+        }
+    },
+    {
+        version: 9,
+        name: 'add_videos_cost',
+        up: (db) => {
+            db.exec(`
+                ALTER TABLE videos ADD COLUMN user_id TEXT;
+                ALTER TABLE videos ADD COLUMN cost REAL;
+            `);
+        }
+    },
+    {
+        version: 10,
+        name: 'add_videos_content_hash',
+        up: (db) => {
+            db.exec(`
+                ALTER TABLE videos ADD COLUMN content_hash TEXT;
+
+                CREATE INDEX idx_videos_content_hash ON videos (content_hash);
+            `);
+        }
+    },
+    {
+        version: 11,
+        name: 'add_preview_tracks',
+        up: (db) => {
+            db.exec(`
+                ALTER TABLE videos ADD COLUMN preview_track_url TEXT;
+                ALTER TABLE video_variants ADD COLUMN preview_track_url TEXT;
+            `);
+            repairPlaceholderThumbnails(db);
+        }
+    },
+    {
+        version: 12,
+        name: 'add_video_renditions',
+        up: (db) => {
+            db.exec(`
+                ALTER TABLE videos ADD COLUMN hls_url TEXT;
+                ALTER TABLE videos ADD COLUMN renditions TEXT;
+                ALTER TABLE video_variants ADD COLUMN hls_url TEXT;
+                ALTER TABLE video_variants ADD COLUMN renditions TEXT;
+            `);
+        }
+    },
+    {
+        version: 13,
+        name: 'add_video_media',
+        up: (db) => {
+            db.exec(`
+                ALTER TABLE videos ADD COLUMN media TEXT;
+                ALTER TABLE video_variants ADD COLUMN media TEXT;
+            `);
+        }
+    },
+    {
+        version: 14,
+        name: 'create_video_sequences',
+        up: (db) => {
+            db.exec(`
+                CREATE TABLE video_sequences (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    name TEXT NOT NULL,
+                    aspect_ratio TEXT NOT NULL,
+                    items TEXT NOT NULL,
+                    video_id INTEGER,
+                    job_id TEXT,
+                    created_at TEXT NOT NULL,
+                    updated_at TEXT NOT NULL
+                );
+            `);
+        }
+    }
+];
+
+/**
+ * Aplica las migraciones pendientes, cada una en su propia transacción
+ */
+export function runMigrations(db: Database.Database, context: MigrationContext): void {
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+            version INTEGER PRIMARY KEY,
+            name TEXT NOT NULL,
+            applied_at TEXT NOT NULL
+        )
+    `);
+
+    const applied = new Set(
+        (db.prepare('SELECT version FROM schema_migrations').all() as { version: number }[]).map(row => row.version)
+    );
+
+    for (const migration of MIGRATIONS) {
+        if (applied.has(migration.version)) continue;
+
+        db.transaction(() => {
+            migration.up(db, context);
+            db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)')
+                .run(migration.version, migration.name, new Date().toISOString());
+        })();
+
+        console.log(`🗄️  Migración ${migration.version} (${migration.name}) aplicada`);
+    }
+}
+
+/**
+ * Lee un archivo JSON heredado si existe
+ */
+function readLegacyFile<T>(file: string): T[] {
+    if (!fs.existsSync(file)) return [];
+    const data = JSON.parse(fs.readFileSync(file, 'utf8'));
+    return Array.isArray(data) ? data : [];
+}
+
+/**
+ * Importa los datos de data/prompts.json y data/videos.json conservando los IDs
+ */
+function importLegacyJsonData(db: Database.Database, dataDir: string): void {
+    const legacyPrompts = readLegacyFile<Prompt>(path.join(dataDir, 'prompts.json'));
+    const legacyVideos = readLegacyFile<Video>(path.join(dataDir, 'videos.json'));
+
+    const insertPrompt = db.prepare(`
+        INSERT INTO prompts (id, original_prompt, optimized_prompt, improvements, confidence_score, target_style, duration, created_at)
+        VALUES (@id, @original_prompt, @optimized_prompt, @improvements, @confidence_score, @target_style, @duration, @created_at)
+    `);
+    const insertVideo = db.prepare(`
+        INSERT INTO videos (id, prompt_id, veo_job_id, status, video_url, thumbnail_url, duration_seconds, metadata, created_at, completed_at)
+        VALUES (@id, @prompt_id, @veo_job_id, @status, @video_url, @thumbnail_url, @duration_seconds, @metadata, @created_at, @completed_at)
+    `);
+
+    for (const prompt of legacyPrompts) {
+        insertPrompt.run({
+            id: prompt.id,
+            original_prompt: prompt.original_prompt,
+            optimized_prompt: prompt.optimized_prompt,
+            improvements: prompt.improvements ?? null,
+            confidence_score: prompt.confidence_score ?? 0.8,
+            target_style: prompt.target_style || 'cinematic',
+            duration: prompt.duration || 10,
+            created_at: prompt.created_at || new Date().toISOString()
+        });
+    }
+
+    for (const video of legacyVideos) {
+        insertVideo.run({
+            id: video.id,
+            prompt_id: video.prompt_id ?? null,
+            veo_job_id: video.veo_job_id,
+            status: video.status || 'queued',
+            video_url: video.video_url ?? null,
+            thumbnail_url: video.thumbnail_url ?? null,
+            duration_seconds: video.duration_seconds || 10,
+            metadata: video.metadata ?? null,
+            created_at: video.created_at || new Date().toISOString(),
+            completed_at: video.completed_at ?? null
+        });
+    }
+
+    if (legacyPrompts.length || legacyVideos.length) {
+        console.log(`📥 Importados ${legacyPrompts.length} prompts y ${legacyVideos.length} videos desde JSON`);
+    }
+}
+
+/**
+ * URL del placeholder .svg de un thumbnail guardado como .jpg cuando ffmpeg
+ * falló y solo se escribió el placeholder; null si no hay nada que corregir.
+ * La usan la migración 11 (SQLite) y el arranque del almacenamiento JSON
+ */
+export function placeholderThumbnailUrl(thumbnailUrl: string | null): string | null {
+    if (!thumbnailUrl || !/^\/uploads\/thumbnails\/.*\.jpg$/.test(thumbnailUrl)) return null;
+
+    const uploadsDir = path.join(process.cwd(), 'uploads');
+    const exists = (url: string) => fs.existsSync(path.join(uploadsDir, url.slice('/uploads/'.length)));
+    const svgUrl = thumbnailUrl.replace(/\.jpg$/, '.svg');
+    return !exists(thumbnailUrl) && exists(svgUrl) ? svgUrl : null;
+}
+
+// Corrige en SQLite las URLs de thumbnails que apuntan a un .jpg que no existe
+function repairPlaceholderThumbnails(db: Database.Database): void {
+    let repaired = 0;
+
+    for (const table of ['videos', 'video_variants', 'video_jobs']) {
+        const rows = db.prepare(`
+            SELECT id, thumbnail_url FROM ${table} WHERE thumbnail_url LIKE '/uploads/thumbnails/%.jpg'
+        `).all() as { id: number | string; thumbnail_url: string }[];
+        const update = db.prepare(`UPDATE ${table} SET thumbnail_url = ? WHERE id = ?`);
+
+        for (const row of rows) {
+            const svgUrl = placeholderThumbnailUrl(row.thumbnail_url);
+            if (svgUrl) {
+                update.run(svgUrl, row.id);
+                repaired++;
+            }
+        }
+    }
+
+    if (repaired > 0) {
+        console.log(`🖼️  ${repaired} thumbnail(s) placeholder corregido(s) a .svg`);
+    }
+}
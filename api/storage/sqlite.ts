@@ -0,0 +1,399 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { runMigrations } from './migrations';
+import type {
+    StorageAdapter,
+    Prompt,
+    Video,
+    CreatePromptData,
+    CreateVideoData,
+    VideoJobRecord,
+    Webhook,
+    CreateWebhookData,
+    WebhookDelivery,
+    CreateWebhookDeliveryData,
+    WebhookDeliveryChanges,
+    VideoBatch,
+    CreateVideoBatchData,
+    VideoBatchItem,
+    CreateVideoBatchItemData,
+    VideoBatchItemChanges,
+    VideoSequence,
+    CreateVideoSequenceData,
+    VideoSequenceChanges,
+    VideoVariant,
+    CreateVideoVariantData
+} from './types';
+
+/**
+ * Almacenamiento en SQLite (better-sqlite3). El esquema se gestiona con las
+ * migraciones versionadas de ./migrations.
+ */
+export class SqliteStorageAdapter implements StorageAdapter {
+    readonly driver = 'sqlite';
+
+    private db: Database.Database | null = null;
+
+    constructor(private readonly databaseFile: string, private readonly dataDir: string) {}
+
+    /**
+     * Abre (una sola vez) la conexión a SQLite
+     */
+    private getDb(): Database.Database {
+        if (!this.db) {
+            const dir = path.dirname(this.databaseFile);
+            if (!fs.existsSync(dir)) {
+                fs.mkdirSync(dir, { recursive: true });
+            }
+            this.db = new Database(this.databaseFile);
+            this.db.pragma('journal_mode = WAL');
+            this.db.pragma('busy_timeout = 5000');
+        }
+        return this.db;
+    }
+
+    async init(): Promise<void> {
+        runMigrations(this.getDb(), { dataDir: this.dataDir });
+    }
+
+    // Prompts
+    async createPrompt(data: CreatePromptData): Promise<{ lastInsertRowid: number }> {
+        const result = this.getDb().prepare(`
+            INSERT INTO prompts (original_prompt, optimized_prompt, improvements, confidence_score, target_style, duration, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+        `).run(
+            data.original_prompt,
+            data.optimized_prompt,
+            data.improvements || null,
+            data.confidence_score || 0.8,
+            data.target_style || 'cinematic',
+            data.duration || 10,
+            new Date().toISOString()
+        );
+
+        return { lastInsertRowid: Number(result.lastInsertRowid) };
+    }
+
+    async getPromptById(id: number): Promise<Prompt | null> {
+        return (this.getDb().prepare('SELECT * FROM prompts WHERE id = ?').get(id) as Prompt) || null;
+    }
+
+    async getAllPrompts(): Promise<Prompt[]> {
+        return this.getDb().prepare('SELECT * FROM prompts ORDER BY created_at DESC').all() as Prompt[];
+    }
+
+    // Videos
+    async createVideo(data: CreateVideoData): Promise<{ lastInsertRowid: number }> {
+        const result = this.getDb().prepare(`
+            INSERT INTO videos (prompt_id, veo_job_id, status, duration_seconds, metadata, user_id, cost, content_hash, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+            data.prompt_id || null,
+            data.veo_job_id,
+            data.status || 'queued',
+            data.duration_seconds || 10,
+            data.metadata || null,
+            data.user_id || null,
+            data.cost ?? null,
+            data.content_hash || null,
+            new Date().toISOString()
+        );
+
+        return { lastInsertRowid: Number(result.lastInsertRowid) };
+    }
+
+    async getVideoById(id: number): Promise<Video | null> {
+        return (this.getDb().prepare('SELECT * FROM videos WHERE id = ?').get(id) as Video) || null;
+    }
+
+    async getVideoByJobId(jobId: string): Promise<Video | null> {
+        return (this.getDb().prepare('SELECT * FROM videos WHERE veo_job_id = ?').get(jobId) as Video) || null;
+    }
+
+    async updateVideoStatus(jobId: string, status: Video['status'], videoUrl?: string, thumbnailUrl?: string): Promise<void> {
+        this.getDb().prepare(`
+            UPDATE videos SET
+                status = @status,
+                video_url = COALESCE(@videoUrl, video_url),
+                thumbnail_url = COALESCE(@thumbnailUrl, thumbnail_url),
+                completed_at = CASE WHEN @status = 'completed' THEN @now ELSE completed_at END
+            WHERE veo_job_id = @jobId
+        `).run({
+            jobId,
+            status,
+            videoUrl: videoUrl || null,
+            thumbnailUrl: thumbnailUrl || null,
+            now: new Date().toISOString()
+        });
+    }
+
+    async updateVideoMetadata(jobId: string, metadata: string): Promise<void> {
+        this.getDb().prepare('UPDATE videos SET metadata = ? WHERE veo_job_id = ?').run(metadata, jobId);
+    }
+
+    async updateVideoCost(jobId: string, cost: number): Promise<void> {
+        this.getDb().prepare('UPDATE videos SET cost = ? WHERE veo_job_id = ?').run(cost, jobId);
+    }
+
+    async getSpendSince(since: string, userId?: string): Promise<number> {
+        const row = userId
+            ? this.getDb().prepare(`
+                SELECT COALESCE(SUM(cost), 0) AS total FROM videos WHERE created_at >= ? AND user_id = ?
+            `).get(since, userId)
+            : this.getDb().prepare(`
+                SELECT COALESCE(SUM(cost), 0) AS total FROM videos WHERE created_at >= ?
+            `).get(since);
+
+        return (row as { total: number }).total;
+    }
+
+    async getCompletedVideoByHash(contentHash: string): Promise<Video | null> {
+        return (this.getDb().prepare(`
+            SELECT * FROM videos WHERE content_hash = ? AND status = 'completed'
+            ORDER BY created_at DESC LIMIT 1
+        `).get(contentHash) as Video) || null;
+    }
+
+    async createVideoVariant(data: CreateVideoVariantData): Promise<{ lastInsertRowid: number }> {
+        const result = this.getDb().prepare(`
+            INSERT INTO video_variants (video_id, variant_index, video_url, thumbnail_url, preview_track_url, hls_url, renditions, media, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+            data.video_id,
+            data.variant_index,
+            data.video_url,
+            data.thumbnail_url,
+            data.preview_track_url || null,
+            data.hls_url || null,
+            data.renditions || null,
+            data.media || null,
+            new Date().toISOString()
+        );
+
+        return { lastInsertRowid: Number(result.lastInsertRowid) };
+    }
+
+    async getVideoVariants(videoId: number): Promise<VideoVariant[]> {
+        return this.getDb().prepare(`
+            SELECT * FROM video_variants WHERE video_id = ? ORDER BY variant_index
+        `).all(videoId) as VideoVariant[];
+    }
+
+    async setPrimaryVariant(videoId: number, variant: VideoVariant): Promise<void> {
+        this.getDb().prepare(`
+            UPDATE videos
+            SET primary_variant_id = ?, video_url = ?, thumbnail_url = ?, preview_track_url = ?, hls_url = ?, renditions = ?, media = ?
+            WHERE id = ?
+        `).run(
+            variant.id,
+            variant.video_url,
+            variant.thumbnail_url,
+            variant.preview_track_url,
+            variant.hls_url,
+            variant.renditions,
+            variant.media,
+            videoId
+        );
+    }
+
+    async getAllVideos(): Promise<Video[]> {
+        return this.getDb().prepare('SELECT * FROM videos ORDER BY created_at DESC').all() as Video[];
+    }
+
+    async getVideosByStatus(status: Video['status']): Promise<Video[]> {
+        return this.getDb().prepare('SELECT * FROM videos WHERE status = ? ORDER BY created_at DESC').all(status) as Video[];
+    }
+
+    // Trabajos de generación
+    async saveJob(job: VideoJobRecord): Promise<void> {
+        this.getDb().prepare(`
+            INSERT INTO video_jobs (id, provider, status, prompt, request, operation, video_url, thumbnail_url, error, error_category, fallback, progress, created_at, updated_at, completed_at)
+            VALUES (@id, @provider, @status, @prompt, @request, @operation, @video_url, @thumbnail_url, @error, @error_category, @fallback, @progress, @created_at, @updated_at, @completed_at)
+            ON CONFLICT (id) DO UPDATE SET
+                provider = excluded.provider,
+                status = excluded.status,
+                operation = excluded.operation,
+                video_url = excluded.video_url,
+                thumbnail_url = excluded.thumbnail_url,
+                error = excluded.error,
+                error_category = excluded.error_category,
+                fallback = excluded.fallback,
+                progress = excluded.progress,
+                updated_at = excluded.updated_at,
+                completed_at = excluded.completed_at
+        `).run({
+            ...job,
+            operation: job.operation ?? null,
+            video_url: job.video_url ?? null,
+            thumbnail_url: job.thumbnail_url ?? null,
+            error: job.error ?? null,
+            error_category: job.error_category ?? null,
+            fallback: job.fallback ?? null,
+            completed_at: job.completed_at ?? null
+        });
+    }
+
+    async getJob(id: string): Promise<VideoJobRecord | null> {
+        return (this.getDb().prepare('SELECT * FROM video_jobs WHERE id = ?').get(id) as VideoJobRecord) || null;
+    }
+
+    async getUnfinishedJobs(): Promise<VideoJobRecord[]> {
+        return this.getDb().prepare(`SELECT * FROM video_jobs WHERE status IN ('queued', 'processing') ORDER BY created_at`).all() as VideoJobRecord[];
+    }
+
+    async getCompletedJobs(provider: string, limit: number): Promise<VideoJobRecord[]> {
+        return this.getDb().prepare(`
+            SELECT * FROM video_jobs
+            WHERE provider = ? AND status = 'completed' AND completed_at IS NOT NULL
+            ORDER BY completed_at DESC LIMIT ?
+        `).all(provider, limit) as VideoJobRecord[];
+    }
+
+    // Webhooks
+    async createWebhook(data: CreateWebhookData): Promise<{ lastInsertRowid: number }> {
+        const result = this.getDb().prepare(`
+            INSERT INTO webhooks (url, secret, events, created_at)
+            VALUES (?, ?, ?, ?)
+        `).run(data.url, data.secret, data.events, new Date().toISOString());
+
+        return { lastInsertRowid: Number(result.lastInsertRowid) };
+    }
+
+    async getWebhookById(id: number): Promise<Webhook | null> {
+        return (this.getDb().prepare('SELECT * FROM webhooks WHERE id = ?').get(id) as Webhook) || null;
+    }
+
+    async getAllWebhooks(): Promise<Webhook[]> {
+        return this.getDb().prepare('SELECT * FROM webhooks ORDER BY created_at DESC').all() as Webhook[];
+    }
+
+    async deleteWebhook(id: number): Promise<boolean> {
+        return this.getDb().prepare('DELETE FROM webhooks WHERE id = ?').run(id).changes > 0;
+    }
+
+    async createWebhookDelivery(data: CreateWebhookDeliveryData): Promise<{ lastInsertRowid: number }> {
+        const now = new Date().toISOString();
+        const result = this.getDb().prepare(`
+            INSERT INTO webhook_deliveries (webhook_id, event, payload, status, attempts, created_at, updated_at)
+            VALUES (?, ?, ?, 'pending', 0, ?, ?)
+        `).run(data.webhook_id, data.event, data.payload, now, now);
+
+        return { lastInsertRowid: Number(result.lastInsertRowid) };
+    }
+
+    async updateWebhookDelivery(id: number, changes: WebhookDeliveryChanges): Promise<void> {
+        const db = this.getDb();
+        const current = db.prepare('SELECT * FROM webhook_deliveries WHERE id = ?').get(id) as WebhookDelivery | undefined;
+        if (!current) return;
+
+        const next = { ...current, ...changes, updated_at: new Date().toISOString() };
+        db.prepare(`
+            UPDATE webhook_deliveries SET
+                status = @status,
+                attempts = @attempts,
+                response_status = @response_status,
+                error = @error,
+                updated_at = @updated_at,
+                delivered_at = @delivered_at
+            WHERE id = @id
+        `).run(next);
+    }
+
+    async getWebhookDeliveries(webhookId: number, limit = 50): Promise<WebhookDelivery[]> {
+        return this.getDb().prepare(`
+            SELECT * FROM webhook_deliveries WHERE webhook_id = ? ORDER BY created_at DESC LIMIT ?
+        `).all(webhookId, limit) as WebhookDelivery[];
+    }
+
+    async getPendingWebhookDeliveries(): Promise<WebhookDelivery[]> {
+        return this.getDb().prepare(`SELECT * FROM webhook_deliveries WHERE status = 'pending' ORDER BY created_at`).all() as WebhookDelivery[];
+    }
+
+    // Lotes de generación
+    async createBatch(data: CreateVideoBatchData): Promise<{ lastInsertRowid: number }> {
+        const result = this.getDb().prepare(`
+            INSERT INTO video_batches (name, created_at) VALUES (?, ?)
+        `).run(data.name, new Date().toISOString());
+
+        return { lastInsertRowid: Number(result.lastInsertRowid) };
+    }
+
+    async getBatchById(id: number): Promise<VideoBatch | null> {
+        return (this.getDb().prepare('SELECT * FROM video_batches WHERE id = ?').get(id) as VideoBatch) || null;
+    }
+
+    async getAllBatches(): Promise<VideoBatch[]> {
+        return this.getDb().prepare('SELECT * FROM video_batches ORDER BY created_at DESC').all() as VideoBatch[];
+    }
+
+    async createBatchItem(data: CreateVideoBatchItemData): Promise<{ lastInsertRowid: number }> {
+        const now = new Date().toISOString();
+        const result = this.getDb().prepare(`
+            INSERT INTO video_batch_items (batch_id, row_number, input, attempts, created_at, updated_at)
+            VALUES (?, ?, ?, 0, ?, ?)
+        `).run(data.batch_id, data.row_number, data.input, now, now);
+
+        return { lastInsertRowid: Number(result.lastInsertRowid) };
+    }
+
+    async updateBatchItem(id: number, changes: VideoBatchItemChanges): Promise<void> {
+        const db = this.getDb();
+        const current = db.prepare('SELECT * FROM video_batch_items WHERE id = ?').get(id) as VideoBatchItem | undefined;
+        if (!current) return;
+
+        const next = { ...current, ...changes, updated_at: new Date().toISOString() };
+        db.prepare(`
+            UPDATE video_batch_items SET
+                video_id = @video_id,
+                job_id = @job_id,
+                error = @error,
+                attempts = @attempts,
+                updated_at = @updated_at
+            WHERE id = @id
+        `).run(next);
+    }
+
+    async getBatchItems(batchId: number): Promise<VideoBatchItem[]> {
+        return this.getDb().prepare(`
+            SELECT * FROM video_batch_items WHERE batch_id = ? ORDER BY row_number
+        `).all(batchId) as VideoBatchItem[];
+    }
+
+    // Secuencias
+    async createSequence(data: CreateVideoSequenceData): Promise<{ lastInsertRowid: number }> {
+        const now = new Date().toISOString();
+        const result = this.getDb().prepare(`
+            INSERT INTO video_sequences (name, aspect_ratio, items, created_at, updated_at)
+            VALUES (?, ?, ?, ?, ?)
+        `).run(data.name, data.aspect_ratio, data.items, now, now);
+
+        return { lastInsertRowid: Number(result.lastInsertRowid) };
+    }
+
+    async getSequenceById(id: number): Promise<VideoSequence | null> {
+        return (this.getDb().prepare('SELECT * FROM video_sequences WHERE id = ?').get(id) as VideoSequence) || null;
+    }
+
+    async getAllSequences(): Promise<VideoSequence[]> {
+        return this.getDb().prepare('SELECT * FROM video_sequences ORDER BY created_at DESC').all() as VideoSequence[];
+    }
+
+    async updateSequence(id: number, changes: VideoSequenceChanges): Promise<void> {
+        const db = this.getDb();
+        const current = db.prepare('SELECT * FROM video_sequences WHERE id = ?').get(id) as VideoSequence | undefined;
+        if (!current) return;
+
+        const next = { ...current, ...changes, updated_at: new Date().toISOString() };
+        db.prepare(`
+            UPDATE video_sequences SET
+                name = @name,
+                aspect_ratio = @aspect_ratio,
+                items = @items,
+                video_id = @video_id,
+                job_id = @job_id,
+                updated_at = @updated_at
+            WHERE id = @id
+        `).run(next);
+    }
+}
@@ -0,0 +1,251 @@
+// Interfaces TypeScript para los modelos
+export interface Prompt {
+    id: number;
+    original_prompt: string;
+    optimized_prompt: string;
+    improvements?: string; // JSON string
+    confidence_score: number;
+    target_style: string;
+    duration: number;
+    created_at: string;
+}
+
+export interface Video {
+    id: number;
+    prompt_id?: number;
+    veo_job_id: string;
+    status: 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
+    video_url?: string;
+    thumbnail_url?: string;
+    preview_track_url?: string | null; // Pista WebVTT con el sprite de previsualización
+    hls_url?: string | null; // Master playlist HLS; null si solo hay MP4
+    renditions?: string | null; // JSON string con las calidades HLS (ver services/transcoding)
+    media?: string | null; // JSON string con VideoMedia: datos reales del archivo (ver services/mediaPipeline)
+    duration_seconds: number; // La pedida; la real está en media
+    metadata?: string; // JSON string
+    primary_variant_id?: number | null; // Variante cuyas URLs (video, thumbnail, previsualización, HLS) y media se muestran
+    user_id?: string | null; // Quién lo pidió (cabecera X-User-Id), para su presupuesto
+    cost?: number | null; // USD: estimado mientras se genera, real al completarse, 0 si falla
+    content_hash?: string | null; // Hash de la petición (ver services/resultCache)
+    created_at: string;
+    completed_at?: string;
+}
+
+// Cada uno de los videos devueltos por una misma generación
+export interface VideoVariant {
+    id: number;
+    video_id: number;
+    variant_index: number; // 0 = primera variante devuelta por el proveedor
+    video_url: string;
+    thumbnail_url: string;
+    preview_track_url: string | null; // null si no se pudo generar el sprite
+    hls_url: string | null;
+    renditions: string | null;
+    media: string | null;
+    created_at: string;
+}
+
+export interface CreateVideoVariantData {
+    video_id: number;
+    variant_index: number;
+    video_url: string;
+    thumbnail_url: string;
+    preview_track_url?: string | null;
+    hls_url?: string | null;
+    renditions?: string | null;
+    media?: string | null;
+}
+
+export interface CreatePromptData {
+    original_prompt: string;
+    optimized_prompt: string;
+    improvements?: string;
+    confidence_score?: number;
+    target_style?: string;
+    duration?: number;
+}
+
+export interface CreateVideoData {
+    prompt_id?: number;
+    veo_job_id: string;
+    status?: Video['status'];
+    duration_seconds?: number;
+    metadata?: string;
+    user_id?: string | null;
+    cost?: number;
+    content_hash?: string;
+}
+
+// Estado persistido de un trabajo de generación (ver services/videoJobs)
+export interface VideoJobRecord {
+    id: string;
+    provider: string;
+    status: Video['status'];
+    prompt: string;
+    request: string; // JSON string con la GenerationRequest original
+    operation?: string; // JSON string con la operación del proveedor (operationName de Veo, id de Sora...)
+    video_url?: string;
+    thumbnail_url?: string;
+    error?: string;
+    error_category?: string; // auth | quota | content-policy | transient | invalid-request
+    fallback?: string; // JSON string con los proveedores de respaldo pendientes, los intentos fallidos y el inicio del actual
+    progress: number;
+    created_at: string;
+    updated_at: string;
+    completed_at?: string;
+}
+
+export type WebhookEvent = 'video.completed' | 'video.failed' | 'prompt.optimized';
+
+// Webhook registrado por un sistema externo (ver services/webhooks)
+export interface Webhook {
+    id: number;
+    url: string;
+    secret: string; // Clave para la firma HMAC de cada entrega
+    events: string; // JSON string con los WebhookEvent a los que está suscrito
+    created_at: string;
+}
+
+export interface CreateWebhookData {
+    url: string;
+    secret: string;
+    events: string;
+}
+
+// Registro de cada entrega de un evento a un webhook, con sus reintentos
+export interface WebhookDelivery {
+    id: number;
+    webhook_id: number;
+    event: WebhookEvent;
+    payload: string; // JSON string con el cuerpo enviado
+    status: 'pending' | 'delivered' | 'failed';
+    attempts: number;
+    response_status: number | null;
+    error: string | null;
+    created_at: string;
+    updated_at: string;
+    delivered_at: string | null;
+}
+
+export interface CreateWebhookDeliveryData {
+    webhook_id: number;
+    event: WebhookEvent;
+    payload: string;
+}
+
+export type WebhookDeliveryChanges = Partial<Pick<WebhookDelivery, 'status' | 'attempts' | 'response_status' | 'error' | 'delivered_at'>>;
+
+// Lote de generación: agrupa los videos lanzados a partir de una lista o un CSV
+export interface VideoBatch {
+    id: number;
+    name: string;
+    created_at: string;
+}
+
+export interface CreateVideoBatchData {
+    name: string;
+}
+
+// Fila de un lote: la petición original y el video de su último intento
+export interface VideoBatchItem {
+    id: number;
+    batch_id: number;
+    row_number: number;
+    input: string; // JSON string con los campos de la fila (prompt, style, duration...)
+    video_id: number | null;
+    job_id: string | null;
+    error: string | null; // Motivo por el que la fila no se pudo lanzar
+    attempts: number;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface CreateVideoBatchItemData {
+    batch_id: number;
+    row_number: number;
+    input: string;
+}
+
+export type VideoBatchItemChanges = Partial<Pick<VideoBatchItem, 'video_id' | 'job_id' | 'error' | 'attempts'>>;
+
+// Secuencia: varios videos completados que se montan en uno solo (ver services/sequences)
+export interface VideoSequence {
+    id: number;
+    name: string;
+    aspect_ratio: string;
+    items: string; // JSON string con los clips en orden: [{ videoId, crossfadeSeconds }]
+    video_id: number | null; // Video del último montaje
+    job_id: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface CreateVideoSequenceData {
+    name: string;
+    aspect_ratio: string;
+    items: string;
+}
+
+export type VideoSequenceChanges = Partial<Pick<VideoSequence, 'name' | 'aspect_ratio' | 'items' | 'video_id' | 'job_id'>>;
+
+/**
+ * Contrato común de persistencia. Las rutas y servicios dependen solo de esta
+ * interfaz; la implementación concreta se elige al arrancar (ver createStorageAdapter).
+ */
+export interface StorageAdapter {
+    readonly driver: string;
+    init(): Promise<void>;
+
+    // Prompts
+    createPrompt(data: CreatePromptData): Promise<{ lastInsertRowid: number }>;
+    getPromptById(id: number): Promise<Prompt | null>;
+    getAllPrompts(): Promise<Prompt[]>;
+
+    // Videos
+    createVideo(data: CreateVideoData): Promise<{ lastInsertRowid: number }>;
+    getVideoById(id: number): Promise<Video | null>;
+    getVideoByJobId(jobId: string): Promise<Video | null>;
+    updateVideoStatus(jobId: string, status: Video['status'], videoUrl?: string, thumbnailUrl?: string): Promise<void>;
+    updateVideoMetadata(jobId: string, metadata: string): Promise<void>;
+    updateVideoCost(jobId: string, cost: number): Promise<void>;
+    // Suma del coste de los videos creados desde la fecha (ISO), opcionalmente de un usuario
+    getSpendSince(since: string, userId?: string): Promise<number>;
+    // Video completado más reciente con ese hash de petición
+    getCompletedVideoByHash(contentHash: string): Promise<Video | null>;
+    createVideoVariant(data: CreateVideoVariantData): Promise<{ lastInsertRowid: number }>;
+    getVideoVariants(videoId: number): Promise<VideoVariant[]>;
+    setPrimaryVariant(videoId: number, variant: VideoVariant): Promise<void>;
+    getAllVideos(): Promise<Video[]>;
+    getVideosByStatus(status: Video['status']): Promise<Video[]>;
+
+    // Trabajos de generación
+    saveJob(job: VideoJobRecord): Promise<void>;
+    getJob(id: string): Promise<VideoJobRecord | null>;
+    getUnfinishedJobs(): Promise<VideoJobRecord[]>;
+    // Últimos trabajos completados de un proveedor, del más reciente al más antiguo
+    getCompletedJobs(provider: string, limit: number): Promise<VideoJobRecord[]>;
+
+    // Webhooks
+    createWebhook(data: CreateWebhookData): Promise<{ lastInsertRowid: number }>;
+    getWebhookById(id: number): Promise<Webhook | null>;
+    getAllWebhooks(): Promise<Webhook[]>;
+    deleteWebhook(id: number): Promise<boolean>;
+    createWebhookDelivery(data: CreateWebhookDeliveryData): Promise<{ lastInsertRowid: number }>;
+    updateWebhookDelivery(id: number, changes: WebhookDeliveryChanges): Promise<void>;
+    getWebhookDeliveries(webhookId: number, limit?: number): Promise<WebhookDelivery[]>;
+    getPendingWebhookDeliveries(): Promise<WebhookDelivery[]>;
+
+    // Lotes de generación
+    createBatch(data: CreateVideoBatchData): Promise<{ lastInsertRowid: number }>;
+    getBatchById(id: number): Promise<VideoBatch | null>;
+    getAllBatches(): Promise<VideoBatch[]>;
+    createBatchItem(data: CreateVideoBatchItemData): Promise<{ lastInsertRowid: number }>;
+    updateBatchItem(id: number, changes: VideoBatchItemChanges): Promise<void>;
+    getBatchItems(batchId: number): Promise<VideoBatchItem[]>;
+
+    // Secuencias
+    createSequence(data: CreateVideoSequenceData): Promise<{ lastInsertRowid: number }>;
+    getSequenceById(id: number): Promise<VideoSequence | null>;
+    getAllSequences(): Promise<VideoSequence[]>;
+    updateSequence(id: number, changes: VideoSequenceChanges): Promise<void>;
+}
@@ -6,6 +6,9 @@ import Editor from './pages/Editor';
 import Generator from './pages/Generator';
 import Player from './pages/Player';
 import Gallery from './pages/Gallery';
+import Batches from './pages/Batches';
+import Batch from './pages/Batch';
+import Sequences from './pages/Sequences';
 import Navbar from './components/Navbar';
 import './index.css';
 
@@ -21,6 +24,9 @@ function App() {
             <Route path="/generator" element={<Generator />} />
             <Route path="/player/:id" element={<Player />} />
             <Route path="/gallery" element={<Gallery />} />
+            <Route path="/batches" element={<Batches />} />
+            <Route path="/batches/:id" element={<Batch />} />
+            <Route path="/sequences" element={<Sequences />} />
           </Routes>
         </main>
         <Toaster position="top-right" richColors />
@@ -0,0 +1,304 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Music, Mic, Upload, Trash2, Loader2, Wand2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+// Pista de la biblioteca de música (uploads/audio/music)
+interface MusicTrack {
+  id: string;
+  title: string;
+  url: string;
+  durationSeconds: number | null;
+}
+
+// Ajustes guardados de una mezcla ya hecha (metadata.audioMixes)
+export interface AudioMix {
+  variantId: number;
+  sourceVariantId: number;
+  musicTrack: string | null;
+  musicUrl: string | null;
+  narrationUrl: string | null;
+  musicVolume: number;
+  narrationVolume: number;
+  originalVolume: number;
+  narrationDelaySeconds: number;
+  createdAt: string;
+}
+
+interface AudioMixPanelProps {
+  videoId: string;
+  narrationUrl: string | null;
+  audioMixes: AudioMix[];
+  // Se llama tras subir/quitar la narración o crear una mezcla para recargar el video
+  onChange: () => void;
+}
+
+// Cuánto baja la música mientras suena la narración (ratio del compresor)
+const DUCKING_LEVELS = [
+  { label: 'Suave', ratio: 4 },
+  { label: 'Media', ratio: 8 },
+  { label: 'Fuerte', ratio: 16 },
+];
+
+const AudioMixPanel: React.FC<AudioMixPanelProps> = ({ videoId, narrationUrl, audioMixes, onChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [tracks, setTracks] = useState<MusicTrack[]>([]);
+  const [musicTrack, setMusicTrack] = useState('');
+  const [musicVolume, setMusicVolume] = useState(0.35);
+  const [originalVolume, setOriginalVolume] = useState(1);
+  const [narrationVolume, setNarrationVolume] = useState(1);
+  const [narrationDelay, setNarrationDelay] = useState(0);
+  const [duckingRatio, setDuckingRatio] = useState(8);
+  const [uploading, setUploading] = useState(false);
+  const [mixing, setMixing] = useState(false);
+
+  useEffect(() => {
+    const fetchTracks = async () => {
+      try {
+        const response = await fetch('/api/videos/audio-tracks');
+        if (response.ok) {
+          const data = await response.json();
+          setTracks(data.tracks);
+        }
+      } catch (error) {
+        console.error('Error fetching audio tracks:', error);
+      }
+    };
+
+    fetchTracks();
+  }, []);
+
+  const selectedTrack = tracks.find(track => track.id === musicTrack);
+  const lastMix = audioMixes[audioMixes.length - 1];
+
+  const handleNarrationUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append('narration', file);
+      const response = await fetch(`/api/videos/${videoId}/narration`, { method: 'POST', body: formData });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Error al subir la narración');
+      }
+
+      toast.success(`Narración adjuntada (${Math.round(data.durationSeconds)} s)`);
+      onChange();
+    } catch (error) {
+      console.error('Error uploading narration:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al subir la narración');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleNarrationRemove = async () => {
+    try {
+      const response = await fetch(`/api/videos/${videoId}/narration`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error('Error al quitar la narración');
+      }
+      onChange();
+    } catch (error) {
+      console.error('Error removing narration:', error);
+      toast.error('Error al quitar la narración');
+    }
+  };
+
+  const handleMix = async () => {
+    setMixing(true);
+    try {
+      const response = await fetch(`/api/videos/${videoId}/audio-mix`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          musicTrack: musicTrack || null,
+          narration: !!narrationUrl,
+          musicVolume,
+          originalVolume,
+          narrationVolume,
+          narrationDelaySeconds: narrationDelay,
+          ducking: { ratio: duckingRatio },
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Error al mezclar el audio');
+      }
+
+      toast.success(`Audio mezclado en la variante ${data.variant.index + 1}`);
+      onChange();
+    } catch (error) {
+      console.error('Error mixing audio:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al mezclar el audio');
+    } finally {
+      setMixing(false);
+    }
+  };
+
+  return (
+    <div className="card space-y-4">
+      <h2 className="text-2xl font-semibold text-gray-900">Música y narración</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+            <Music className="w-4 h-4" />
+            <span>Música de fondo</span>
+          </label>
+          {tracks.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              La biblioteca está vacía: copia pistas libres de derechos en uploads/audio/music.
+            </p>
+          ) : (
+            <select
+              value={musicTrack}
+              onChange={e => setMusicTrack(e.target.value)}
+              className="input-field"
+            >
+              <option value="">Sin música</option>
+              {tracks.map(track => (
+                <option key={track.id} value={track.id}>
+                  {track.title}
+                  {track.durationSeconds ? ` (${Math.round(track.durationSeconds)} s)` : ''}
+                </option>
+              ))}
+            </select>
+          )}
+          {selectedTrack && <audio src={selectedTrack.url} controls className="w-full" />}
+
+          <label className="block text-sm text-gray-600">
+            Volumen de la música: {Math.round(musicVolume * 100)}%
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.05"
+              value={musicVolume}
+              onChange={e => setMusicVolume(parseFloat(e.target.value))}
+              className="w-full"
+            />
+          </label>
+          <label className="block text-sm text-gray-600">
+            Volumen del sonido original: {Math.round(originalVolume * 100)}%
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.05"
+              value={originalVolume}
+              onChange={e => setOriginalVolume(parseFloat(e.target.value))}
+              className="w-full"
+            />
+          </label>
+        </div>
+
+        <div className="space-y-3">
+          <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+            <Mic className="w-4 h-4" />
+            <span>Narración</span>
+          </label>
+          {narrationUrl ? (
+            <div className="flex items-center space-x-2">
+              <audio src={narrationUrl} controls className="flex-1" />
+              <button
+                onClick={handleNarrationRemove}
+                className="text-gray-500 hover:text-red-600 transition-colors"
+                title="Quitar narración"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">Sin narración adjunta.</p>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="audio/*"
+            onChange={handleNarrationUpload}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploading}
+            className="btn-secondary flex items-center space-x-2 disabled:opacity-50"
+          >
+            {uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+            <span>{narrationUrl ? 'Cambiar narración' : 'Subir narración'}</span>
+          </button>
+
+          {narrationUrl && (
+            <>
+              <label className="block text-sm text-gray-600">
+                Volumen de la narración: {Math.round(narrationVolume * 100)}%
+                <input
+                  type="range"
+                  min="0"
+                  max="2"
+                  step="0.05"
+                  value={narrationVolume}
+                  onChange={e => setNarrationVolume(parseFloat(e.target.value))}
+                  className="w-full"
+                />
+              </label>
+              <label className="block text-sm text-gray-600">
+                Empieza a los (segundos)
+                <input
+                  type="number"
+                  min="0"
+                  max="60"
+                  step="0.5"
+                  value={narrationDelay}
+                  onChange={e => setNarrationDelay(Math.max(0, parseFloat(e.target.value) || 0))}
+                  className="input-field"
+                />
+              </label>
+              {musicTrack && (
+                <div className="space-y-1">
+                  <span className="block text-sm text-gray-600">La música baja al hablar:</span>
+                  <div className="flex space-x-2">
+                    {DUCKING_LEVELS.map(level => (
+                      <button
+                        key={level.ratio}
+                        onClick={() => setDuckingRatio(level.ratio)}
+                        className={`px-3 py-1 rounded-lg text-sm border transition-colors ${
+                          duckingRatio === level.ratio
+                            ? 'border-blue-600 bg-blue-50 text-blue-700'
+                            : 'border-gray-300 text-gray-700 hover:border-gray-400'
+                        }`}
+                      >
+                        {level.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500">
+          {lastMix
+            ? `Última mezcla: ${new Date(lastMix.createdAt).toLocaleString()}`
+            : 'La mezcla se guarda como una variante nueva y pasa a ser la principal.'}
+        </p>
+        <button
+          onClick={handleMix}
+          disabled={mixing || (!musicTrack && !narrationUrl)}
+          className="btn-primary flex items-center space-x-2 disabled:opacity-50"
+        >
+          {mixing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Wand2 className="w-4 h-4" />}
+          <span>{mixing ? 'Mezclando...' : 'Mezclar audio'}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AudioMixPanel;
@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { Captions, Sparkles, Save, Trash2, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+// Pista de subtítulos del video (metadata.captions)
+export interface CaptionTrack {
+  language: string;
+  label: string;
+  url: string;
+  source: 'manual' | 'llm' | 'fallback';
+  cueCount: number;
+  createdAt: string;
+}
+
+interface CaptionsPanelProps {
+  videoId: string;
+  captions: CaptionTrack[];
+  narrationScript: string | null;
+  // Se llama tras guardar o borrar una pista para recargar el video
+  onChange: () => void;
+}
+
+export const CAPTION_LANGUAGES = [
+  { code: 'es', label: 'Español' },
+  { code: 'en', label: 'English' },
+  { code: 'ca', label: 'Català' },
+  { code: 'eu', label: 'Euskara' },
+  { code: 'gl', label: 'Galego' },
+  { code: 'fr', label: 'Français' },
+  { code: 'pt', label: 'Português' },
+];
+
+const SOURCE_LABELS: Record<CaptionTrack['source'], string> = {
+  manual: 'Escritos a mano',
+  llm: 'Generados con IA',
+  fallback: 'Repartidos automáticamente',
+};
+
+const CaptionsPanel: React.FC<CaptionsPanelProps> = ({ videoId, captions, narrationScript, onChange }) => {
+  const [language, setLanguage] = useState('es');
+  const [text, setText] = useState(narrationScript || '');
+  const [saving, setSaving] = useState(false);
+  const [generating, setGenerating] = useState(false);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/videos/${videoId}/captions/${language}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Error al guardar los subtítulos');
+      }
+
+      toast.success(`Subtítulos guardados (${data.caption.cueCount} líneas)`);
+      onChange();
+    } catch (error) {
+      console.error('Error saving captions:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al guardar los subtítulos');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      const response = await fetch(`/api/videos/${videoId}/captions/${language}/generate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ script: text || undefined }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Error al generar los subtítulos');
+      }
+
+      if (data.caption.source === 'fallback') {
+        toast.warning('IA no disponible: se ha repartido el texto a lo largo del video');
+      } else {
+        toast.success(`Subtítulos generados (${data.caption.cueCount} líneas)`);
+      }
+      onChange();
+    } catch (error) {
+      console.error('Error generating captions:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al generar los subtítulos');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleDelete = async (track: CaptionTrack) => {
+    try {
+      const response = await fetch(`/api/videos/${videoId}/captions/${track.language}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error('Error al borrar los subtítulos');
+      }
+      onChange();
+    } catch (error) {
+      console.error('Error deleting captions:', error);
+      toast.error('Error al borrar los subtítulos');
+    }
+  };
+
+  return (
+    <div className="card space-y-4">
+      <h2 className="text-2xl font-semibold text-gray-900">Subtítulos</h2>
+
+      {captions.length > 0 && (
+        <ul className="divide-y divide-gray-100">
+          {captions.map(track => (
+            <li key={track.language} className="flex items-center justify-between py-2">
+              <div className="flex items-center space-x-2">
+                <Captions className="w-4 h-4 text-gray-500" />
+                <span className="font-medium">{track.label}</span>
+                <span className="text-sm text-gray-500">
+                  {track.cueCount} líneas · {SOURCE_LABELS[track.source]}
+                </span>
+              </div>
+              <button
+                onClick={() => handleDelete(track)}
+                className="text-gray-500 hover:text-red-600 transition-colors"
+                title="Borrar subtítulos"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-3">
+        <select value={language} onChange={e => setLanguage(e.target.value)} className="input-field">
+          {CAPTION_LANGUAGES.map(option => (
+            <option key={option.code} value={option.code}>
+              {option.label}
+              {captions.some(track => track.language === option.code) ? ' (se sustituirá)' : ''}
+            </option>
+          ))}
+        </select>
+        <textarea
+          value={text}
+          onChange={e => setText(e.target.value)}
+          rows={5}
+          className="input-field"
+          placeholder="Escribe los subtítulos (una línea por subtítulo) o el guion de la narración para que la IA los genere"
+        />
+        <p className="text-sm text-gray-500">
+          Los tiempos se reparten a lo largo de la duración real del video.
+        </p>
+      </div>
+
+      <div className="flex justify-end space-x-3">
+        <button
+          onClick={handleGenerate}
+          disabled={generating || saving}
+          className="btn-secondary flex items-center space-x-2 disabled:opacity-50"
+        >
+          {generating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+          <span>Generar con IA</span>
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving || generating || !text.trim()}
+          className="btn-primary flex items-center space-x-2 disabled:opacity-50"
+        >
+          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          <span>Guardar subtítulos</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CaptionsPanel;
@@ -1,6 +1,6 @@
 import React from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { Home, Edit3, Play, Image, Sparkles } from 'lucide-react';
+import { Home, Edit3, Play, Image, Sparkles, Layers, Film } from 'lucide-react';
 
 const Navbar: React.FC = () => {
   const location = useLocation();
@@ -10,6 +10,8 @@ const Navbar: React.FC = () => {
     { path: '/editor', label: 'Editor', icon: Edit3 },
     { path: '/generator', label: 'Generador', icon: Sparkles },
     { path: '/gallery', label: 'Galería', icon: Image },
+    { path: '/batches', label: 'Lotes', icon: Layers },
+    { path: '/sequences', label: 'Secuencias', icon: Film },
   ];
 
   return (
@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+
+// Fotograma de la pista de miniaturas: un recorte (#xywh) del sprite
+export interface PreviewCue {
+  start: number;
+  end: number;
+  spriteUrl: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PreviewTrack {
+  cues: PreviewCue[];
+  duration: number;
+  // Tamaño total del sprite, deducido de la posición de los fotogramas
+  spriteWidth: number;
+  spriteHeight: number;
+}
+
+// Las pistas ya descargadas se comparten entre tarjetas y páginas
+const trackCache = new Map<string, Promise<PreviewTrack | null>>();
+
+const parseTimestamp = (value: string) => {
+  const [hours, minutes, seconds] = value.trim().split(':');
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+};
+
+// Función para leer una pista WebVTT de miniaturas (cues "inicio --> fin" + url#xywh=x,y,w,h)
+const parsePreviewTrack = (vtt: string): PreviewTrack | null => {
+  const cues: PreviewCue[] = [];
+
+  vtt.split(/\r?\n\r?\n/).forEach(block => {
+    const lines = block.trim().split(/\r?\n/);
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    const target = lines[timingIndex + 1];
+    const match = target?.match(/^(.*)#xywh=(\d+),(\d+),(\d+),(\d+)$/);
+    if (timingIndex === -1 || !match) return;
+
+    const [start, end] = lines[timingIndex].split('-->').map(parseTimestamp);
+    cues.push({
+      start,
+      end,
+      spriteUrl: match[1],
+      x: Number(match[2]),
+      y: Number(match[3]),
+      width: Number(match[4]),
+      height: Number(match[5]),
+    });
+  });
+
+  if (cues.length === 0) return null;
+  return {
+    cues,
+    duration: cues[cues.length - 1].end,
+    spriteWidth: Math.max(...cues.map(cue => cue.x + cue.width)),
+    spriteHeight: Math.max(...cues.map(cue => cue.y + cue.height)),
+  };
+};
+
+const loadPreviewTrack = (url: string) => {
+  if (!trackCache.has(url)) {
+    trackCache.set(
+      url,
+      fetch(url)
+        .then(response => (response.ok ? response.text() : ''))
+        .then(parsePreviewTrack)
+        .catch(() => null)
+    );
+  }
+  return trackCache.get(url)!;
+};
+
+// Hook para cargar la pista de miniaturas de un video (null mientras carga o si no tiene)
+export const usePreviewTrack = (url?: string | null) => {
+  const [track, setTrack] = useState<PreviewTrack | null>(null);
+
+  useEffect(() => {
+    if (!url) {
+      setTrack(null);
+      return;
+    }
+    let active = true;
+    loadPreviewTrack(url).then(loaded => {
+      if (active) setTrack(loaded);
+    });
+    return () => {
+      active = false;
+    };
+  }, [url]);
+
+  return track;
+};
+
+// Función para encontrar el fotograma de un instante del video
+export const findPreviewCue = (track: PreviewTrack, time: number) =>
+  track.cues.find(cue => time >= cue.start && time < cue.end) || track.cues[track.cues.length - 1];
+
+interface PreviewFrameProps {
+  track: PreviewTrack;
+  time: number;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+/**
+ * Muestra el fotograma del sprite correspondiente a `time`, escalado al tamaño
+ * del elemento (las posiciones se expresan en porcentajes del sprite)
+ */
+const PreviewFrame: React.FC<PreviewFrameProps> = ({ track, time, className, style }) => {
+  const cue = findPreviewCue(track, time);
+  const percent = (offset: number, size: number, total: number) =>
+    total > size ? (offset / (total - size)) * 100 : 0;
+
+  return (
+    <div
+      className={className}
+      style={{
+        ...style,
+        backgroundImage: `url(${cue.spriteUrl})`,
+        backgroundSize: `${(track.spriteWidth / cue.width) * 100}% ${(track.spriteHeight / cue.height) * 100}%`,
+        backgroundPosition: `${percent(cue.x, cue.width, track.spriteWidth)}% ${percent(cue.y, cue.height, track.spriteHeight)}%`,
+      }}
+    />
+  );
+};
+
+interface ScrubThumbnailProps {
+  thumbnailUrl: string;
+  previewTrackUrl?: string | null;
+  alt: string;
+  className?: string;
+}
+
+// Miniatura que, al pasar el ratón, recorre el video según la posición horizontal
+export const ScrubThumbnail: React.FC<ScrubThumbnailProps> = ({
+  thumbnailUrl,
+  previewTrackUrl,
+  alt,
+  className,
+}) => {
+  const track = usePreviewTrack(previewTrackUrl);
+  const [hoverRatio, setHoverRatio] = useState<number | null>(null);
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setHoverRatio(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)));
+  };
+
+  return (
+    <div
+      className="relative w-full h-full"
+      onMouseMove={track ? handleMouseMove : undefined}
+      onMouseLeave={() => setHoverRatio(null)}
+    >
+      <img src={thumbnailUrl} alt={alt} className={className} />
+      {track && hoverRatio !== null && (
+        <>
+          <PreviewFrame track={track} time={hoverRatio * track.duration} className="absolute inset-0" />
+          <div className="absolute bottom-0 left-0 h-1 bg-blue-600" style={{ width: `${hoverRatio * 100}%` }} />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PreviewFrame;
@@ -0,0 +1,233 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { ArrowLeft, Loader2, Play, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+
+type RowStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'invalid';
+
+interface BatchRow {
+  itemId: number;
+  row: number;
+  input: { prompt?: string; style?: string; duration?: string | number; aspectRatio?: string; provider?: string };
+  status: RowStatus;
+  progress: number;
+  videoId: number | null;
+  jobId: string | null;
+  error?: string;
+  attempts: number;
+}
+
+interface BatchDetail {
+  id: number;
+  name: string;
+  createdAt: string;
+  total: number;
+  counts: Record<RowStatus, number>;
+  progress: number;
+  finished: boolean;
+  rows: BatchRow[];
+}
+
+// Intervalo de refresco mientras quedan filas en cola o procesando
+const REFRESH_INTERVAL_MS = 5000;
+
+const STATUS_TEXT: Record<RowStatus, string> = {
+  queued: 'En cola',
+  processing: 'Procesando',
+  completed: 'Completado',
+  failed: 'Error',
+  cancelled: 'Cancelado',
+  invalid: 'Fila no válida'
+};
+
+const STATUS_COLOR: Record<RowStatus, string> = {
+  queued: 'bg-yellow-100 text-yellow-800',
+  processing: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+  invalid: 'bg-orange-100 text-orange-800'
+};
+
+const Batch: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [batch, setBatch] = useState<BatchDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [retrying, setRetrying] = useState(false);
+
+  const fetchBatch = async () => {
+    try {
+      const response = await fetch(`/api/videos/batch/${id}`);
+      if (!response.ok) {
+        throw new Error('Lote no encontrado');
+      }
+      setBatch(await response.json());
+    } catch (error) {
+      console.error('Error fetching batch:', error);
+      toast.error('Error al cargar el lote');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchBatch();
+  }, [id]);
+
+  useEffect(() => {
+    if (!batch || batch.finished) return;
+
+    const interval = setInterval(fetchBatch, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [batch?.finished, id]);
+
+  const handleRetry = async () => {
+    setRetrying(true);
+    try {
+      const response = await fetch(`/api/videos/batch/${id}/retry`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Error al reintentar');
+      }
+
+      setBatch(data.batch);
+      toast.success(`${data.retried} fila(s) relanzada(s)`);
+    } catch (error) {
+      console.error('Error retrying batch:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al reintentar');
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center space-y-4">
+          <Loader2 className="w-8 h-8 animate-spin mx-auto text-blue-600" />
+          <p className="text-gray-600">Cargando lote...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!batch) {
+    return (
+      <div className="text-center space-y-4">
+        <h2 className="text-2xl font-bold text-gray-900">Lote no encontrado</h2>
+        <button onClick={() => navigate('/batches')} className="btn-primary">
+          Volver a los lotes
+        </button>
+      </div>
+    );
+  }
+
+  const failedRows = batch.counts.failed + batch.counts.cancelled;
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <button
+        onClick={() => navigate('/batches')}
+        className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 transition-colors"
+      >
+        <ArrowLeft className="w-5 h-5" />
+        <span>Volver a los lotes</span>
+      </button>
+
+      {/* Summary */}
+      <div className="card space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-semibold text-gray-900">{batch.name}</h1>
+            <p className="text-gray-600">
+              {batch.total} videos · creado el {new Date(batch.createdAt).toLocaleString()}
+            </p>
+          </div>
+          <button
+            onClick={handleRetry}
+            disabled={retrying || failedRows === 0}
+            className="btn-secondary flex items-center space-x-2 disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${retrying ? 'animate-spin' : ''}`} />
+            <span>Reintentar fallidos ({failedRows})</span>
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm text-gray-600">
+            <span>{batch.finished ? 'Terminado' : 'Progreso'}</span>
+            <span>{batch.progress}%</span>
+          </div>
+          <div className="progress-bar">
+            <div className="progress-fill" style={{ width: `${batch.progress}%` }}></div>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(STATUS_TEXT) as RowStatus[])
+            .filter(status => batch.counts[status] > 0)
+            .map(status => (
+              <span key={status} className={`px-3 py-1 rounded-full text-sm font-medium ${STATUS_COLOR[status]}`}>
+                {STATUS_TEXT[status]}: {batch.counts[status]}
+              </span>
+            ))}
+        </div>
+      </div>
+
+      {/* Rows */}
+      <div className="card overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-200">
+              <th className="py-2 pr-4">#</th>
+              <th className="py-2 pr-4">Prompt</th>
+              <th className="py-2 pr-4">Proveedor</th>
+              <th className="py-2 pr-4">Estado</th>
+              <th className="py-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {batch.rows.map(row => (
+              <tr key={row.itemId}>
+                <td className="py-3 pr-4 text-gray-500">{row.row}</td>
+                <td className="py-3 pr-4">
+                  <p className="text-gray-900">{row.input.prompt}</p>
+                  <p className="text-xs text-gray-500">
+                    {[row.input.style, row.input.aspectRatio, row.input.duration && `${row.input.duration}s`]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </p>
+                  {row.error && <p className="text-xs text-red-600 mt-1">{row.error}</p>}
+                </td>
+                <td className="py-3 pr-4 text-gray-600">{row.input.provider || 'veo3'}</td>
+                <td className="py-3 pr-4">
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_COLOR[row.status]}`}>
+                    {STATUS_TEXT[row.status]}
+                    {row.status === 'processing' && ` ${row.progress}%`}
+                  </span>
+                  {row.attempts > 1 && (
+                    <span className="ml-2 text-xs text-gray-500">intento {row.attempts}</span>
+                  )}
+                </td>
+                <td className="py-3 text-right">
+                  {row.status === 'completed' && row.videoId && (
+                    <button
+                      onClick={() => navigate(`/player/${row.videoId}`)}
+                      className="p-2 text-gray-600 hover:text-blue-600 transition-colors"
+                      title="Reproducir"
+                    >
+                      <Play className="w-4 h-4" />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default Batch;
@@ -0,0 +1,186 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Layers, Upload, Loader2, ChevronRight } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface BatchSummary {
+  id: number;
+  name: string;
+  createdAt: string;
+  total: number;
+  counts: Record<string, number>;
+  progress: number;
+  finished: boolean;
+}
+
+const CSV_EXAMPLE = `prompt,style,duration,aspectRatio,provider
+"Un niño guarda monedas en una hucha",cartoon,8,16:9,veo3
+"Comparar precios en el supermercado",realistic,5,9:16,sora`;
+
+const Batches: React.FC = () => {
+  const navigate = useNavigate();
+  const [batches, setBatches] = useState<BatchSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [name, setName] = useState('');
+  const [csv, setCsv] = useState('');
+
+  useEffect(() => {
+    const fetchBatches = async () => {
+      try {
+        const response = await fetch('/api/videos/batch');
+        if (!response.ok) {
+          throw new Error('Error al cargar los lotes');
+        }
+        const data = await response.json();
+        setBatches(data.batches);
+      } catch (error) {
+        console.error('Error fetching batches:', error);
+        toast.error('Error al cargar los lotes');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchBatches();
+  }, []);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => setCsv(String(reader.result || ''));
+    reader.readAsText(file);
+    if (!name) setName(file.name.replace(/\.csv$/i, ''));
+  };
+
+  const handleSubmit = async () => {
+    if (!csv.trim()) {
+      toast.error('Pega o sube un CSV con los prompts');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const params = new URLSearchParams(name.trim() ? { name: name.trim() } : {});
+      const response = await fetch(`/api/videos/batch?${params}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/csv' },
+        body: csv
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Error al crear el lote');
+      }
+
+      toast.success(`Lote creado con ${data.total} videos`);
+      navigate(`/batches/${data.id}`);
+    } catch (error) {
+      console.error('Error creating batch:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al crear el lote');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-8">
+      <div className="text-center space-y-2">
+        <h1 className="text-4xl font-bold text-gray-900">Generación por lotes</h1>
+        <p className="text-lg text-gray-600">
+          Lanza varios videos a la vez a partir de un CSV con un prompt por fila
+        </p>
+      </div>
+
+      {/* New batch */}
+      <div className="card space-y-4">
+        <h2 className="text-xl font-semibold text-gray-900">Nuevo lote</h2>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Nombre del lote</label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Lecciones de ahorro"
+            className="input-field"
+          />
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label className="block text-sm font-medium text-gray-700">CSV</label>
+            <label className="btn-secondary flex items-center space-x-2 cursor-pointer text-sm">
+              <Upload className="w-4 h-4" />
+              <span>Subir archivo</span>
+              <input type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+            </label>
+          </div>
+          <textarea
+            value={csv}
+            onChange={(e) => setCsv(e.target.value)}
+            placeholder={CSV_EXAMPLE}
+            rows={8}
+            className="input-field font-mono text-sm"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Columnas: prompt (obligatoria), style, duration, aspectRatio, provider, resolution, variants,
+            negativePrompt, seed, enhancePrompt, generateAudio.
+            Las celdas vacías usan los valores por defecto.
+          </p>
+        </div>
+
+        <button
+          onClick={handleSubmit}
+          disabled={submitting}
+          className="btn-primary flex items-center space-x-2"
+        >
+          {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Layers className="w-4 h-4" />}
+          <span>{submitting ? 'Creando lote...' : 'Crear lote'}</span>
+        </button>
+      </div>
+
+      {/* Existing batches */}
+      <div className="card space-y-4">
+        <h2 className="text-xl font-semibold text-gray-900">Lotes anteriores</h2>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+          </div>
+        ) : batches.length === 0 ? (
+          <p className="text-gray-600">Todavía no has creado ningún lote.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {batches.map(batch => (
+              <li key={batch.id}>
+                <button
+                  onClick={() => navigate(`/batches/${batch.id}`)}
+                  className="w-full flex items-center justify-between py-3 text-left hover:bg-gray-50 rounded-lg px-2"
+                >
+                  <div>
+                    <p className="font-medium text-gray-900">{batch.name}</p>
+                    <p className="text-sm text-gray-500">
+                      {new Date(batch.createdAt).toLocaleString()} · {batch.counts.completed}/{batch.total} completados
+                      {batch.counts.failed > 0 && ` · ${batch.counts.failed} fallidos`}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <span className="text-sm text-gray-600">
+                      {batch.finished ? 'Terminado' : `${batch.progress}%`}
+                    </span>
+                    <ChevronRight className="w-4 h-4 text-gray-400" />
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Batches;
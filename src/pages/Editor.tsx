@@ -1,6 +1,6 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Sparkles, Wand2, Save, Play, Loader2, AlertCircle } from 'lucide-react';
+import { Sparkles, Wand2, Save, Play, Loader2, AlertCircle, ImagePlus, X, ChevronDown, ChevronUp } from 'lucide-react';
 import { toast } from 'sonner';
 
 interface PromptData {
@@ -10,6 +10,61 @@ interface PromptData {
   style: string;
   duration: number;
   provider: string;
+  variants: number;
+  // '' = cadena global del servidor, 'none' = sin respaldo, o el id de un proveedor
+  fallback: string;
+}
+
+interface ProviderInfo {
+  id: string;
+  name: string;
+  configured: boolean;
+  capabilities: {
+    aspectRatios: string[];
+    resolutions: string[];
+    defaultDurationSeconds: number;
+    maxDurationSeconds: number;
+    maxVariants: number;
+    imageToVideo: boolean;
+    advancedParameters: AdvancedParameter[];
+  };
+  // USD por segundo de video según la resolución
+  pricing: Record<string, number>;
+}
+
+interface BudgetUsage {
+  limit: number;
+  spent: number;
+  remaining: number;
+}
+
+type AdvancedParameter = 'negativePrompt' | 'seed' | 'enhancePrompt' | 'generateAudio';
+
+// Parámetros del panel "Avanzado"; solo se envían los que admite el proveedor
+interface AdvancedSettings {
+  resolution: string;
+  negativePrompt: string;
+  seed: string;
+  enhancePrompt: boolean;
+  generateAudio: boolean;
+  // Generar aunque ya exista un video idéntico
+  force: boolean;
+}
+
+// Imagen de referencia ya subida al servidor (image-to-video)
+interface ReferenceImage {
+  url: string;
+  mimeType: string;
+}
+
+// Guion del proveedor de simulación (se envía en metadata.simulation)
+interface SimulationSettings {
+  delayMs: number;
+  failAtPercent: string;
+  failCategory: string;
+  transientErrors: number;
+  timeout: boolean;
+  format: 'mp4' | 'webm';
 }
 
 const Editor: React.FC = () => {
@@ -19,16 +74,75 @@ const Editor: React.FC = () => {
     aspectRatio: '16:9',
     style: 'realistic',
     duration: 10,
-    provider: 'veo3'
+    provider: 'veo3',
+    variants: 1,
+    fallback: ''
   });
   const [isOptimizing, setIsOptimizing] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [providers, setProviders] = useState<ProviderInfo[]>([]);
+  const [referenceImage, setReferenceImage] = useState<ReferenceImage | null>(null);
+  const [isUploadingImage, setIsUploadingImage] = useState(false);
+  const [monthlyBudget, setMonthlyBudget] = useState<BudgetUsage | null>(null);
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [advanced, setAdvanced] = useState<AdvancedSettings>({
+    resolution: '720',
+    negativePrompt: '',
+    seed: '',
+    enhancePrompt: false,
+    generateAudio: false,
+    force: false
+  });
+  const [simulation, setSimulation] = useState<SimulationSettings>({
+    delayMs: 5000,
+    failAtPercent: '',
+    failCategory: '',
+    transientErrors: 0,
+    timeout: false,
+    format: 'mp4'
+  });
+
+  useEffect(() => {
+    const fetchProviders = async () => {
+      try {
+        const response = await fetch('/api/videos/providers');
+        if (!response.ok) return;
+        const data = await response.json();
+        setProviders(data.providers);
+      } catch (error) {
+        console.error('Error cargando proveedores:', error);
+      }
+    };
+
+    const fetchBudget = async () => {
+      try {
+        const response = await fetch('/api/videos/budget');
+        if (!response.ok) return;
+        const data = await response.json();
+        setMonthlyBudget(data.monthly);
+      } catch (error) {
+        console.error('Error cargando presupuesto:', error);
+      }
+    };
+
+    fetchProviders();
+    fetchBudget();
+  }, []);
+
+  const selectedProvider = providers.find(provider => provider.id === promptData.provider);
+  const supportsParameter = (parameter: AdvancedParameter) =>
+    !!selectedProvider?.capabilities.advancedParameters.includes(parameter);
+
+  // Mismo cálculo que el servidor: precio por segundo × duración × variantes
+  const pricePerSecond = selectedProvider?.pricing[advanced.resolution] ?? 0;
+  const estimatedCost = Math.round(pricePerSecond * promptData.duration * promptData.variants * 100) / 100;
+  const exceedsBudget = !!monthlyBudget && estimatedCost > monthlyBudget.remaining;
 
   const aspectRatios = [
     { value: '16:9', label: '16:9 (Horizontal)' },
     { value: '9:16', label: '9:16 (Vertical)' },
     { value: '1:1', label: '1:1 (Cuadrado)' }
-  ];
+  ].filter(ratio => !selectedProvider || selectedProvider.capabilities.aspectRatios.includes(ratio.value));
 
   const styles = [
     { value: 'realistic', label: 'Realista' },
@@ -45,11 +159,6 @@ const Editor: React.FC = () => {
     { value: 30, label: '30 segundos' }
   ];
 
-  const providers = [
-    { value: 'veo3', label: 'Google Veo 3' },
-    { value: 'sora', label: 'OpenAI Sora' }
-  ];
-
   const handleOptimizePrompt = async () => {
     if (!promptData.originalPrompt.trim()) {
       toast.error('Por favor, ingresa un prompt para optimizar');
@@ -89,6 +198,35 @@ const Editor: React.FC = () => {
     }
   };
 
+  const handleImageSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsUploadingImage(true);
+    try {
+      const formData = new FormData();
+      formData.append('image', file);
+
+      const response = await fetch('/api/videos/reference-images', {
+        method: 'POST',
+        body: formData
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Error al subir la imagen');
+      }
+
+      setReferenceImage({ url: data.url, mimeType: data.mimeType });
+    } catch (error) {
+      console.error('Error uploading reference image:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al subir la imagen');
+    } finally {
+      setIsUploadingImage(false);
+    }
+  };
+
   const handleGenerateVideo = async () => {
     const promptToUse = promptData.optimizedPrompt || promptData.originalPrompt;
     
@@ -99,33 +237,59 @@ const Editor: React.FC = () => {
 
     setIsGenerating(true);
     try {
-      const endpoint = promptData.provider === 'sora' ? '/api/videos/generate-sora' : '/api/videos/generate';
-      const response = await fetch(endpoint, {
+      const response = await fetch('/api/videos/generate', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           prompt: promptToUse,
+          provider: promptData.provider,
+          ...(promptData.fallback !== '' && {
+            fallback: promptData.fallback === 'none' ? 'none' : [promptData.fallback]
+          }),
           aspectRatio: promptData.aspectRatio,
           style: promptData.style,
           duration: promptData.duration,
-          resolution: '720',
+          variants: promptData.variants,
+          ...(referenceImage && { referenceImage: referenceImage.url }),
+          resolution: advanced.resolution,
+          ...(supportsParameter('negativePrompt') && advanced.negativePrompt.trim() && {
+            negativePrompt: advanced.negativePrompt.trim()
+          }),
+          ...(supportsParameter('seed') && advanced.seed !== '' && { seed: Number(advanced.seed) }),
+          ...(supportsParameter('enhancePrompt') && { enhancePrompt: advanced.enhancePrompt }),
+          ...(supportsParameter('generateAudio') && { generateAudio: advanced.generateAudio }),
+          ...(advanced.force && { force: true }),
           originalPrompt: promptData.originalPrompt,
-          optimizedPrompt: promptData.optimizedPrompt
+          optimizedPrompt: promptData.optimizedPrompt,
+          ...(promptData.provider === 'simulation' && {
+            metadata: {
+              simulation: {
+                delayMs: simulation.delayMs,
+                timeout: simulation.timeout,
+                format: simulation.format,
+                transientErrors: simulation.transientErrors,
+                ...(simulation.failAtPercent !== '' && { failAtPercent: Number(simulation.failAtPercent) }),
+                ...(simulation.failCategory !== '' && { failCategory: simulation.failCategory })
+              }
+            }
+          })
         })
       });
 
+      const data = await response.json();
       if (!response.ok) {
-        throw new Error('Error al generar el video');
+        throw new Error(data.error || 'Error al generar el video');
       }
 
-      const data = await response.json();
-      toast.success('Video en proceso de generación');
+      toast.success(data.cacheHit
+        ? 'Ya existía un video idéntico; se reutiliza sin coste'
+        : 'Video en proceso de generación');
       navigate(`/generator?jobId=${data.jobId}`);
     } catch (error) {
       console.error('Error generando video:', error);
-      toast.error('Error al generar el video');
+      toast.error(error instanceof Error ? error.message : 'Error al generar el video');
     } finally {
       setIsGenerating(false);
     }
@@ -162,6 +326,43 @@ const Editor: React.FC = () => {
                   className="input-field h-32 resize-none"
                 />
               </div>
+
+              {/* Reference image */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Imagen de referencia (opcional)
+                </label>
+                {referenceImage ? (
+                  <div className="relative w-40 aspect-video rounded-lg overflow-hidden border border-gray-200">
+                    <img src={referenceImage.url} alt="Imagen de referencia" className="w-full h-full object-cover" />
+                    <button
+                      onClick={() => setReferenceImage(null)}
+                      className="absolute top-1 right-1 p-1 rounded-full bg-black/60 text-white hover:bg-black/80"
+                      title="Quitar imagen"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                ) : (
+                  <label className="btn-secondary inline-flex items-center space-x-2 cursor-pointer text-sm">
+                    {isUploadingImage ? <Loader2 className="w-4 h-4 animate-spin" /> : <ImagePlus className="w-4 h-4" />}
+                    <span>{isUploadingImage ? 'Subiendo...' : 'Elegir imagen'}</span>
+                    <input
+                      type="file"
+                      accept="image/png,image/jpeg,image/webp"
+                      onChange={handleImageSelected}
+                      disabled={isUploadingImage}
+                      className="hidden"
+                    />
+                  </label>
+                )}
+                {referenceImage && selectedProvider && !selectedProvider.capabilities.imageToVideo && (
+                  <p className="text-xs text-amber-700 mt-1">
+                    {selectedProvider.name} no admite generar a partir de una imagen. Elige otro proveedor o quita la imagen.
+                  </p>
+                )}
+                <p className="text-xs text-gray-500 mt-1">PNG, JPEG o WebP. Se usa como punto de partida del video.</p>
+              </div>
               
               <button
                 onClick={handleOptimizePrompt}
@@ -259,21 +460,250 @@ const Editor: React.FC = () => {
                 </label>
                 <select
                   value={promptData.provider}
-                  onChange={(e) => setPromptData(prev => ({ ...prev, provider: e.target.value }))}
+                  onChange={(e) => {
+                    const provider = providers.find(p => p.id === e.target.value);
+                    setPromptData(prev => ({
+                      ...prev,
+                      provider: e.target.value,
+                      fallback: prev.fallback === e.target.value ? '' : prev.fallback,
+                      variants: provider ? Math.min(prev.variants, provider.capabilities.maxVariants) : prev.variants,
+                      aspectRatio: provider && !provider.capabilities.aspectRatios.includes(prev.aspectRatio)
+                        ? provider.capabilities.aspectRatios[0]
+                        : prev.aspectRatio
+                    }));
+                    if (provider && !provider.capabilities.resolutions.includes(advanced.resolution)) {
+                      setAdvanced(prev => ({ ...prev, resolution: provider.capabilities.resolutions[0] }));
+                    }
+                  }}
                   className="input-field"
                 >
                   {providers.map(provider => (
-                    <option key={provider.value} value={provider.value}>
-                      {provider.label}
+                    <option key={provider.id} value={provider.id}>
+                      {provider.name}{provider.configured ? '' : ' (no configurado)'}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Variants */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Variantes
+                </label>
+                <select
+                  value={promptData.variants}
+                  onChange={(e) => setPromptData(prev => ({ ...prev, variants: parseInt(e.target.value) }))}
+                  className="input-field"
+                >
+                  {Array.from({ length: selectedProvider?.capabilities.maxVariants || 1 }, (_, index) => (
+                    <option key={index + 1} value={index + 1}>
+                      {index === 0 ? '1 video' : `${index + 1} videos para elegir`}
                     </option>
                   ))}
                 </select>
               </div>
+
+              {/* Fallback provider */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Si el proveedor falla
+                </label>
+                <select
+                  value={promptData.fallback}
+                  onChange={(e) => setPromptData(prev => ({ ...prev, fallback: e.target.value }))}
+                  className="input-field"
+                >
+                  <option value="">Usar la cadena de respaldo del servidor</option>
+                  <option value="none">No usar otro proveedor</option>
+                  {providers
+                    .filter(provider => provider.id !== promptData.provider)
+                    .map(provider => (
+                      <option key={provider.id} value={provider.id}>
+                        Reintentar con {provider.name}
+                      </option>
+                    ))}
+                </select>
+              </div>
+
+              {/* Advanced parameters */}
+              <div className="border border-gray-200 rounded-lg">
+                <button
+                  onClick={() => setShowAdvanced(prev => !prev)}
+                  className="w-full flex items-center justify-between px-4 py-3 text-sm font-medium text-gray-700"
+                >
+                  <span>Avanzado</span>
+                  {showAdvanced ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                </button>
+
+                {showAdvanced && (
+                  <div className="space-y-3 px-4 pb-4">
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Resolución</label>
+                      <select
+                        value={advanced.resolution}
+                        onChange={(e) => setAdvanced(prev => ({ ...prev, resolution: e.target.value }))}
+                        className="input-field"
+                      >
+                        {(selectedProvider?.capabilities.resolutions || ['720']).map(resolution => (
+                          <option key={resolution} value={resolution}>{resolution}p</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Prompt negativo</label>
+                      <textarea
+                        value={advanced.negativePrompt}
+                        onChange={(e) => setAdvanced(prev => ({ ...prev, negativePrompt: e.target.value }))}
+                        placeholder="Lo que no debe aparecer: texto en pantalla, marcas de agua..."
+                        disabled={!supportsParameter('negativePrompt')}
+                        className="input-field h-20 resize-none disabled:opacity-50"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Seed</label>
+                      <input
+                        type="number"
+                        min={0}
+                        value={advanced.seed}
+                        onChange={(e) => setAdvanced(prev => ({ ...prev, seed: e.target.value }))}
+                        placeholder="Aleatoria"
+                        disabled={!supportsParameter('seed')}
+                        className="input-field disabled:opacity-50"
+                      />
+                    </div>
+                    <label className={`flex items-center space-x-2 text-sm text-gray-700 ${supportsParameter('enhancePrompt') ? '' : 'opacity-50'}`}>
+                      <input
+                        type="checkbox"
+                        checked={advanced.enhancePrompt}
+                        onChange={(e) => setAdvanced(prev => ({ ...prev, enhancePrompt: e.target.checked }))}
+                        disabled={!supportsParameter('enhancePrompt')}
+                      />
+                      <span>Dejar que el proveedor mejore el prompt</span>
+                    </label>
+                    <label className={`flex items-center space-x-2 text-sm text-gray-700 ${supportsParameter('generateAudio') ? '' : 'opacity-50'}`}>
+                      <input
+                        type="checkbox"
+                        checked={advanced.generateAudio}
+                        onChange={(e) => setAdvanced(prev => ({ ...prev, generateAudio: e.target.checked }))}
+                        disabled={!supportsParameter('generateAudio')}
+                      />
+                      <span>Generar audio</span>
+                    </label>
+                    <label className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={advanced.force}
+                        onChange={(e) => setAdvanced(prev => ({ ...prev, force: e.target.checked }))}
+                      />
+                      <span>Generar de nuevo aunque ya exista un video idéntico</span>
+                    </label>
+                    {selectedProvider && selectedProvider.capabilities.advancedParameters.length < 4 && (
+                      <p className="text-xs text-gray-500">
+                        Los controles desactivados no están disponibles con {selectedProvider.name}.
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {/* Simulation script */}
+              {promptData.provider === 'simulation' && (
+                <div className="space-y-3 p-4 bg-gray-50 rounded-lg border border-gray-200">
+                  <p className="text-sm font-medium text-gray-700">Guion de la simulación</p>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Tiempo de generación (ms)</label>
+                      <input
+                        type="number"
+                        min={0}
+                        step={500}
+                        value={simulation.delayMs}
+                        onChange={(e) => setSimulation(prev => ({ ...prev, delayMs: Math.max(0, parseInt(e.target.value) || 0) }))}
+                        className="input-field"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Fallar al (%)</label>
+                      <input
+                        type="number"
+                        min={0}
+                        max={100}
+                        placeholder="Nunca"
+                        value={simulation.failAtPercent}
+                        onChange={(e) => setSimulation(prev => ({ ...prev, failAtPercent: e.target.value }))}
+                        className="input-field"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Tipo de fallo</label>
+                      <select
+                        value={simulation.failCategory}
+                        onChange={(e) => setSimulation(prev => ({ ...prev, failCategory: e.target.value }))}
+                        className="input-field"
+                      >
+                        <option value="">Sin categoría</option>
+                        <option value="auth">Autenticación</option>
+                        <option value="quota">Cuota</option>
+                        <option value="content-policy">Política de contenido</option>
+                        <option value="transient">Transitorio</option>
+                        <option value="invalid-request">Petición no válida</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Errores transitorios al consultar</label>
+                      <input
+                        type="number"
+                        min={0}
+                        value={simulation.transientErrors}
+                        onChange={(e) => setSimulation(prev => ({ ...prev, transientErrors: Math.max(0, parseInt(e.target.value) || 0) }))}
+                        className="input-field"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Formato</label>
+                      <select
+                        value={simulation.format}
+                        onChange={(e) => setSimulation(prev => ({ ...prev, format: e.target.value as SimulationSettings['format'] }))}
+                        className="input-field"
+                      >
+                        <option value="mp4">MP4</option>
+                        <option value="webm">WebM</option>
+                      </select>
+                    </div>
+                    <label className="flex items-center space-x-2 text-sm text-gray-700 mt-5">
+                      <input
+                        type="checkbox"
+                        checked={simulation.timeout}
+                        onChange={(e) => setSimulation(prev => ({ ...prev, timeout: e.target.checked }))}
+                      />
+                      <span>Simular timeout</span>
+                    </label>
+                  </div>
+                </div>
+              )}
             </div>
           </div>
 
           {/* Generate Button */}
           <div className="card space-y-4">
+            {selectedProvider && (
+              <div className={`p-4 rounded-lg border ${exceedsBudget ? 'bg-red-50 border-red-200' : 'bg-gray-50 border-gray-200'}`}>
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-700 font-medium">Coste estimado</span>
+                  <span className="font-semibold text-gray-900">${estimatedCost.toFixed(2)}</span>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  ${pricePerSecond.toFixed(2)}/s × {promptData.duration} s × {promptData.variants} variante(s)
+                </p>
+                {monthlyBudget && (
+                  <p className={`text-xs mt-1 ${exceedsBudget ? 'text-red-700' : 'text-gray-500'}`}>
+                    Presupuesto del mes: ${monthlyBudget.spent.toFixed(2)} de ${monthlyBudget.limit.toFixed(2)} gastados
+                    {exceedsBudget && ' · esta generación lo superaría'}
+                  </p>
+                )}
+              </div>
+            )}
+
             <div className="flex items-start space-x-3 p-4 bg-blue-50 rounded-lg">
               <AlertCircle className="w-5 h-5 text-blue-600 mt-0.5" />
               <div className="text-sm text-blue-800">
@@ -288,7 +718,7 @@ const Editor: React.FC = () => {
             
             <button
               onClick={handleGenerateVideo}
-              disabled={isGenerating || (!promptData.originalPrompt.trim() && !promptData.optimizedPrompt)}
+              disabled={isGenerating || exceedsBudget || (!promptData.originalPrompt.trim() && !promptData.optimizedPrompt)}
               className="btn-primary w-full flex items-center justify-center space-x-2 text-lg py-3"
             >
               {isGenerating ? (
@@ -13,26 +13,51 @@ import {
   Grid3X3,
   List,
   Loader2,
-  RefreshCw
+  RefreshCw,
+  AlertTriangle
 } from 'lucide-react';
 import { toast } from 'sonner';
+import { ScrubThumbnail } from '../components/PreviewSprite';
 
 interface Video {
   id: string;
   jobId: string;
-  status: 'queued' | 'processing' | 'completed' | 'failed';
+  status: 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
   prompt: string;
   optimizedPrompt?: string;
   videoUrl?: string;
   thumbnailUrl?: string;
+  // Pista WebVTT con el sprite para previsualizar al pasar el ratón
+  previewTrackUrl?: string | null;
+  // Duración real del archivo (la pedida si no se pudo analizar)
   duration?: number;
+  media?: VideoMedia | null;
   aspectRatio?: string;
   style?: string;
+  provider?: string;
+  simulated?: boolean;
   createdAt: string;
   completedAt?: string;
   progress?: number;
 }
 
+// Datos reales del archivo (ffprobe) y diferencias con lo pedido
+interface VideoMedia {
+  width: number;
+  height: number;
+  mismatches: { field: 'aspectRatio' | 'duration'; requested: string | number; actual: string | number }[];
+}
+
+// Texto de aviso para los videos que no coinciden con la petición
+const describeMismatches = (media?: VideoMedia | null) =>
+  (media?.mismatches || [])
+    .map(mismatch =>
+      mismatch.field === 'duration'
+        ? `Duración: se pidieron ${mismatch.requested} s y se recibieron ${mismatch.actual} s`
+        : `Relación de aspecto: se pidió ${mismatch.requested} y se recibió ${mismatch.actual}`
+    )
+    .join('\n');
+
 interface GalleryResponse {
   videos: Video[];
   total: number;
@@ -153,6 +178,8 @@ const Gallery: React.FC = () => {
         return 'bg-yellow-100 text-yellow-800';
       case 'failed':
         return 'bg-red-100 text-red-800';
+      case 'cancelled':
+        return 'bg-gray-100 text-gray-600';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -168,6 +195,8 @@ const Gallery: React.FC = () => {
         return 'En cola';
       case 'failed':
         return 'Fallido';
+      case 'cancelled':
+        return 'Cancelado';
       default:
         return status;
     }
@@ -184,8 +213,9 @@ const Gallery: React.FC = () => {
     <div className="card group hover:shadow-lg transition-all duration-200">
       <div className="relative aspect-video bg-gray-100 rounded-lg overflow-hidden mb-4">
         {video.thumbnailUrl ? (
-          <img 
-            src={video.thumbnailUrl} 
+          <ScrubThumbnail
+            thumbnailUrl={video.thumbnailUrl}
+            previewTrackUrl={video.previewTrackUrl}
             alt={`Miniatura: ${video.prompt.substring(0, 50)}...`}
             className="w-full h-full object-cover"
           />
@@ -205,10 +235,24 @@ const Gallery: React.FC = () => {
         )}
         
         {/* Status Badge */}
-        <div className="absolute top-2 left-2">
+        <div className="absolute top-2 left-2 flex items-center space-x-1">
           <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(video.status)}`}>
             {getStatusText(video.status)}
           </span>
+          {video.simulated && (
+            <span className="px-2 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+              Simulado
+            </span>
+          )}
+          {video.media && video.media.mismatches.length > 0 && (
+            <span
+              className="px-2 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800 flex items-center space-x-1"
+              title={describeMismatches(video.media)}
+            >
+              <AlertTriangle className="w-3 h-3" />
+              <span>No coincide</span>
+            </span>
+          )}
         </div>
         
         {/* Duration Badge */}
@@ -218,12 +262,12 @@ const Gallery: React.FC = () => {
           </div>
         )}
         
-        {/* Play Overlay */}
+        {/* Play Overlay (solo el botón captura el ratón, para no tapar la previsualización) */}
         {video.status === 'completed' && video.videoUrl && (
-          <div className="absolute inset-0 flex items-center justify-center bg-black/20 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+          <div className="absolute inset-0 flex items-center justify-center bg-black/20 opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none">
             <button
               onClick={() => navigate(`/player/${video.id}`)}
-              className="bg-white/90 hover:bg-white rounded-full p-3 transition-colors duration-200"
+              className="bg-white/90 hover:bg-white rounded-full p-3 transition-colors duration-200 pointer-events-auto"
             >
               <Play className="w-6 h-6 text-gray-800" />
             </button>
@@ -306,10 +350,11 @@ const Gallery: React.FC = () => {
 
   const VideoListItem: React.FC<{ video: Video }> = ({ video }) => (
     <div className="card flex items-center space-x-4 p-4">
-      <div className="relative w-32 h-20 bg-gray-100 rounded-lg overflow-hidden flex-shrink-0">
+      <div className="relative w-32 h-20 bg-gray-100 rounded-lg overflow-hidden flex-shrink-0 group">
         {video.thumbnailUrl ? (
-          <img 
-            src={video.thumbnailUrl} 
+          <ScrubThumbnail
+            thumbnailUrl={video.thumbnailUrl}
+            previewTrackUrl={video.previewTrackUrl}
             alt={`Miniatura: ${video.prompt.substring(0, 50)}...`}
             className="w-full h-full object-cover"
           />
@@ -320,10 +365,10 @@ const Gallery: React.FC = () => {
         )}
         
         {video.status === 'completed' && video.videoUrl && (
-          <div className="absolute inset-0 flex items-center justify-center bg-black/20 opacity-0 hover:opacity-100 transition-opacity duration-200">
+          <div className="absolute inset-0 flex items-center justify-center bg-black/20 opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none">
             <button
               onClick={() => navigate(`/player/${video.id}`)}
-              className="bg-white/90 hover:bg-white rounded-full p-2 transition-colors duration-200"
+              className="bg-white/90 hover:bg-white rounded-full p-2 transition-colors duration-200 pointer-events-auto"
             >
               <Play className="w-4 h-4 text-gray-800" />
             </button>
@@ -348,6 +393,15 @@ const Gallery: React.FC = () => {
                   <span>{formatDuration(video.duration)}</span>
                 </div>
               )}
+              {video.media && (
+                <span>{video.media.width}×{video.media.height}</span>
+              )}
+              {video.media && video.media.mismatches.length > 0 && (
+                <div className="flex items-center space-x-1 text-orange-600" title={describeMismatches(video.media)}>
+                  <AlertTriangle className="w-4 h-4" />
+                  <span>No coincide con lo pedido</span>
+                </div>
+              )}
             </div>
           </div>
           
@@ -355,6 +409,11 @@ const Gallery: React.FC = () => {
             <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(video.status)}`}>
               {getStatusText(video.status)}
             </span>
+            {video.simulated && (
+              <span className="px-2 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                Simulado
+              </span>
+            )}
             
             <div className="flex items-center space-x-2">
               {video.status === 'completed' && video.videoUrl && (
@@ -476,6 +535,7 @@ const Gallery: React.FC = () => {
               <option value="processing">Procesando</option>
               <option value="queued">En cola</option>
               <option value="failed">Fallidos</option>
+              <option value="cancelled">Cancelados</option>
             </select>
           </div>
           
@@ -1,25 +1,82 @@
 import React, { useState, useEffect } from 'react';
 import { useSearchParams, useNavigate } from 'react-router-dom';
-import { Clock, CheckCircle, XCircle, Loader2, Play, Download, RefreshCw } from 'lucide-react';
+import { Clock, CheckCircle, XCircle, Loader2, Play, Download, RefreshCw, Ban, Star } from 'lucide-react';
 import { toast } from 'sonner';
 
+type ErrorCategory = 'auth' | 'quota' | 'content-policy' | 'transient' | 'invalid-request';
+
+// Qué puede hacer el usuario según la categoría del error del proveedor
+const ERROR_REMEDIATION: Record<ErrorCategory, { title: string; hint: string }> = {
+  auth: {
+    title: 'Credenciales del proveedor no válidas',
+    hint: 'Revisa la API key del proveedor en la configuración del servidor.',
+  },
+  quota: {
+    title: 'Cuota del proveedor agotada',
+    hint: 'Espera unos minutos o prueba con otro proveedor.',
+  },
+  'content-policy': {
+    title: 'Contenido bloqueado por la política del proveedor',
+    hint: 'Reformula el prompt evitando contenido sensible y vuelve a intentarlo.',
+  },
+  transient: {
+    title: 'Problema temporal del proveedor',
+    hint: 'Se reintentó automáticamente sin éxito. Vuelve a intentarlo más tarde.',
+  },
+  'invalid-request': {
+    title: 'Petición no válida para el proveedor',
+    hint: 'Revisa la duración, la relación de aspecto y la resolución elegidas.',
+  },
+};
+
 interface VideoJob {
   id: string;
   jobId: string;
-  status: 'queued' | 'processing' | 'completed' | 'failed';
+  status: 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
   prompt: string;
   optimizedPrompt?: string;
   videoUrl?: string;
   thumbnailUrl?: string;
   progress?: number;
+  queuePosition?: number | null;
   duration?: number;
   aspectRatio?: string;
   style?: string;
   createdAt: string;
   completedAt?: string;
   error?: string;
+  errorCategory?: ErrorCategory;
+  // Tiempo total estimado desde el envío (segundos), según el historial del proveedor
+  estimatedTimeRange?: { min: number; max: number };
+}
+
+// Cada uno de los videos devueltos por la generación
+interface VideoVariant {
+  id: number;
+  index: number;
+  videoUrl: string;
+  thumbnailUrl: string;
+  primary: boolean;
+  // Presente si la variante salió de mezclar música/narración sobre otra
+  audioMix?: { sourceVariantId: number } | null;
 }
 
+// Sin EventSource (navegadores antiguos) se vuelve a consultar el estado periódicamente
+const supportsEventSource = typeof window !== 'undefined' && 'EventSource' in window;
+
+const isFinishedStatus = (status: VideoJob['status']) =>
+  status === 'completed' || status === 'failed' || status === 'cancelled';
+
+// Rango de tiempo restante en minutos: "entre 2 y 4 min", "hasta 3 min"...
+const formatRemaining = (min: number, max: number) => {
+  const minMinutes = Math.round(min / 60);
+  const maxMinutes = Math.max(1, Math.round(max / 60));
+  if (max < 60) return 'menos de 1 min';
+  if (minMinutes === 0) return `hasta ${maxMinutes} min`;
+  if (minMinutes === maxMinutes) return `unos ${maxMinutes} min`;
+  return `entre ${minMinutes} y ${maxMinutes} min`;
+};
+
 const Generator: React.FC = () => {
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
@@ -28,6 +85,10 @@ const Generator: React.FC = () => {
   const [job, setJob] = useState<VideoJob | null>(null);
   const [loading, setLoading] = useState(true);
   const [polling, setPolling] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+  const [variants, setVariants] = useState<VideoVariant[]>([]);
+  const [choosingVariant, setChoosingVariant] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
 
   const fetchJobStatus = async (id: string) => {
     try {
@@ -60,8 +121,69 @@ const Generator: React.FC = () => {
     loadJob();
   }, [jobId, navigate]);
 
+  const notifyFinished = (status: VideoJob['status']) => {
+    if (status === 'completed') {
+      toast.success('¡Video generado exitosamente!');
+    } else if (status === 'failed') {
+      toast.error('Error al generar el video');
+    }
+  };
+
+  // Reloj para ir descontando el tiempo restante mientras el trabajo sigue en curso
+  useEffect(() => {
+    if (!job || isFinishedStatus(job.status)) return;
+    const interval = setInterval(() => setNow(Date.now()), 5000);
+    return () => clearInterval(interval);
+  }, [job?.status]);
+
+  // Suscripción a los eventos del trabajo (status, progress, queue, job-error)
+  useEffect(() => {
+    if (!jobId || !supportsEventSource) return;
+
+    const source = new EventSource(`/api/videos/${jobId}/events`);
+    let initialStatus = true;
+    setPolling(true);
+
+    source.addEventListener('status', (event) => {
+      const data = JSON.parse((event as MessageEvent).data);
+      setJob(prev => ({ ...prev, ...data }));
+
+      if (isFinishedStatus(data.status)) {
+        source.close();
+        setPolling(false);
+        // El primer evento es el estado actual, no una transición
+        if (!initialStatus) {
+          notifyFinished(data.status);
+        }
+      }
+      initialStatus = false;
+    });
+
+    source.addEventListener('progress', (event) => {
+      const { progress } = JSON.parse((event as MessageEvent).data);
+      setJob(prev => (prev ? { ...prev, progress } : prev));
+    });
+
+    source.addEventListener('queue', (event) => {
+      const { queuePosition } = JSON.parse((event as MessageEvent).data);
+      setJob(prev => (prev ? { ...prev, queuePosition } : prev));
+    });
+
+    source.addEventListener('job-error', (event) => {
+      const { error, errorCategory } = JSON.parse((event as MessageEvent).data);
+      setJob(prev => (prev ? { ...prev, error, errorCategory } : prev));
+    });
+
+    return () => {
+      source.close();
+      setPolling(false);
+    };
+  }, [jobId]);
+
   useEffect(() => {
-    if (!job || job.status === 'completed' || job.status === 'failed') {
+    if (supportsEventSource) return;
+
+    if (!job || isFinishedStatus(job.status)) {
       setPolling(false);
       return;
     }
@@ -69,13 +191,9 @@ const Generator: React.FC = () => {
     setPolling(true);
     const interval = setInterval(async () => {
       const updatedJob = await fetchJobStatus(job.jobId);
-      if (updatedJob && (updatedJob.status === 'completed' || updatedJob.status === 'failed')) {
+      if (updatedJob && isFinishedStatus(updatedJob.status)) {
         setPolling(false);
-        if (updatedJob.status === 'completed') {
-          toast.success('¡Video generado exitosamente!');
-        } else {
-          toast.error('Error al generar el video');
-        }
+        notifyFinished(updatedJob.status);
       }
     }, 3000); // Poll every 3 seconds
 
@@ -85,6 +203,46 @@ const Generator: React.FC = () => {
     };
   }, [job]);
 
+  // Al completarse se cargan las variantes para poder elegir la principal
+  useEffect(() => {
+    if (!job?.jobId || job.status !== 'completed') return;
+
+    const fetchVariants = async () => {
+      try {
+        const response = await fetch(`/api/videos/${job.jobId}/variants`);
+        if (!response.ok) return;
+        const data = await response.json();
+        setVariants(data.variants);
+      } catch (error) {
+        console.error('Error fetching variants:', error);
+      }
+    };
+
+    fetchVariants();
+  }, [job?.jobId, job?.status]);
+
+  const handleChoosePrimary = async (variant: VideoVariant) => {
+    if (!job?.jobId) return;
+
+    setChoosingVariant(variant.id);
+    try {
+      const response = await fetch(`/api/videos/${job.jobId}/variants/${variant.id}/primary`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Error al elegir la variante');
+      }
+
+      setVariants(data.variants);
+      setJob(prev => (prev ? { ...prev, videoUrl: variant.videoUrl, thumbnailUrl: variant.thumbnailUrl } : prev));
+      toast.success(`Variante ${variant.index + 1} elegida para la galería`);
+    } catch (error) {
+      console.error('Error choosing variant:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al elegir la variante');
+    } finally {
+      setChoosingVariant(null);
+    }
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'queued':
@@ -95,6 +253,8 @@ const Generator: React.FC = () => {
         return <CheckCircle className="w-6 h-6 text-green-600" />;
       case 'failed':
         return <XCircle className="w-6 h-6 text-red-600" />;
+      case 'cancelled':
+        return <Ban className="w-6 h-6 text-gray-600" />;
       default:
         return <Clock className="w-6 h-6 text-gray-600" />;
     }
@@ -110,6 +270,8 @@ const Generator: React.FC = () => {
         return 'Completado';
       case 'failed':
         return 'Fallido';
+      case 'cancelled':
+        return 'Cancelado';
       default:
         return 'Desconocido';
     }
@@ -125,6 +287,8 @@ const Generator: React.FC = () => {
         return 'bg-green-100 text-green-800 border-green-200';
       case 'failed':
         return 'bg-red-100 text-red-800 border-red-200';
+      case 'cancelled':
+        return 'bg-gray-100 text-gray-600 border-gray-200';
       default:
         return 'bg-gray-100 text-gray-800 border-gray-200';
     }
@@ -142,6 +306,26 @@ const Generator: React.FC = () => {
     }
   };
 
+  const handleCancel = async () => {
+    if (!job?.jobId) return;
+
+    setCancelling(true);
+    try {
+      const response = await fetch(`/api/videos/${job.jobId}/cancel`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Error al cancelar el trabajo');
+      }
+      toast.success('Generación cancelada');
+      await fetchJobStatus(job.jobId);
+    } catch (error) {
+      console.error('Error cancelling job:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al cancelar el trabajo');
+    } finally {
+      setCancelling(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -203,6 +387,18 @@ const Generator: React.FC = () => {
           </div>
         </div>
 
+        {/* Queue Position */}
+        {job.status === 'queued' && job.queuePosition && (
+          <div className="flex items-center space-x-2 text-sm text-yellow-700">
+            <Clock className="w-4 h-4" />
+            <span>
+              {job.queuePosition === 1
+                ? 'Eres el siguiente en la cola del proveedor'
+                : `Posición ${job.queuePosition} en la cola del proveedor`}
+            </span>
+          </div>
+        )}
+
         {/* Progress Bar */}
         {job.status === 'processing' && (
           <div className="space-y-2">
@@ -219,14 +415,38 @@ const Generator: React.FC = () => {
           </div>
         )}
 
+        {/* Estimated Time */}
+        {(job.status === 'queued' || job.status === 'processing') && job.estimatedTimeRange && (() => {
+          const elapsed = (now - new Date(job.createdAt).getTime()) / 1000;
+          const min = Math.max(0, job.estimatedTimeRange.min - elapsed);
+          const max = Math.max(0, job.estimatedTimeRange.max - elapsed);
+          return (
+            <div className="flex items-center space-x-2 text-sm text-gray-600">
+              <Clock className="w-4 h-4" />
+              <span>
+                {max === 0
+                  ? 'Está tardando más de lo habitual'
+                  : `Tiempo restante estimado: ${formatRemaining(min, max)}`}
+              </span>
+            </div>
+          );
+        })()}
+
         {/* Error Message */}
         {job.status === 'failed' && job.error && (
           <div className="bg-red-50 border border-red-200 rounded-lg p-4">
             <div className="flex items-start space-x-3">
               <XCircle className="w-5 h-5 text-red-600 mt-0.5" />
               <div>
-                <h3 className="font-medium text-red-800">Error en la generación</h3>
-                <p className="text-red-700 mt-1">{job.error}</p>
+                <h3 className="font-medium text-red-800">
+                  {job.errorCategory
+                    ? ERROR_REMEDIATION[job.errorCategory].title
+                    : 'Error en la generación'}
+                </h3>
+                {job.errorCategory && (
+                  <p className="text-red-700 mt-1">{ERROR_REMEDIATION[job.errorCategory].hint}</p>
+                )}
+                <p className="text-red-600 text-sm mt-1">{job.error}</p>
               </div>
             </div>
           </div>
@@ -321,6 +541,45 @@ const Generator: React.FC = () => {
               </div>
             )}
             
+            {/* Variant picker */}
+            {variants.length > 1 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-gray-700">
+                  Elige la variante que se mostrará en la galería
+                </p>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                  {variants.map(variant => (
+                    <button
+                      key={variant.id}
+                      onClick={() => !variant.primary && handleChoosePrimary(variant)}
+                      disabled={choosingVariant !== null}
+                      className={`relative aspect-video rounded-lg overflow-hidden border-2 transition-colors ${
+                        variant.primary ? 'border-blue-600' : 'border-transparent hover:border-gray-300'
+                      }`}
+                      title={variant.primary ? 'Variante principal' : 'Usar como principal'}
+                    >
+                      <img
+                        src={variant.thumbnailUrl}
+                        alt={`Variante ${variant.index + 1}`}
+                        className="w-full h-full object-cover"
+                      />
+                      <span className="absolute bottom-1 left-1 px-2 py-0.5 rounded bg-black/60 text-white text-xs flex items-center space-x-1">
+                        {choosingVariant === variant.id ? (
+                          <Loader2 className="w-3 h-3 animate-spin" />
+                        ) : (
+                          variant.primary && <Star className="w-3 h-3" />
+                        )}
+                        <span>
+                          Variante {variant.index + 1}
+                          {variant.audioMix && ' · con audio'}
+                        </span>
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div className="flex space-x-4">
               <button
                 onClick={handlePlayVideo}
@@ -345,6 +604,17 @@ const Generator: React.FC = () => {
 
       {/* Actions */}
       <div className="flex justify-center space-x-4">
+        {(job.status === 'queued' || job.status === 'processing') && (
+          <button
+            onClick={handleCancel}
+            disabled={cancelling}
+            className="btn-secondary flex items-center space-x-2 text-red-600 disabled:opacity-50"
+          >
+            {cancelling ? <Loader2 className="w-4 h-4 animate-spin" /> : <Ban className="w-4 h-4" />}
+            <span>Cancelar</span>
+          </button>
+        )}
+
         <button
           onClick={handleRefresh}
           className="btn-secondary flex items-center space-x-2"
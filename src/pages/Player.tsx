@@ -12,9 +12,17 @@ import {
   Download,
   Share2,
   ArrowLeft,
-  Loader2
+  Loader2,
+  RefreshCw,
+  AlertTriangle,
+  Captions,
+  CaptionsOff
 } from 'lucide-react';
 import { toast } from 'sonner';
+import Hls from 'hls.js';
+import PreviewFrame, { findPreviewCue, usePreviewTrack } from '../components/PreviewSprite';
+import AudioMixPanel, { type AudioMix } from '../components/AudioMixPanel';
+import CaptionsPanel, { type CaptionTrack } from '../components/CaptionsPanel';
 
 interface Video {
   id: string;
@@ -24,18 +32,64 @@ interface Video {
   optimizedPrompt?: string;
   videoUrl?: string;
   thumbnailUrl?: string;
+  previewTrackUrl?: string | null;
+  // Master playlist HLS con varias calidades; sin él se reproduce videoUrl (MP4)
+  hlsUrl?: string | null;
+  renditions?: VideoRendition[];
+  // Duración real del archivo (la pedida si no se pudo analizar)
   duration?: number;
+  requestedDuration?: number;
+  media?: VideoMedia | null;
   aspectRatio?: string;
   style?: string;
+  provider?: string;
+  simulated?: boolean;
+  negativePrompt?: string;
+  seed?: number;
+  enhancePrompt?: boolean;
+  generateAudio?: boolean;
+  // USD; estimado mientras se genera
+  cost?: number | null;
+  // Narración adjunta y mezclas de audio hechas con ella y/o la música de la biblioteca
+  narrationUrl?: string | null;
+  audioMixes?: AudioMix[];
+  // Subtítulos WebVTT por idioma y guion con el que se generaron
+  captions?: CaptionTrack[];
+  narrationScript?: string | null;
   createdAt: string;
   completedAt?: string;
 }
 
+interface VideoRendition {
+  name: string;
+  width: number;
+  height: number;
+  bandwidth: number;
+}
+
+// Datos reales del archivo según ffprobe
+interface VideoMedia {
+  durationSeconds: number;
+  width: number;
+  height: number;
+  videoCodec: string;
+  audioCodec: string | null;
+  hasAudio: boolean;
+  bitrate: number | null;
+  frameRate: number | null;
+  fileSize: number;
+  mismatches: { field: 'aspectRatio' | 'duration'; requested: string | number; actual: string | number }[];
+}
+
+const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+
 const Player: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const videoRef = useRef<HTMLVideoElement>(null);
   const progressRef = useRef<HTMLDivElement>(null);
+  const hlsRef = useRef<Hls | null>(null);
   
   const [video, setVideo] = useState<Video | null>(null);
   const [loading, setLoading] = useState(true);
@@ -47,6 +101,16 @@ const Player: React.FC = () => {
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [showControls, setShowControls] = useState(true);
   const [controlsTimeout, setControlsTimeout] = useState<NodeJS.Timeout | null>(null);
+  const [regenerating, setRegenerating] = useState(false);
+  // Instante bajo el ratón en la barra de progreso (para la previsualización)
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
+  const previewTrack = usePreviewTrack(video?.previewTrackUrl);
+  // Calidad elegida (-1 = automática según la conexión) y la que se está reproduciendo
+  const [selectedLevel, setSelectedLevel] = useState(-1);
+  const [playingLevel, setPlayingLevel] = useState<number | null>(null);
+  // Subtítulos activados y su idioma
+  const [captionsOn, setCaptionsOn] = useState(false);
+  const [captionLanguage, setCaptionLanguage] = useState('');
 
   useEffect(() => {
     if (!id) {
@@ -75,6 +139,18 @@ const Player: React.FC = () => {
     fetchVideo();
   }, [id, navigate]);
 
+  // Tras mezclar el audio la variante principal cambia: se recarga sin el spinner de página
+  const reloadVideo = async () => {
+    try {
+      const response = await fetch(`/api/videos/${id}`);
+      if (response.ok) {
+        setVideo(await response.json());
+      }
+    } catch (error) {
+      console.error('Error reloading video:', error);
+    }
+  };
+
   useEffect(() => {
     const videoElement = videoRef.current;
     if (!videoElement) return;
@@ -106,6 +182,71 @@ const Player: React.FC = () => {
     };
   }, [video]);
 
+  // Fuente del video: HLS adaptativo con hls.js, HLS nativo (Safari) o el MP4 original
+  useEffect(() => {
+    const videoElement = videoRef.current;
+    if (!videoElement || !video?.videoUrl) return;
+
+    if (video.hlsUrl && Hls.isSupported()) {
+      const hls = new Hls();
+      hlsRef.current = hls;
+      hls.on(Hls.Events.LEVEL_SWITCHED, (_, data) => setPlayingLevel(data.level));
+      hls.on(Hls.Events.ERROR, (_, data) => {
+        if (!data.fatal) return;
+        // Si el HLS no se puede reproducir se vuelve al MP4
+        console.error('Error de reproducción HLS:', data);
+        hls.destroy();
+        hlsRef.current = null;
+        videoElement.src = video.videoUrl!;
+      });
+      hls.loadSource(video.hlsUrl);
+      hls.attachMedia(videoElement);
+
+      return () => {
+        hls.destroy();
+        hlsRef.current = null;
+        setPlayingLevel(null);
+        setSelectedLevel(-1);
+      };
+    }
+
+    videoElement.src =
+      video.hlsUrl && videoElement.canPlayType('application/vnd.apple.mpegurl')
+        ? video.hlsUrl
+        : video.videoUrl;
+  }, [video?.hlsUrl, video?.videoUrl]);
+
+  const handleQualityChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const level = parseInt(e.target.value);
+    setSelectedLevel(level);
+    if (hlsRef.current) {
+      hlsRef.current.currentLevel = level;
+    }
+  };
+
+  // Nombre de una calidad de hls.js a partir de su altura
+  const levelName = (level: number | null) => {
+    const height = level !== null ? hlsRef.current?.levels[level]?.height : undefined;
+    return height ? `${height}p` : '';
+  };
+
+  // Idioma por defecto: español si lo hay, si no la primera pista
+  useEffect(() => {
+    const tracks = video?.captions || [];
+    if (tracks.some(track => track.language === captionLanguage)) return;
+    setCaptionLanguage((tracks.find(track => track.language === 'es') || tracks[0])?.language || '');
+  }, [video?.captions, captionLanguage]);
+
+  // Solo se muestra la pista elegida; el resto queda desactivada
+  useEffect(() => {
+    const videoElement = videoRef.current;
+    if (!videoElement) return;
+
+    Array.from(videoElement.textTracks).forEach(track => {
+      track.mode = captionsOn && track.language === captionLanguage ? 'showing' : 'disabled';
+    });
+  }, [captionsOn, captionLanguage, video?.captions]);
+
   useEffect(() => {
     const handleFullscreenChange = () => {
       setIsFullscreen(!!document.fullscreenElement);
@@ -137,6 +278,15 @@ const Player: React.FC = () => {
     videoElement.currentTime = newTime;
   };
 
+  const handleProgressHover = (e: React.MouseEvent<HTMLDivElement>) => {
+    const progressBar = progressRef.current;
+    if (!progressBar || !duration) return;
+
+    const rect = progressBar.getBoundingClientRect();
+    const ratio = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    setHoverTime(ratio * duration);
+  };
+
   const handleVolumeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newVolume = parseFloat(e.target.value);
     setVolume(newVolume);
@@ -210,6 +360,27 @@ const Player: React.FC = () => {
     }
   };
 
+  const handleRegenerate = async () => {
+    if (!video) return;
+
+    setRegenerating(true);
+    try {
+      const response = await fetch(`/api/videos/${video.id}/regenerate`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Error al regenerar el video');
+      }
+
+      toast.success(`Regenerando con la seed ${data.seed}`);
+      navigate(`/generator?jobId=${data.jobId}`);
+    } catch (error) {
+      console.error('Error regenerating video:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al regenerar el video');
+    } finally {
+      setRegenerating(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -249,6 +420,17 @@ const Player: React.FC = () => {
         </button>
         
         <div className="flex items-center space-x-3">
+          {video.seed !== undefined && (
+            <button
+              onClick={handleRegenerate}
+              disabled={regenerating}
+              className="btn-secondary flex items-center space-x-2 disabled:opacity-50"
+            >
+              <RefreshCw className={`w-4 h-4 ${regenerating ? 'animate-spin' : ''}`} />
+              <span>Regenerar con la misma seed</span>
+            </button>
+          )}
+
           <button
             onClick={handleShare}
             className="btn-secondary flex items-center space-x-2"
@@ -274,13 +456,28 @@ const Player: React.FC = () => {
         onMouseMove={handleMouseMove}
         onMouseLeave={() => isPlaying && setShowControls(false)}
       >
+        {video.simulated && (
+          <span className="absolute top-3 left-3 z-10 px-2 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+            Simulado
+          </span>
+        )}
         <video
           ref={videoRef}
-          src={video.videoUrl}
           className="w-full h-full object-contain"
           onClick={togglePlay}
           poster={video.thumbnailUrl}
-        />
+        >
+          {video.captions?.map(track => (
+            // createdAt en la URL para no reutilizar la pista anterior de la caché al regenerarla
+            <track
+              key={`${track.language}-${track.createdAt}`}
+              kind="subtitles"
+              src={`${track.url}?v=${encodeURIComponent(track.createdAt)}`}
+              srcLang={track.language}
+              label={track.label}
+            />
+          ))}
+        </video>
         
         {/* Play/Pause Overlay */}
         {!isPlaying && (
@@ -299,9 +496,29 @@ const Player: React.FC = () => {
           {/* Progress Bar */}
           <div 
             ref={progressRef}
-            className="w-full h-2 bg-white/30 rounded-full cursor-pointer mb-4 group"
+            className="relative w-full h-2 bg-white/30 rounded-full cursor-pointer mb-4 group"
             onClick={handleProgressClick}
+            onMouseMove={handleProgressHover}
+            onMouseLeave={() => setHoverTime(null)}
           >
+            {/* Hover Preview */}
+            {previewTrack && hoverTime !== null && (() => {
+              const cue = findPreviewCue(previewTrack, hoverTime);
+              return (
+                <div
+                  className="absolute bottom-4 -translate-x-1/2 pointer-events-none"
+                  style={{ left: `${(hoverTime / duration) * 100}%` }}
+                >
+                  <PreviewFrame
+                    track={previewTrack}
+                    time={hoverTime}
+                    className="rounded border-2 border-white shadow-lg"
+                    style={{ width: cue.width, height: cue.height }}
+                  />
+                  <div className="text-center text-white text-xs mt-1">{formatTime(hoverTime)}</div>
+                </div>
+              );
+            })()}
             <div 
               className="h-full bg-blue-600 rounded-full transition-all duration-150 group-hover:bg-blue-500"
               style={{ width: `${duration ? (currentTime / duration) * 100 : 0}%` }}
@@ -356,12 +573,63 @@ const Player: React.FC = () => {
               </div>
             </div>
             
-            <button
-              onClick={toggleFullscreen}
-              className="text-white hover:text-blue-400 transition-colors"
-            >
-              {isFullscreen ? <Minimize className="w-6 h-6" /> : <Maximize className="w-6 h-6" />}
-            </button>
+            <div className="flex items-center space-x-4">
+              {/* Captions */}
+              {video.captions && video.captions.length > 0 && (
+                <>
+                  {video.captions.length > 1 && (
+                    <select
+                      value={captionLanguage}
+                      onChange={e => {
+                        setCaptionLanguage(e.target.value);
+                        setCaptionsOn(true);
+                      }}
+                      className="bg-black/60 text-white text-sm rounded px-2 py-1 border border-white/30"
+                      title="Idioma de los subtítulos"
+                    >
+                      {video.captions.map(track => (
+                        <option key={track.language} value={track.language}>
+                          {track.label}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  <button
+                    onClick={() => setCaptionsOn(!captionsOn)}
+                    className="text-white hover:text-blue-400 transition-colors"
+                    title={captionsOn ? 'Ocultar subtítulos' : 'Mostrar subtítulos'}
+                  >
+                    {captionsOn ? <Captions className="w-6 h-6" /> : <CaptionsOff className="w-6 h-6" />}
+                  </button>
+                </>
+              )}
+
+              {/* Quality Selector */}
+              {hlsRef.current && video.renditions && video.renditions.length > 1 && (
+                <select
+                  value={selectedLevel}
+                  onChange={handleQualityChange}
+                  className="bg-black/60 text-white text-sm rounded px-2 py-1 border border-white/30"
+                  title="Calidad"
+                >
+                  <option value={-1}>
+                    Auto{selectedLevel === -1 && playingLevel !== null ? ` (${levelName(playingLevel)})` : ''}
+                  </option>
+                  {hlsRef.current.levels.map((level, index) => (
+                    <option key={index} value={index}>
+                      {level.height}p
+                    </option>
+                  ))}
+                </select>
+              )}
+
+              <button
+                onClick={toggleFullscreen}
+                className="text-white hover:text-blue-400 transition-colors"
+              >
+                {isFullscreen ? <Minimize className="w-6 h-6" /> : <Maximize className="w-6 h-6" />}
+              </button>
+            </div>
           </div>
         </div>
       </div>
@@ -402,6 +670,13 @@ const Player: React.FC = () => {
               <span className="text-gray-600">Estado:</span>
               <span className="font-medium capitalize">{video.status}</span>
             </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Proveedor:</span>
+              <span className="font-medium">
+                {video.provider || 'No especificado'}
+                {video.simulated && ' (simulado)'}
+              </span>
+            </div>
             <div className="flex justify-between">
               <span className="text-gray-600">Relación de aspecto:</span>
               <span className="font-medium">{video.aspectRatio || 'No especificado'}</span>
@@ -414,6 +689,82 @@ const Player: React.FC = () => {
               <span className="text-gray-600">Duración:</span>
               <span className="font-medium">{video.duration || 'No especificado'} segundos</span>
             </div>
+            {video.media && (
+              <>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Resolución:</span>
+                  <span className="font-medium">
+                    {video.media.width}×{video.media.height}
+                    {video.media.frameRate ? ` · ${video.media.frameRate} fps` : ''}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Códec:</span>
+                  <span className="font-medium">
+                    {video.media.videoCodec}
+                    {video.media.hasAudio ? ` + ${video.media.audioCodec}` : ' (sin audio)'}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Archivo:</span>
+                  <span className="font-medium">
+                    {formatFileSize(video.media.fileSize)}
+                    {video.media.bitrate ? ` · ${Math.round(video.media.bitrate / 1000)} kbps` : ''}
+                  </span>
+                </div>
+                {video.media.mismatches.length > 0 && (
+                  <div className="bg-orange-50 border border-orange-200 rounded-lg p-3 text-orange-800 space-y-1">
+                    <div className="flex items-center space-x-2 font-medium">
+                      <AlertTriangle className="w-4 h-4" />
+                      <span>El video no coincide con lo pedido</span>
+                    </div>
+                    {video.media.mismatches.map(mismatch => (
+                      <p key={mismatch.field}>
+                        {mismatch.field === 'duration'
+                          ? `Duración: se pidieron ${mismatch.requested} s y dura ${mismatch.actual} s`
+                          : `Relación de aspecto: se pidió ${mismatch.requested} y es ${mismatch.actual}`}
+                      </p>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+            {video.renditions && video.renditions.length > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Calidades:</span>
+                <span className="font-medium">{video.renditions.map(rendition => rendition.name).join(', ')}</span>
+              </div>
+            )}
+            {video.cost != null && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Coste:</span>
+                <span className="font-medium">${video.cost.toFixed(2)}</span>
+              </div>
+            )}
+            {video.seed !== undefined && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Seed:</span>
+                <span className="font-medium font-mono">{video.seed}</span>
+              </div>
+            )}
+            {video.negativePrompt && (
+              <div className="flex justify-between space-x-4">
+                <span className="text-gray-600">Prompt negativo:</span>
+                <span className="font-medium text-right">{video.negativePrompt}</span>
+              </div>
+            )}
+            {video.enhancePrompt !== undefined && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Mejora del prompt:</span>
+                <span className="font-medium">{video.enhancePrompt ? 'Sí' : 'No'}</span>
+              </div>
+            )}
+            {video.generateAudio !== undefined && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Audio generado:</span>
+                <span className="font-medium">{video.generateAudio ? 'Sí' : 'No'}</span>
+              </div>
+            )}
             <div className="flex justify-between">
               <span className="text-gray-600">Creado:</span>
               <span className="font-medium">
@@ -431,6 +782,24 @@ const Player: React.FC = () => {
           </div>
         </div>
       </div>
+
+      {video.status === 'completed' && (
+        <AudioMixPanel
+          videoId={video.id}
+          narrationUrl={video.narrationUrl || null}
+          audioMixes={video.audioMixes || []}
+          onChange={reloadVideo}
+        />
+      )}
+
+      {video.status === 'completed' && (
+        <CaptionsPanel
+          videoId={video.id}
+          captions={video.captions || []}
+          narrationScript={video.narrationScript || null}
+          onChange={reloadVideo}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,419 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Film, Loader2, ArrowUp, ArrowDown, X, Plus, Save, Play, Clock } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface LibraryVideo {
+  id: number;
+  prompt: string;
+  thumbnailUrl: string;
+  duration: number;
+  aspectRatio: string;
+}
+
+interface SequenceItem {
+  videoId: number;
+  crossfadeSeconds: number;
+}
+
+interface Sequence {
+  id: number;
+  name: string;
+  aspectRatio: string;
+  items: SequenceItem[];
+  render: {
+    videoId: number;
+    jobId: string;
+    status: string;
+    progress: number;
+    error?: string;
+  } | null;
+  createdAt: string;
+}
+
+const MAX_CROSSFADE_SECONDS = 5;
+
+const Sequences: React.FC = () => {
+  const navigate = useNavigate();
+  const [videos, setVideos] = useState<LibraryVideo[]>([]);
+  const [sequences, setSequences] = useState<Sequence[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  // Secuencia en edición (null = nueva)
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [name, setName] = useState('');
+  const [aspectRatio, setAspectRatio] = useState('16:9');
+  const [items, setItems] = useState<SequenceItem[]>([]);
+
+  const fetchSequences = async () => {
+    const response = await fetch('/api/videos/sequences');
+    if (!response.ok) {
+      throw new Error('Error al cargar las secuencias');
+    }
+    const data = await response.json();
+    setSequences(data.sequences);
+  };
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        const response = await fetch('/api/videos/library?status=completed&limit=100');
+        if (!response.ok) {
+          throw new Error('Error al cargar los videos');
+        }
+        const data = await response.json();
+        setVideos(data.videos);
+        await fetchSequences();
+      } catch (error) {
+        console.error('Error fetching sequences:', error);
+        toast.error('Error al cargar las secuencias');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, []);
+
+  const findVideo = (videoId: number) => videos.find(video => video.id === videoId);
+
+  // Duración aproximada del montaje: los fundidos solapan los clips
+  const totalDuration = items.reduce(
+    (total, item, index) =>
+      total + (findVideo(item.videoId)?.duration || 0) - (index > 0 ? item.crossfadeSeconds : 0),
+    0
+  );
+
+  const addClip = (videoId: number) => {
+    setItems(current => [...current, { videoId, crossfadeSeconds: current.length > 0 ? 1 : 0 }]);
+  };
+
+  const removeClip = (index: number) => {
+    setItems(current =>
+      current
+        .filter((_, i) => i !== index)
+        .map((item, i) => (i === 0 ? { ...item, crossfadeSeconds: 0 } : item))
+    );
+  };
+
+  // Mueve un clip una posición; el primero nunca lleva fundido
+  const moveClip = (index: number, offset: number) => {
+    setItems(current => {
+      const target = index + offset;
+      if (target < 0 || target >= current.length) return current;
+      const next = [...current];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next.map((item, i) => (i === 0 ? { ...item, crossfadeSeconds: 0 } : item));
+    });
+  };
+
+  const setCrossfade = (index: number, value: string) => {
+    const seconds = Math.min(MAX_CROSSFADE_SECONDS, Math.max(0, Number(value) || 0));
+    setItems(current => current.map((item, i) => (i === index ? { ...item, crossfadeSeconds: seconds } : item)));
+  };
+
+  const editSequence = (sequence: Sequence) => {
+    setEditingId(sequence.id);
+    setName(sequence.name);
+    setAspectRatio(sequence.aspectRatio);
+    setItems(sequence.items);
+  };
+
+  const resetEditor = () => {
+    setEditingId(null);
+    setName('');
+    setAspectRatio('16:9');
+    setItems([]);
+  };
+
+  // Guarda la secuencia y, si se pide, lanza el montaje y abre su progreso
+  const handleSave = async (render: boolean) => {
+    if (!name.trim()) {
+      toast.error('Ponle un nombre a la secuencia');
+      return;
+    }
+    if (items.length < 2) {
+      toast.error('Añade al menos dos videos');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch(
+        editingId ? `/api/videos/sequences/${editingId}` : '/api/videos/sequences',
+        {
+          method: editingId ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name: name.trim(), aspectRatio, items })
+        }
+      );
+      const saved = await response.json();
+      if (!response.ok) {
+        throw new Error(saved.error || 'Error al guardar la secuencia');
+      }
+      setEditingId(saved.id);
+
+      if (!render) {
+        toast.success('Secuencia guardada');
+        await fetchSequences();
+        return;
+      }
+
+      const renderResponse = await fetch(`/api/videos/sequences/${saved.id}/render`, { method: 'POST' });
+      const rendered = await renderResponse.json();
+      if (!renderResponse.ok) {
+        throw new Error(rendered.error || 'Error al montar la secuencia');
+      }
+
+      toast.success('Montaje iniciado');
+      navigate(`/generator?jobId=${rendered.render.jobId}`);
+    } catch (error) {
+      console.error('Error saving sequence:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al guardar la secuencia');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderStatus = (sequence: Sequence) => {
+    if (!sequence.render) return 'Sin montar';
+    switch (sequence.render.status) {
+      case 'completed':
+        return 'Montada';
+      case 'failed':
+        return 'Error al montar';
+      case 'cancelled':
+        return 'Cancelada';
+      default:
+        return `Montando ${sequence.render.progress}%`;
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-16">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8">
+      <div className="text-center space-y-2">
+        <h1 className="text-4xl font-bold text-gray-900">Secuencias</h1>
+        <p className="text-lg text-gray-600">
+          Une varios videos en una lección más larga, con fundidos entre ellos
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        {/* Completed videos */}
+        <div className="card space-y-4">
+          <h2 className="text-xl font-semibold text-gray-900">Videos disponibles</h2>
+          {videos.length === 0 ? (
+            <p className="text-gray-600">Todavía no hay videos completados.</p>
+          ) : (
+            <ul className="space-y-2 max-h-[32rem] overflow-y-auto">
+              {videos.map(video => (
+                <li key={video.id} className="flex items-center space-x-3 p-2 rounded-lg hover:bg-gray-50">
+                  <img
+                    src={video.thumbnailUrl}
+                    alt={video.prompt}
+                    className="w-20 h-12 object-cover rounded bg-gray-100"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{video.prompt}</p>
+                    <p className="text-xs text-gray-500">
+                      {video.duration}s · {video.aspectRatio}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => addClip(video.id)}
+                    className="btn-secondary flex items-center space-x-1 text-sm"
+                  >
+                    <Plus className="w-4 h-4" />
+                    <span>Añadir</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Sequence editor */}
+        <div className="card space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-semibold text-gray-900">
+              {editingId ? 'Editar secuencia' : 'Nueva secuencia'}
+            </h2>
+            {editingId && (
+              <button onClick={resetEditor} className="text-sm text-blue-600 hover:text-blue-700">
+                Nueva
+              </button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Nombre</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Lección 1: el ahorro"
+                className="input-field"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Formato</label>
+              <select
+                value={aspectRatio}
+                onChange={(e) => setAspectRatio(e.target.value)}
+                className="input-field"
+              >
+                <option value="16:9">16:9</option>
+                <option value="9:16">9:16</option>
+                <option value="1:1">1:1</option>
+              </select>
+            </div>
+          </div>
+
+          {items.length === 0 ? (
+            <p className="text-gray-600 text-sm">Añade videos desde la lista para ordenarlos aquí.</p>
+          ) : (
+            <ol className="space-y-2">
+              {items.map((item, index) => {
+                const video = findVideo(item.videoId);
+                return (
+                  <li key={`${item.videoId}-${index}`} className="border border-gray-200 rounded-lg p-2 space-y-2">
+                    {index > 0 && (
+                      <div className="flex items-center space-x-2 text-xs text-gray-600">
+                        <span>Fundido con el anterior</span>
+                        <input
+                          type="number"
+                          min={0}
+                          max={MAX_CROSSFADE_SECONDS}
+                          step={0.5}
+                          value={item.crossfadeSeconds}
+                          onChange={(e) => setCrossfade(index, e.target.value)}
+                          className="w-16 border border-gray-300 rounded px-1 py-0.5"
+                        />
+                        <span>s {item.crossfadeSeconds === 0 && '(corte directo)'}</span>
+                      </div>
+                    )}
+                    <div className="flex items-center space-x-3">
+                      <span className="text-sm font-medium text-gray-500 w-5">{index + 1}</span>
+                      {video && (
+                        <img
+                          src={video.thumbnailUrl}
+                          alt={video.prompt}
+                          className="w-16 h-10 object-cover rounded bg-gray-100"
+                        />
+                      )}
+                      <p className="flex-1 min-w-0 text-sm text-gray-900 truncate">
+                        {video ? video.prompt : `Video ${item.videoId}`}
+                      </p>
+                      <button
+                        onClick={() => moveClip(index, -1)}
+                        disabled={index === 0}
+                        className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                        title="Subir"
+                      >
+                        <ArrowUp className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => moveClip(index, 1)}
+                        disabled={index === items.length - 1}
+                        className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                        title="Bajar"
+                      >
+                        <ArrowDown className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => removeClip(index)}
+                        className="p-1 text-gray-500 hover:text-red-600"
+                        title="Quitar"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+
+          {items.length > 0 && (
+            <p className="flex items-center space-x-1 text-sm text-gray-600">
+              <Clock className="w-4 h-4" />
+              <span>Duración aproximada: {Math.max(0, Math.round(totalDuration))}s</span>
+            </p>
+          )}
+
+          <div className="flex space-x-3">
+            <button
+              onClick={() => handleSave(false)}
+              disabled={saving}
+              className="btn-secondary flex items-center space-x-2"
+            >
+              <Save className="w-4 h-4" />
+              <span>Guardar</span>
+            </button>
+            <button
+              onClick={() => handleSave(true)}
+              disabled={saving}
+              className="btn-primary flex items-center space-x-2"
+            >
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Film className="w-4 h-4" />}
+              <span>{saving ? 'Guardando...' : 'Guardar y montar'}</span>
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Existing sequences */}
+      <div className="card space-y-4">
+        <h2 className="text-xl font-semibold text-gray-900">Secuencias guardadas</h2>
+
+        {sequences.length === 0 ? (
+          <p className="text-gray-600">Todavía no has creado ninguna secuencia.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {sequences.map(sequence => (
+              <li key={sequence.id} className="flex items-center justify-between py-3 px-2">
+                <button onClick={() => editSequence(sequence)} className="text-left">
+                  <p className="font-medium text-gray-900">{sequence.name}</p>
+                  <p className="text-sm text-gray-500">
+                    {sequence.items.length} videos · {sequence.aspectRatio} · {renderStatus(sequence)}
+                  </p>
+                  {sequence.render?.error && (
+                    <p className="text-xs text-red-600">{sequence.render.error}</p>
+                  )}
+                </button>
+                {sequence.render?.status === 'completed' ? (
+                  <button
+                    onClick={() => navigate(`/player/${sequence.render!.videoId}`)}
+                    className="btn-secondary flex items-center space-x-2 text-sm"
+                  >
+                    <Play className="w-4 h-4" />
+                    <span>Ver</span>
+                  </button>
+                ) : sequence.render && ['queued', 'processing'].includes(sequence.render.status) ? (
+                  <button
+                    onClick={() => navigate(`/generator?jobId=${sequence.render!.jobId}`)}
+                    className="btn-secondary flex items-center space-x-2 text-sm"
+                  >
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    <span>Progreso</span>
+                  </button>
+                ) : null}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Sequences;